@@ -1,11 +1,16 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Routes, Route, Navigate, useLocation } from 'react-router-dom';
-import { CustomAbbreviation } from './types';
+import { CustomAbbreviation, CriticalThreshold, UnitSystem, OutputTemplate, LabCategory, DEFAULT_CRITICAL_THRESHOLDS, DEFAULT_OUTPUT_TEMPLATE } from './types';
+import { DEFAULT_LAB_CATEGORIES } from './services/labCategories';
 import { authService, UserProfile } from './services/authService';
+import { dictionaryService, resolveAbbreviations, AbbreviationDictionary, OrganizationMembership, BUILTIN_PRESETS } from './services/dictionaryService';
+import { offlineVault } from './services/offlineVault';
 import AuthScreen from './components/auth/AuthScreen';
 import HomePage from './pages/HomePage';
 import ProfilePage from './pages/ProfilePage';
 import PlansPage from './pages/PlansPage';
+import PatientsPage from './pages/PatientsPage';
+import PatientTimelinePage from './pages/PatientTimelinePage';
 import ResetPasswordPage from './pages/ResetPasswordPage';
 import type { Session } from '@supabase/supabase-js';
 
@@ -17,16 +22,36 @@ const App: React.FC = () => {
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [isAuthChecking, setIsAuthChecking] = useState(true);
   const [customAbbreviations, setCustomAbbreviations] = useState<CustomAbbreviation[]>([]);
+  const [criticalThresholds, setCriticalThresholds] = useState<CriticalThreshold[]>(DEFAULT_CRITICAL_THRESHOLDS);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>('conventional');
+  const [outputTemplate, setOutputTemplate] = useState<OutputTemplate>(DEFAULT_OUTPUT_TEMPLATE);
+  const [labCategories, setLabCategories] = useState<LabCategory[]>(DEFAULT_LAB_CATEGORIES);
+  const [dictionaries, setDictionaries] = useState<AbbreviationDictionary[]>(BUILTIN_PRESETS);
+  const [memberships, setMemberships] = useState<OrganizationMembership[]>([]);
+  const [activeDictionaries, setActiveDictionaries] = useState<string[]>([]);
+
+  // What the analysis actually uses: team dictionaries, active presets, then the user's own list
+  const analysisAbbreviations = useMemo(
+    () => resolveAbbreviations(dictionaries, activeDictionaries, customAbbreviations),
+    [dictionaries, activeDictionaries, customAbbreviations]
+  );
 
   // Check authentication on mount and listen for auth changes
   useEffect(() => {
+    // Offline data only outlives the session of its own user: an expired or replaced session
+    // (not just a sign-out) takes the other records off the device
+    const keepOfflineData = (session: Session | null) =>
+      offlineVault.keepOnly(session?.user?.id ?? null).catch((error) => console.warn('Offline data not cleared:', error));
+
     authService.getSession().then(({ session }) => {
       setSession(session);
       setIsAuthChecking(false);
+      keepOfflineData(session);
     });
 
-    const { data: { subscription } } = authService.onAuthStateChange((_event, session) => {
+    const { data: { subscription } } = authService.onAuthStateChange((event, session) => {
       setSession(session);
+      if (event === 'SIGNED_OUT' || event === 'SIGNED_IN') keepOfflineData(session);
     });
 
     return () => subscription.unsubscribe();
@@ -41,14 +66,39 @@ const App: React.FC = () => {
       });
       
       // Fetch customizations from Supabase
-      authService.getCustomizations(session.user.id).then(({ abbreviations }) => {
+      authService.getCustomizations(session.user.id).then(({ abbreviations, criticalThresholds, unitSystem, outputTemplate, labCategories, activeDictionaries }) => {
         if (abbreviations && abbreviations.length > 0) {
           setCustomAbbreviations(abbreviations);
         }
+        if (criticalThresholds) {
+          setCriticalThresholds(criticalThresholds);
+        }
+        if (unitSystem) {
+          setUnitSystem(unitSystem);
+        }
+        if (outputTemplate) {
+          setOutputTemplate(outputTemplate);
+        }
+        if (labCategories) {
+          setLabCategories(labCategories);
+        }
+        setActiveDictionaries(activeDictionaries);
+      });
+
+      dictionaryService.listDictionaries(session.user.id).then(({ dictionaries, memberships }) => {
+        setDictionaries(dictionaries);
+        setMemberships(memberships);
       });
     } else {
       setUserProfile(null);
       setCustomAbbreviations([]);
+      setCriticalThresholds(DEFAULT_CRITICAL_THRESHOLDS);
+      setUnitSystem('conventional');
+      setOutputTemplate(DEFAULT_OUTPUT_TEMPLATE);
+      setLabCategories(DEFAULT_LAB_CATEGORIES);
+      setDictionaries(BUILTIN_PRESETS);
+      setMemberships([]);
+      setActiveDictionaries([]);
     }
   }, [session]);
 
@@ -57,6 +107,10 @@ const App: React.FC = () => {
   };
 
   const handleLogout = async () => {
+    // Analyses kept on this device for offline use go with the session
+    if (session?.user?.id) {
+      await offlineVault.clearUser(session.user.id).catch((error) => console.warn('Offline data not cleared:', error));
+    }
     await authService.signOut();
     setSession(null);
   };
@@ -92,6 +146,20 @@ const App: React.FC = () => {
             onLogout={handleLogout}
             customAbbreviations={customAbbreviations}
             setCustomAbbreviations={setCustomAbbreviations}
+            criticalThresholds={criticalThresholds}
+            setCriticalThresholds={setCriticalThresholds}
+            unitSystem={unitSystem}
+            setUnitSystem={setUnitSystem}
+            outputTemplate={outputTemplate}
+            setOutputTemplate={setOutputTemplate}
+            labCategories={labCategories}
+            setLabCategories={setLabCategories}
+            dictionaries={dictionaries}
+            setDictionaries={setDictionaries}
+            memberships={memberships}
+            activeDictionaries={activeDictionaries}
+            setActiveDictionaries={setActiveDictionaries}
+            analysisAbbreviations={analysisAbbreviations}
           />
         }
       />
@@ -109,6 +177,11 @@ const App: React.FC = () => {
         path="/plans"
         element={<PlansPage session={session} />}
       />
+      <Route
+        path="/patients"
+        element={<PatientsPage session={session} />}
+      />
+      <Route path="/patients/:patientId" element={<PatientTimelinePage />} />
       <Route path="/reset-password" element={<ResetPasswordPage />} />
       <Route path="*" element={<Navigate to="/" replace />} />
     </Routes>
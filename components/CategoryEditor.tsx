@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp, Plus, Trash2, X } from 'lucide-react';
+import { LabCategory } from '../types';
+import { assignAnalyte } from '../services/labCategories';
+
+interface CategoryEditorProps {
+  categories: LabCategory[];
+  onChange: (categories: LabCategory[]) => void;
+}
+
+const inputClass = 'px-3 py-2 bg-background border border-border text-slate-100 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-brand-start placeholder-slate-600';
+const arrowClass = 'p-1 text-slate-500 hover:text-white disabled:opacity-30 disabled:hover:text-slate-500 transition-colors';
+
+// Swaps an entry with its neighbour; out-of-range moves leave the list as is
+const move = <T,>(list: T[], index: number, offset: number): T[] => {
+  const target = index + offset;
+  if (target < 0 || target >= list.length) return list;
+  const next = [...list];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+// Categories and analytes in display order; abbreviations not listed anywhere go to OUTROS
+const CategoryEditor: React.FC<CategoryEditorProps> = ({ categories, onChange }) => {
+  const [newCategory, setNewCategory] = useState('');
+  const [newAnalytes, setNewAnalytes] = useState<Record<string, string>>({});
+
+  const updateCategory = (id: string, update: (category: LabCategory) => LabCategory) =>
+    onChange(categories.map(category => (category.id === id ? update(category) : category)));
+
+  const handleAddCategory = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newCategory.trim().toUpperCase();
+    if (!name) return;
+    onChange([...categories, { id: Date.now().toString(), name, abbreviations: [] }]);
+    setNewCategory('');
+  };
+
+  const handleAddAnalyte = (e: React.FormEvent, categoryId: string) => {
+    e.preventDefault();
+    const abbr = (newAnalytes[categoryId] || '').trim();
+    if (!abbr) return;
+    onChange(assignAnalyte(categories, categoryId, abbr));
+    setNewAnalytes({ ...newAnalytes, [categoryId]: '' });
+  };
+
+  return (
+    <div className="space-y-3">
+      {categories.map((category, index) => (
+        <div key={category.id} className="p-3 bg-surfaceHighlight border border-border rounded-lg space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={category.name}
+              onChange={(e) => updateCategory(category.id, current => ({ ...current, name: e.target.value.toUpperCase() }))}
+              className={`${inputClass} flex-grow font-semibold py-1`}
+            />
+            <button onClick={() => onChange(move(categories, index, -1))} disabled={index === 0} className={arrowClass} title="Subir">
+              <ChevronUp size={16} />
+            </button>
+            <button onClick={() => onChange(move(categories, index, 1))} disabled={index === categories.length - 1} className={arrowClass} title="Descer">
+              <ChevronDown size={16} />
+            </button>
+            <button
+              onClick={() => onChange(categories.filter(item => item.id !== category.id))}
+              className="p-1 text-slate-500 hover:text-red-400 transition-colors"
+              title="Remover sistema (as siglas vão para OUTROS)"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-1.5">
+            {category.abbreviations.map((abbr, position) => (
+              <span key={abbr} className="flex items-center bg-background border border-border rounded text-xs text-slate-200">
+                <button
+                  onClick={() => updateCategory(category.id, current => ({ ...current, abbreviations: move(current.abbreviations, position, -1) }))}
+                  disabled={position === 0}
+                  className={arrowClass}
+                >
+                  <ChevronLeft size={12} />
+                </button>
+                <span className="font-mono">{abbr}</span>
+                <button
+                  onClick={() => updateCategory(category.id, current => ({ ...current, abbreviations: move(current.abbreviations, position, 1) }))}
+                  disabled={position === category.abbreviations.length - 1}
+                  className={arrowClass}
+                >
+                  <ChevronRight size={12} />
+                </button>
+                <button
+                  onClick={() => updateCategory(category.id, current => ({ ...current, abbreviations: current.abbreviations.filter(item => item !== abbr) }))}
+                  className="p-1 text-slate-500 hover:text-red-400 transition-colors"
+                >
+                  <X size={12} />
+                </button>
+              </span>
+            ))}
+            <form onSubmit={(e) => handleAddAnalyte(e, category.id)} className="flex items-center">
+              <input
+                type="text"
+                placeholder="+ sigla"
+                value={newAnalytes[category.id] || ''}
+                onChange={(e) => setNewAnalytes({ ...newAnalytes, [category.id]: e.target.value })}
+                className={`${inputClass} w-24 py-1 text-xs`}
+              />
+            </form>
+          </div>
+        </div>
+      ))}
+
+      <form onSubmit={handleAddCategory} className="flex gap-2">
+        <input
+          type="text"
+          placeholder="Novo sistema (ex: IMUNOSSUPRESSORES)"
+          value={newCategory}
+          onChange={(e) => setNewCategory(e.target.value)}
+          className={`${inputClass} flex-grow uppercase`}
+        />
+        <button
+          type="submit"
+          disabled={!newCategory.trim()}
+          className="px-4 py-2 bg-brand-start text-white rounded-lg hover:bg-brand-end disabled:opacity-50 disabled:cursor-not-allowed transition-colors h-[38px] flex items-center justify-center"
+        >
+          <Plus size={20} />
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default CategoryEditor;
@@ -0,0 +1,274 @@
+import React, { useRef, useState } from 'react';
+import { Download, Loader2, Upload, Users, Trash2, Save } from 'lucide-react';
+import { CustomAbbreviation } from '../types';
+import { authService } from '../services/authService';
+import {
+  AbbreviationDictionary,
+  OrganizationMembership,
+  DictionaryFormat,
+  dictionaryService,
+  exportDictionary,
+  parseDictionaryFile,
+} from '../services/dictionaryService';
+
+interface DictionaryManagerProps {
+  userId?: string;
+  abbreviations: CustomAbbreviation[];
+  setAbbreviations: (abbr: CustomAbbreviation[]) => void;
+  dictionaries: AbbreviationDictionary[];
+  setDictionaries: (dictionaries: AbbreviationDictionary[]) => void;
+  memberships: OrganizationMembership[];
+  activeDictionaries: string[];
+  setActiveDictionaries: (ids: string[]) => void;
+}
+
+// Where an imported file goes once read
+type ImportTarget = { kind: 'personal' } | { kind: 'preset' } | { kind: 'team'; organizationId: string };
+
+const buttonClass = 'text-xs text-slate-400 hover:text-white flex items-center gap-1 transition-colors disabled:opacity-50';
+
+const download = (name: string, entries: CustomAbbreviation[], format: DictionaryFormat) => {
+  const blob = new Blob([exportDictionary(name, entries, format)], {
+    type: format === 'json' ? 'application/json' : 'text/csv;charset=utf-8',
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name.replace(/[^\w\- ]+/g, '').trim() || 'abreviacoes'}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ExportButtons: React.FC<{ name: string; entries: CustomAbbreviation[] }> = ({ name, entries }) => (
+  <>
+    <button onClick={() => download(name, entries, 'json')} disabled={entries.length === 0} className={buttonClass} title="Exportar JSON">
+      <Download size={12} /> JSON
+    </button>
+    <button onClick={() => download(name, entries, 'csv')} disabled={entries.length === 0} className={buttonClass} title="Exportar CSV">
+      <Download size={12} /> CSV
+    </button>
+  </>
+);
+
+/**
+ * Team dictionaries (inherited from the residency program, maintained by preceptors), named
+ * presets the user switches on, and import/export of the personal list. The analysis combines
+ * them in that order, the personal list winning.
+ */
+const DictionaryManager: React.FC<DictionaryManagerProps> = ({
+  userId,
+  abbreviations,
+  setAbbreviations,
+  dictionaries,
+  setDictionaries,
+  memberships,
+  activeDictionaries,
+  setActiveDictionaries,
+}) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [importTarget, setImportTarget] = useState<ImportTarget>({ kind: 'personal' });
+  const [presetName, setPresetName] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const teamDictionaries = dictionaries.filter(dictionary => dictionary.organizationId);
+  const presets = dictionaries.filter(dictionary => !dictionary.inherited);
+  const isPreceptorOf = (organizationId: string | null) =>
+    memberships.some(membership => membership.organizationId === organizationId && membership.role === 'preceptor');
+
+  const run = async (action: () => Promise<string | null>) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      setMessage(await action());
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Não foi possível concluir a operação.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const saveDictionary = async (dictionary: Parameters<typeof dictionaryService.saveDictionary>[1]) => {
+    if (!userId) throw new Error('Entre na sua conta para salvar dicionários.');
+    const { dictionary: saved, error } = await dictionaryService.saveDictionary(userId, dictionary);
+    if (error || !saved) throw new Error(error?.message || 'Não foi possível salvar o dicionário.');
+    setDictionaries(dictionary.id
+      ? dictionaries.map(current => (current.id === saved.id ? saved : current))
+      : [...dictionaries, saved]);
+    return saved;
+  };
+
+  const toggleActive = async (id: string) => {
+    const updated = activeDictionaries.includes(id)
+      ? activeDictionaries.filter(current => current !== id)
+      : [...activeDictionaries, id];
+    setActiveDictionaries(updated);
+    if (!userId) return;
+    await authService.saveCustomizations(userId, abbreviations, { activeDictionaries: updated });
+  };
+
+  const handleSavePreset = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = presetName.trim();
+    if (!name || abbreviations.length === 0) return;
+    run(async () => {
+      await saveDictionary({ name, entries: abbreviations, organizationId: null, inherited: false });
+      setPresetName('');
+      return `Predefinição "${name}" salva.`;
+    });
+  };
+
+  const handleDeletePreset = (dictionary: AbbreviationDictionary) => run(async () => {
+    const { error } = await dictionaryService.deleteDictionary(dictionary.id);
+    if (error) throw new Error(error.message);
+    setDictionaries(dictionaries.filter(current => current.id !== dictionary.id));
+    if (activeDictionaries.includes(dictionary.id)) await toggleActive(dictionary.id);
+    return null;
+  });
+
+  // Replaces the team's inherited dictionary; members pick it up on their next sign-in
+  const publishToTeam = async (organizationId: string, organizationName: string, entries: CustomAbbreviation[]) => {
+    const current = teamDictionaries.find(dictionary => dictionary.organizationId === organizationId && dictionary.inherited);
+    await saveDictionary({ id: current?.id, name: current?.name || organizationName, entries, organizationId, inherited: true });
+    return `Dicionário de ${organizationName} atualizado (${entries.length} abreviações).`;
+  };
+
+  const openImport = (target: ImportTarget) => {
+    setImportTarget(target);
+    fileInput.current?.click();
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    run(async () => {
+      const { name, entries } = parseDictionaryFile(file.name, await file.text());
+      if (importTarget.kind === 'preset') {
+        await saveDictionary({ name, entries, organizationId: null, inherited: false });
+        return `Predefinição "${name}" importada (${entries.length} abreviações).`;
+      }
+      if (importTarget.kind === 'team') {
+        const membership = memberships.find(current => current.organizationId === importTarget.organizationId);
+        return publishToTeam(importTarget.organizationId, membership?.organizationName || name, entries);
+      }
+      // The personal list keeps its own rules; the file only adds exams not there yet
+      const known = new Set(abbreviations.map(item => item.examName.trim().toLowerCase()));
+      const added = entries.filter(item => !known.has(item.examName.trim().toLowerCase()));
+      const updated = [...abbreviations, ...added];
+      setAbbreviations(updated);
+      if (userId) await authService.saveCustomizations(userId, updated);
+      return `${added.length} abreviações importadas${added.length < entries.length ? ` (${entries.length - added.length} já existiam)` : ''}.`;
+    });
+  };
+
+  return (
+    <div className="space-y-5">
+      <input ref={fileInput} type="file" accept=".json,.csv,.txt" onChange={handleFile} className="hidden" />
+
+      {/* Team */}
+      {memberships.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-xs font-semibold text-slate-500 uppercase flex items-center gap-1"><Users size={12} /> Equipe</h4>
+          {memberships.map(membership => {
+            const inherited = teamDictionaries.filter(dictionary => dictionary.organizationId === membership.organizationId && dictionary.inherited);
+            const entries = inherited.flatMap(dictionary => dictionary.entries);
+            return (
+              <div key={membership.organizationId} className="p-3 bg-surfaceHighlight border border-border rounded-lg space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-slate-200">{membership.organizationName}</span>
+                  <span className="text-[10px] text-slate-500 uppercase">{membership.role === 'preceptor' ? 'Preceptor' : 'Membro'}</span>
+                </div>
+                <p className="text-xs text-slate-500">
+                  {entries.length > 0
+                    ? `${entries.length} abreviações aplicadas automaticamente. Suas regras têm prioridade.`
+                    : 'Nenhum dicionário da equipe ainda.'}
+                </p>
+                <div className="flex flex-wrap gap-3">
+                  <ExportButtons name={membership.organizationName} entries={entries} />
+                  {isPreceptorOf(membership.organizationId) && (
+                    <>
+                      <button
+                        onClick={() => run(() => publishToTeam(membership.organizationId, membership.organizationName, abbreviations))}
+                        disabled={isBusy || abbreviations.length === 0}
+                        className={buttonClass}
+                        title="Substitui o dicionário da equipe pelas suas regras"
+                      >
+                        <Save size={12} /> Publicar minhas regras
+                      </button>
+                      <button onClick={() => openImport({ kind: 'team', organizationId: membership.organizationId })} disabled={isBusy} className={buttonClass}>
+                        <Upload size={12} /> Importar
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Presets */}
+      <div className="space-y-2">
+        <h4 className="text-xs font-semibold text-slate-500 uppercase">Predefinições</h4>
+        {presets.map(dictionary => (
+          <div key={dictionary.id} className="flex items-center justify-between gap-2 p-2 bg-surfaceHighlight border border-border rounded-lg">
+            <label className="flex items-center gap-2 text-sm text-slate-200 cursor-pointer min-w-0">
+              <input
+                type="checkbox"
+                checked={activeDictionaries.includes(dictionary.id)}
+                onChange={() => toggleActive(dictionary.id)}
+                className="accent-brand-start"
+              />
+              <span className="truncate">{dictionary.name}</span>
+              <span className="text-[10px] text-slate-500 shrink-0">
+                {dictionary.entries.length} · {dictionary.builtin ? 'padrão' : dictionary.organizationName || 'minha'}
+              </span>
+            </label>
+            <div className="flex items-center gap-2 shrink-0">
+              <ExportButtons name={dictionary.name} entries={dictionary.entries} />
+              {!dictionary.builtin && (!dictionary.organizationId || isPreceptorOf(dictionary.organizationId)) && (
+                <button onClick={() => handleDeletePreset(dictionary)} disabled={isBusy} className="text-slate-500 hover:text-red-400 transition-colors p-1" title="Excluir">
+                  <Trash2 size={14} />
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+        <form onSubmit={handleSavePreset} className="flex gap-2">
+          <input
+            type="text"
+            placeholder="Salvar minhas regras como..."
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            className="flex-grow px-3 py-2 bg-background border border-border text-slate-100 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-brand-start placeholder-slate-600"
+          />
+          <button
+            type="submit"
+            disabled={isBusy || !presetName.trim() || abbreviations.length === 0}
+            className="px-3 py-2 bg-brand-start text-white rounded-lg hover:bg-brand-end disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm"
+          >
+            Salvar
+          </button>
+        </form>
+        <button onClick={() => openImport({ kind: 'preset' })} disabled={isBusy} className={buttonClass}>
+          <Upload size={12} /> Importar arquivo como predefinição
+        </button>
+      </div>
+
+      {/* Personal list */}
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-xs font-semibold text-slate-500 uppercase">Suas regras</span>
+        <ExportButtons name="Minhas abreviações" entries={abbreviations} />
+        <button onClick={() => openImport({ kind: 'personal' })} disabled={isBusy} className={buttonClass}>
+          <Upload size={12} /> Importar
+        </button>
+        {isBusy && <Loader2 size={12} className="animate-spin text-slate-500" />}
+      </div>
+
+      {message && <p className="text-xs text-slate-400">{message}</p>}
+    </div>
+  );
+};
+
+export default DictionaryManager;
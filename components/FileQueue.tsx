@@ -0,0 +1,111 @@
+import React from 'react';
+import { AlertCircle, CheckCircle2, Clock, File as FileIcon, Loader2, Play, RotateCcw, Trash2, X } from 'lucide-react';
+import { FileStatus } from '../services/batchAnalysis';
+
+interface FileQueueProps {
+  title: React.ReactNode;
+  files: File[];
+  statuses?: FileStatus[]; // By file position; omitted before processing starts
+  errors?: (string | undefined)[]; // Why a file failed, by file position
+  onRemove?: (index: number) => void;
+  onClear?: () => void;
+  onStart?: () => void;
+  onRetry?: () => void; // Sends only the failed files again
+  onClose?: () => void;
+}
+
+const STATUS_BADGES: Record<FileStatus, { label: string; icon: React.ReactNode; className: string }> = {
+  queued: { label: 'Na fila', icon: <Clock size={14} />, className: 'text-slate-400' },
+  processing: { label: 'Processando', icon: <Loader2 size={14} className="animate-spin" />, className: 'text-brand-start' },
+  done: { label: 'Concluído', icon: <CheckCircle2 size={14} />, className: 'text-green-400' },
+  failed: { label: 'Falhou', icon: <AlertCircle size={14} />, className: 'text-red-400' },
+};
+
+const FileQueue: React.FC<FileQueueProps> = ({ title, files, statuses, errors, onRemove, onClear, onStart, onRetry, onClose }) => {
+  const doneCount = statuses?.filter(status => status === 'done').length ?? 0;
+
+  return (
+    <div className="w-full max-w-2xl bg-surface rounded-2xl border border-border overflow-hidden animate-fade-in-up">
+      <div className="bg-surfaceHighlight px-4 py-3 border-b border-border flex justify-between items-center">
+        <span className="text-sm font-semibold text-slate-300">{title}</span>
+        {onClear && (
+          <button onClick={onClear} className="text-xs text-red-400 hover:text-red-300 hover:underline">
+            Limpar tudo
+          </button>
+        )}
+        {onClose && (
+          <button onClick={onClose} className="p-1 rounded text-slate-400 hover:text-white hover:bg-white/10" title="Fechar">
+            <X size={16} />
+          </button>
+        )}
+        {statuses && !onClear && !onClose && (
+          <span className="text-xs text-slate-500">{doneCount} de {files.length}</span>
+        )}
+      </div>
+      <div className="max-h-60 overflow-y-auto p-2 space-y-2">
+        {files.map((file, idx) => {
+          const badge = statuses ? STATUS_BADGES[statuses[idx] ?? 'queued'] : null;
+          return (
+            <div
+              key={idx}
+              className="flex items-center justify-between p-3 bg-background rounded-lg border border-border group hover:border-brand-start/30 transition-colors"
+            >
+              <div className="flex items-center gap-3 overflow-hidden">
+                <div className="p-2 bg-slate-800 rounded-lg text-slate-400">
+                  <FileIcon size={18} />
+                </div>
+                <div className="flex flex-col text-left overflow-hidden">
+                  <span className="text-sm font-medium text-slate-200 truncate max-w-[200px] sm:max-w-xs">
+                    {file.name}
+                  </span>
+                  <span className="text-xs text-slate-500">{(file.size / 1024).toFixed(0)} KB</span>
+                  {statuses?.[idx] === 'failed' && errors?.[idx] && (
+                    <span className="text-xs text-red-400/90">{errors[idx]}</span>
+                  )}
+                </div>
+              </div>
+              {badge && (
+                <span className={`flex items-center gap-1.5 text-xs font-medium shrink-0 ${badge.className}`}>
+                  {badge.icon} {badge.label}
+                </span>
+              )}
+              {onRemove && (
+                <button
+                  onClick={() => onRemove(idx)}
+                  className="p-2 text-slate-500 hover:text-red-500 hover:bg-red-500/10 rounded-lg transition-colors"
+                  title="Remover arquivo"
+                >
+                  <Trash2 size={16} />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {onStart && (
+        <div className="p-4 bg-surfaceHighlight/50 border-t border-border">
+          <button
+            onClick={onStart}
+            className="w-full py-4 bg-gradient-to-r from-brand-start to-brand-end hover:from-brand-600 hover:to-brand-700 text-white rounded-xl font-bold text-lg shadow-lg shadow-brand-start/20 hover:shadow-brand-start/40 transform hover:scale-[1.02] active:scale-[0.98] transition-all flex items-center justify-center gap-3"
+          >
+            <Play size={24} fill="currentColor" />
+            Organizar Exames Agora
+          </button>
+        </div>
+      )}
+      {onRetry && (
+        <div className="p-3 bg-surfaceHighlight/50 border-t border-border">
+          <button
+            onClick={onRetry}
+            className="w-full py-2.5 bg-brand-start/10 hover:bg-brand-start/20 text-brand-start border border-brand-start/30 rounded-xl font-semibold text-sm transition-colors flex items-center justify-center gap-2"
+          >
+            <RotateCcw size={16} />
+            Tentar novamente os arquivos que falharam
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FileQueue;
@@ -1,6 +1,8 @@
 
 import React, { useCallback, useState, useRef, useEffect } from 'react';
 import { UploadCloud, AlertCircle, Files, Type, ArrowRight, Clipboard, Mic, Camera, StopCircle, Settings2, ToggleLeft, ToggleRight, X, SwitchCamera, Check } from 'lucide-react';
+import { MAX_INLINE_FILE_BYTES, MAX_PDF_FILE_BYTES } from '../services/extractionPrompt';
+import { HL7_FILE_EXTENSIONS, isHl7File } from '../services/labParsers';
 import { AnalysisPreferences } from '../types';
 
 interface FileUploadProps {
@@ -9,6 +11,10 @@ interface FileUploadProps {
   onAudioSubmit: (audioBlob: Blob) => void;
   preferences: AnalysisPreferences;
   onUpdatePreferences: (prefs: AnalysisPreferences) => void;
+  maxFiles?: number | null; // per analysis, from the user's plan (null = unlimited)
+  queuedCount?: number;
+  onLimitReached?: (message: string) => void;
+  onCaptureOffline?: (file: File) => void; // Photos taken without a connection, kept for later sending
   disabled?: boolean;
 }
 
@@ -18,6 +24,10 @@ const FileUpload: React.FC<FileUploadProps> = ({
   onAudioSubmit,
   preferences,
   onUpdatePreferences,
+  maxFiles = null,
+  queuedCount = 0,
+  onLimitReached,
+  onCaptureOffline,
   disabled 
 }) => {
   const [activeTab, setActiveTab] = useState<'pdf' | 'text'>('pdf');
@@ -65,17 +75,27 @@ const FileUpload: React.FC<FileUploadProps> = ({
     const validFiles: File[] = [];
     
     for (const file of fileList) {
-        // Accept PDF and Images
-        if (!file.type.includes('pdf') && !file.type.includes('image/')) {
-          setError('Apenas PDF ou Imagens (JPG/PNG).');
+        // Accept PDF, Images and HL7 messages from the hospital LIS
+        const isHl7 = isHl7File(file);
+        if (!file.type.includes('pdf') && !file.type.includes('image/') && !isHl7) {
+          setError('Apenas PDF, Imagens (JPG/PNG) ou HL7 (.hl7/.txt).');
           return;
         }
-        if (file.size > 15 * 1024 * 1024) { 
-          setError(`Arquivo ${file.name} muito grande (Máx 15MB).`);
+        // Digital PDFs may be larger: only their text layer is sent (checked at analysis time); HL7 is read locally
+        const maxBytes = file.type.includes('pdf') || isHl7 ? MAX_PDF_FILE_BYTES : MAX_INLINE_FILE_BYTES;
+        if (file.size > maxBytes) {
+          setError(`Arquivo ${file.name} muito grande (Máx ${maxBytes / (1024 * 1024)}MB).`);
           return;
         }
         validFiles.push(file);
     }
+
+    if (maxFiles !== null && queuedCount + validFiles.length > maxFiles) {
+        const message = `Seu plano permite até ${maxFiles} arquivos por análise.`;
+        setError(message);
+        onLimitReached?.(message);
+        return;
+    }
     
     if (validFiles.length > 0) {
         setError(null);
@@ -236,7 +256,8 @@ const FileUpload: React.FC<FileUploadProps> = ({
               canvas.toBlob((blob) => {
                   if (blob) {
                       const file = new File([blob], `foto_${Date.now()}.jpg`, { type: 'image/jpeg' });
-                      onFileSelect([file]); 
+                      if (onCaptureOffline && !navigator.onLine) onCaptureOffline(file);
+                      else onFileSelect([file]);
                       setPhotosTaken(prev => prev + 1);
                       
                       const flash = document.getElementById('camera-flash');
@@ -344,6 +365,11 @@ const FileUpload: React.FC<FileUploadProps> = ({
                       <p className="text-white/60 text-[10px] md:text-xs text-center mt-4 font-medium">
                           Tire quantas fotos precisar e clique no <span className="text-green-400 font-bold">✓</span> para enviar.
                       </p>
+                      {onCaptureOffline && !navigator.onLine && (
+                          <p className="text-amber-300/90 text-[10px] md:text-xs text-center mt-1 font-medium">
+                              Sem conexão: as fotos ficam salvas neste aparelho e são enviadas quando a internet voltar.
+                          </p>
+                      )}
                   </div>
               </div>
           </div>
@@ -431,12 +457,12 @@ const FileUpload: React.FC<FileUploadProps> = ({
                         <p className="mb-1 text-base font-medium text-slate-200">
                             Clique ou arraste <span className="text-brand-start font-bold">PDFs</span> ou <span className="text-brand-start font-bold">Imagens</span>
                         </p>
-                        <p className="text-xs text-slate-500">Múltiplos arquivos suportados</p>
+                        <p className="text-xs text-slate-500">Múltiplos arquivos suportados · HL7 (ORU) lido sem IA</p>
                     </div>
                     <input 
                         type="file" 
                         className="hidden" 
-                        accept="application/pdf,image/*"
+                        accept={`application/pdf,image/*,${HL7_FILE_EXTENSIONS}`}
                         multiple
                         onChange={handleFileInput}
                         disabled={disabled}
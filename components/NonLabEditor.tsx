@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { NonLabData } from '../types';
+
+interface NonLabEditorProps {
+  data: NonLabData;
+  onSave: (patch: NonLabData) => void;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 bg-background border border-border text-slate-100 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-brand-start';
+
+// Findings are edited one per line; blank lines are dropped on save
+const NonLabEditor: React.FC<NonLabEditorProps> = ({ data, onSave, onCancel }) => {
+  const [examTitle, setExamTitle] = useState(data.examTitle);
+  const [findings, setFindings] = useState(data.mainFindings.join('\n'));
+  const [impression, setImpression] = useState(data.impression);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      examTitle: examTitle.trim(),
+      mainFindings: findings.split('\n'),
+      impression: impression.trim(),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label className="block text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2">Título</label>
+        <input type="text" value={examTitle} onChange={(e) => setExamTitle(e.target.value)} className={inputClass} />
+      </div>
+      <div>
+        <label className="block text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2">Achados Principais (um por linha)</label>
+        <textarea value={findings} onChange={(e) => setFindings(e.target.value)} rows={6} className={`${inputClass} custom-scrollbar`} />
+      </div>
+      <div>
+        <label className="block text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2">Conclusão / Impressão</label>
+        <textarea value={impression} onChange={(e) => setImpression(e.target.value)} rows={3} className={`${inputClass} custom-scrollbar`} />
+      </div>
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="flex items-center gap-2 px-4 py-2 rounded-lg text-slate-400 hover:text-white hover:bg-white/10 text-sm">
+          <X size={16} /> Cancelar
+        </button>
+        <button type="submit" className="flex items-center gap-2 px-4 py-2 rounded-lg bg-green-600/20 text-green-400 hover:bg-green-600/30 text-sm font-semibold">
+          <Check size={16} /> Salvar
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default NonLabEditor;
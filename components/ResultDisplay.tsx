@@ -1,59 +1,105 @@
 
-import React, { useState, useRef, memo } from 'react';
-import { AnalyzedExam, LabResultItem } from '../types';
-import { Copy, CheckCheck, RefreshCw, ScanEye, ArrowLeft, AlertTriangle, ChevronDown, ChevronUp, FilePlus, User, Trash2, XCircle, Download, MessageSquare, FileText, Stethoscope, AlignJustify, Grid, FileSpreadsheet, FileDown, BarChart3 } from 'lucide-react';
+import React, { useState, useRef, useMemo, useCallback, memo } from 'react';
+import { AnalyzedExam, LabResultItem, AnalysisPreferences, UnitSystem, NonLabData, SourceLocation, OutputTemplate, LabCategory } from '../types';
+import { Siren, Copy, CheckCheck, RefreshCw, ScanEye, ArrowLeft, AlertTriangle, ChevronDown, ChevronUp, FilePlus, User, Trash2, XCircle, Download, MessageSquare, FileText, Stethoscope, AlignJustify, Grid, FileSpreadsheet, FileDown, BarChart3, FolderHeart, FileJson, FileCode, Pencil, History, FileSearch, Merge, Split } from 'lucide-react';
 import * as XLSX from 'xlsx';
 import jsPDF from 'jspdf';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, ReferenceLine } from 'recharts';
+import SavePatientModal from './SavePatientModal';
+import ReviewQueue from './ReviewQueue';
+import ResultEditor from './ResultEditor';
+import NonLabEditor from './NonLabEditor';
+import SourceViewer from './SourceViewer';
+import { buildEvolutions, PatientEvolution } from '../services/labEvolution';
+import { parseReferenceRange, getLabValue, chartableNumber, formatLabValue } from '../services/labValues';
+import { convertExamUnits } from '../services/unitConversion';
+import { formatLabSummary } from '../services/outputTemplate';
+import { compareAnalytes, getCategory } from '../services/labCategories';
+import { describeLabCodes, withLabCodes } from '../services/labCodes';
+import { buildFhirBundle, validateFhirBundle } from '../services/fhirExport';
+import { buildOruR01 } from '../services/hl7Export';
+import { toIsoDate } from '../services/collectionDate';
+import { collectReviewItems, ReviewItem } from '../services/resultValidation';
+import { ResultPatch } from '../services/examEdits';
+import { isMergedExam } from '../services/patientMerge';
+import { HL7_FILE_EXTENSIONS } from '../services/labParsers';
+import { isCritical, isHighAbnormality, abnormalityArrow, hasModelDisagreement, ABNORMALITY_LABELS } from '../services/referenceRanges';
 
 interface ResultDisplayProps {
   data: AnalyzedExam[];
   onReset: () => void;
   onAddFiles: (files: File[]) => void;
   onRemoveExam: (id: string) => void;
+  onEditResult: (examId: string, index: number, patch: ResultPatch | null) => void;
+  onEditNonLab: (examId: string, patch: Partial<NonLabData>) => void;
+  onMergeCards: (sourceIds: string[], targetIds: string[]) => void;
+  onSplitCard: (examIds: string[]) => void;
+  userId?: string;
+  preferences: AnalysisPreferences;
+  unitSystem: UnitSystem;
+  outputTemplate: OutputTemplate;
+  labCategories: LabCategory[];
 }
 
-// System Categorization Map (For Labs)
-const SYSTEM_CATEGORIES: Record<string, string[]> = {
-  'HEMOGRAMA': ['Hb', 'Ht', 'VCM', 'HCM', 'CHCM', 'RDW', 'Leuco', 'Neut', 'Linf', 'Mono', 'Eos', 'Plq', 'MPV'],
-  'RENAL': ['Ur', 'Cr', 'Cist-C'],
-  'ELETRÓLITOS': ['Na', 'K', 'Ca', 'Mg', 'P', 'Cl', 'Cálcio Ion'],
-  'METABÓLICO': ['Glic', 'HbA1c', 'Homa-IR', 'Insul', 'Lac', 'Lactato'],
-  'LIPIDOGRAMA': ['Col-T', 'HDL', 'LDL', 'TG', 'VLDL'],
-  'HEPÁTICO': ['TGO', 'TGP', 'GGT', 'FA', 'Bil-T', 'Bil-D', 'Bil-I', 'Albumina', 'Proteínas'],
-  'HORMONAL': ['TSH', 'T4L', 'T3', 'Vit-D', 'Vit-B12', 'PTH', 'Cortisol'],
-  'INFLAMATÓRIO': ['PCR', 'VHS', 'Ferr', 'Fibrin', 'Proc'],
-  'CARDÍACO': ['Trop', 'CK-MB', 'BNP', 'CK'],
-  'GASOMETRIA': ['pH', 'pO2', 'pCO2', 'HCO3', 'BE', 'SatO2'],
-  'URINA': ['EAS', 'Leuco-U', 'Hem-U', 'Prot-U'],
+// Chart bar / legend colors per flag
+const ABNORMALITY_COLORS: Record<LabResultItem['abnormality'], string> = {
+  HIGH: '#ef4444',
+  LOW: '#3b82f6',
+  CRITICAL_HIGH: '#d946ef',
+  CRITICAL_LOW: '#d946ef',
+  NORMAL: '#6366f1',
 };
 
-// Helper to determine category for an abbreviation
-const getCategory = (abbr: string): string => {
-  for (const [category, items] of Object.entries(SYSTEM_CATEGORIES)) {
-    if (items.includes(abbr)) return category;
-  }
-  return 'OUTROS';
+const abnormalityTextClass = (abnormality: LabResultItem['abnormality'] | undefined): string =>
+    !abnormality || abnormality === 'NORMAL' ? 'text-slate-300' :
+    isCritical(abnormality) ? 'text-fuchsia-400 font-bold' :
+    abnormality === 'HIGH' ? 'text-red-400' : 'text-blue-400';
+
+const formatCriticalItem = (item: LabResultItem) =>
+    `${item.abbreviation} ${formatLabValue(item.value)} ${abnormalityArrow(item.abnormality)}`;
+
+// Date shown on an export: the exam's own, or the span on evolution cards (exams oldest first)
+const exportDate = (exams: AnalyzedExam[]): string => {
+    const today = new Date();
+    const fallback = `${String(today.getDate()).padStart(2, '0')}/${String(today.getMonth() + 1).padStart(2, '0')}/${today.getFullYear()}`;
+    const first = exams[0].collectionDate || fallback;
+    const last = exams[exams.length - 1].collectionDate || fallback;
+    return first === last ? last : `${first} a ${last}`;
 };
 
-// Excel Export Helper using XLSX library
-const downloadExcel = (exam: AnalyzedExam) => {
+// Excel Export Helper using XLSX library (rows grouped by the user's categories).
+// Evolution cards pass every date's exam: one row per result, with its date.
+const downloadExcel = (exams: AnalyzedExam[], categories: LabCategory[]) => {
     const wb = XLSX.utils.book_new();
-    const today = new Date();
-    const dateStr = exam.collectionDate || `${String(today.getDate()).padStart(2, '0')}/${String(today.getMonth() + 1).padStart(2, '0')}/${today.getFullYear()}`;
+    const exam = exams[exams.length - 1];
+    const dateStr = exportDate(exams);
 
     if (exam.category === 'LAB') {
+        const byAnalyte = compareAnalytes(categories);
+        // Stable sort: each analyte's dates keep the card's order
+        const rows = exams
+            .flatMap(source => source.results.map(res => ({ date: source.collectionDate || '-', res: withLabCodes(res) })))
+            .sort((a, b) => byAnalyte(a.res.abbreviation, b.res.abbreviation));
         const data = [
-            ['Exame', 'Resultado', 'Referência', 'Status'],
-            ...exam.results.map(res => [
-                res.abbreviation,
-                res.value,
-                res.referenceRange || '-',
-                res.abnormality
-            ])
+            ['Data', 'Sistema', 'Exame', 'Resultado', 'Unidade', 'Referência', 'Status', 'LOINC', 'TUSS'],
+            ...rows.map(({ date, res }) => {
+                // Plain numbers go out as numeric cells; "<0,5", titers and text stay as text
+                const labValue = getLabValue(res);
+                return [
+                    date,
+                    getCategory(res.abbreviation, categories),
+                    res.abbreviation,
+                    labValue.kind === 'numeric' ? labValue.value : formatLabValue(res.value),
+                    res.unit || '-',
+                    res.referenceRange || '-',
+                    res.abnormality,
+                    res.loinc || '-',
+                    res.tuss || '-'
+                ];
+            })
         ];
         const ws = XLSX.utils.aoa_to_sheet(data);
-        ws['!cols'] = [{ wch: 15 }, { wch: 15 }, { wch: 20 }, { wch: 10 }];
+        ws['!cols'] = [{ wch: 12 }, { wch: 15 }, { wch: 15 }, { wch: 15 }, { wch: 10 }, { wch: 20 }, { wch: 10 }, { wch: 10 }, { wch: 10 }];
         XLSX.utils.book_append_sheet(wb, ws, 'Resultados');
     } else {
         const data = [
@@ -70,15 +116,17 @@ const downloadExcel = (exam: AnalyzedExam) => {
         XLSX.utils.book_append_sheet(wb, ws, 'Laudo');
     }
 
-    const fileName = `IZI_LAB_${exam.patientInitials}_${dateStr.replace(/\//g, '-')}.xlsx`;
+    const fileName = `IZI_LAB_${exam.patientInitials}_${dateStr.replace(/\//g, '-').replace(/ /g, '_')}.xlsx`;
     XLSX.writeFile(wb, fileName);
 };
 
-// PDF Export Helper - Clean Light Design
-const downloadPDF = (exam: AnalyzedExam, summaryText: string) => {
+// PDF Export Helper - Clean Light Design (summaryText: the card's text without its header line,
+// which on evolution cards already carries every date)
+const downloadPDF = (exams: AnalyzedExam[], summaryText: string) => {
     const doc = new jsPDF();
+    const exam = exams[exams.length - 1];
     const today = new Date();
-    const dateStr = exam.collectionDate || `${String(today.getDate()).padStart(2, '0')}/${String(today.getMonth() + 1).padStart(2, '0')}/${today.getFullYear()}`;
+    const dateStr = exportDate(exams);
     const currentDate = `${String(today.getDate()).padStart(2, '0')}/${String(today.getMonth() + 1).padStart(2, '0')}/${today.getFullYear()}`;
     
     // Colors - Clean Light Theme
@@ -158,12 +206,7 @@ const downloadPDF = (exam: AnalyzedExam, summaryText: string) => {
     doc.setFontSize(10);
     doc.setTextColor(...textDark);
     
-    const cleanSummary = summaryText
-        .replace(`${exam.patientInitials} - Lab (${dateStr}):\n`, '')
-        .replace(`${exam.patientInitials} - ${exam.nonLabData?.examTitle || 'Laudo'} (${dateStr}):\n\nACHADOS:\n`, '')
-        .replace('\n\nCONCLUSÃO:\n', '\n\nCONCLUSÃO:\n');
-    
-    const lines = doc.splitTextToSize(cleanSummary, 160);
+    const lines = doc.splitTextToSize(summaryText, 160);
     doc.text(lines, 25, 100);
 
     // Footer
@@ -175,11 +218,75 @@ const downloadPDF = (exam: AnalyzedExam, summaryText: string) => {
     doc.text('IZI LAB - Inteligência Híbrida', 105, 273, { align: 'center' });
     doc.text('Este documento é um resumo gerado automaticamente e não substitui o laudo original.', 105, 279, { align: 'center' });
 
+    // Codes for hospital systems, on their own page(s): one row per coded result
+    const coded = exam.category === 'LAB'
+        ? exams.flatMap(source => source.results).map(withLabCodes)
+            .filter((item, index, all) => item.loinc && all.findIndex(other => other.abbreviation === item.abbreviation) === index)
+        : [];
+    if (coded.length > 0) {
+        const rowsPerPage = 40;
+        for (let start = 0; start < coded.length; start += rowsPerPage) {
+            doc.addPage();
+            doc.setFont('helvetica', 'bold');
+            doc.setFontSize(11);
+            doc.setTextColor(...brandPrimary);
+            doc.text('CÓDIGOS (LOINC / TUSS)', 20, 22);
+
+            doc.setFontSize(9);
+            doc.setTextColor(...textMuted);
+            doc.text('Exame', 20, 32);
+            doc.text('LOINC', 80, 32);
+            doc.text('TUSS', 130, 32);
+            doc.setDrawColor(...borderColor);
+            doc.line(20, 34, 190, 34);
+
+            doc.setFont('helvetica', 'normal');
+            doc.setTextColor(...textDark);
+            coded.slice(start, start + rowsPerPage).forEach((item, row) => {
+                const y = 41 + row * 6;
+                doc.text(item.abbreviation, 20, y);
+                doc.text(item.loinc!, 80, y);
+                doc.text(item.tuss || '-', 130, y);
+            });
+        }
+    }
+
     // Save
-    const fileName = `IZI_LAB_${exam.patientInitials}_${dateStr.replace(/\//g, '-')}.pdf`;
+    const fileName = `IZI_LAB_${exam.patientInitials}_${dateStr.replace(/\//g, '-').replace(/ /g, '_')}.pdf`;
     doc.save(fileName);
 };
 
+// FHIR R4 Bundle of the card (every date on evolution cards); nothing is downloaded if it fails validation
+const downloadFHIR = (exams: AnalyzedExam[]) => {
+    const bundle = buildFhirBundle(exams);
+    const errors = validateFhirBundle(bundle);
+    if (errors.length > 0) {
+        window.alert(`Exportação FHIR não gerada, o pacote não passou na validação:\n\n${errors.slice(0, 10).join('\n')}`);
+        return;
+    }
+
+    const exam = exams[exams.length - 1];
+    const dateStr = (exam.collectionDate || toIsoDate(new Date())).replace(/\//g, '-');
+    const url = URL.createObjectURL(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/fhir+json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `IZI_LAB_${exam.patientInitials}_${dateStr}.fhir.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+// HL7 v2 ORU^R01 of the card, for LIS/HIS interfaces that take v2 messages
+const downloadHL7 = (exams: AnalyzedExam[]) => {
+    const exam = exams[exams.length - 1];
+    const dateStr = (exam.collectionDate || toIsoDate(new Date())).replace(/\//g, '-');
+    const url = URL.createObjectURL(new Blob([buildOruR01(exams)], { type: 'x-application/hl7-v2+er7' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `IZI_LAB_${exam.patientInitials}_${dateStr}.hl7`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
 // Feedback Helper
 const sendFeedback = () => {
     const recipient = "matheusrabahi@gmail.com";
@@ -188,40 +295,6 @@ const sendFeedback = () => {
     window.location.href = `mailto:${recipient}?subject=${subject}&body=${body}`;
 };
 
-// Chart Data Helper - Parse numeric values from results
-const parseNumericValue = (value: string): number | null => {
-    const cleaned = value.replace(/[<>]/g, '').replace(',', '.').trim();
-    const num = parseFloat(cleaned);
-    return isNaN(num) ? null : num;
-};
-
-// Parse reference range to get min/max
-const parseReferenceRange = (ref: string | undefined): { min: number | null; max: number | null } => {
-    if (!ref) return { min: null, max: null };
-    
-    // Handle ranges like "3.5 - 5.5" or "3,5 - 5,5"
-    const rangeMatch = ref.match(/(\d+[.,]?\d*)\s*[-–a]\s*(\d+[.,]?\d*)/);
-    if (rangeMatch) {
-        return {
-            min: parseFloat(rangeMatch[1].replace(',', '.')),
-            max: parseFloat(rangeMatch[2].replace(',', '.'))
-        };
-    }
-    
-    // Handle "< 5" or "> 3"
-    const lessThanMatch = ref.match(/<\s*(\d+[.,]?\d*)/);
-    if (lessThanMatch) {
-        return { min: null, max: parseFloat(lessThanMatch[1].replace(',', '.')) };
-    }
-    
-    const greaterThanMatch = ref.match(/>\s*(\d+[.,]?\d*)/);
-    if (greaterThanMatch) {
-        return { min: parseFloat(greaterThanMatch[1].replace(',', '.')), max: null };
-    }
-    
-    return { min: null, max: null };
-};
-
 // Custom Tooltip for Chart
 const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length) {
@@ -229,13 +302,21 @@ const CustomTooltip = ({ active, payload }: any) => {
         return (
             <div className="bg-surface border border-border rounded-lg p-3 shadow-xl">
                 <p className="text-white font-bold text-sm">{data.name}</p>
-                <p className="text-slate-300 text-xs">Valor: <span className="font-mono">{data.displayValue}</span></p>
+                <p className="text-slate-300 text-xs">Valor: <span className="font-mono">{data.displayValue}{data.unit ? ` ${data.unit}` : ''}</span></p>
+                {data.originalValue && (
+                    <p className="text-slate-500 text-xs">Laudo: {data.originalValue} {data.originalUnit}</p>
+                )}
                 {data.reference && (
                     <p className="text-slate-400 text-xs">Ref: {data.reference}</p>
                 )}
+                {data.codes && (
+                    <p className="text-slate-500 text-[10px] font-mono">{data.codes}</p>
+                )}
                 {data.status !== 'NORMAL' && (
-                    <p className={`text-xs font-semibold mt-1 ${data.status === 'HIGH' ? 'text-red-400' : 'text-blue-400'}`}>
-                        {data.status === 'HIGH' ? '↑ Elevado' : '↓ Baixo'}
+                    <p className={`text-xs font-semibold mt-1 ${abnormalityTextClass(data.status)}`}>
+                        {isCritical(data.status)
+                            ? `${abnormalityArrow(data.status)} Crítico`
+                            : isHighAbnormality(data.status) ? '↑ Elevado' : '↓ Baixo'}
                     </p>
                 )}
             </div>
@@ -244,66 +325,87 @@ const CustomTooltip = ({ active, payload }: any) => {
     return null;
 };
 
+interface MergeTarget {
+    examIds: string[];
+    label: string; // "MJR (01/03)"
+}
+
 // Memoized Patient Card for optimized rendering
-const PatientCard: React.FC<{ exam: AnalyzedExam; onRemove: (id: string) => void; isLeanMode: boolean }> = memo(({ exam, onRemove, isLeanMode }) => {
+const PatientCard: React.FC<{
+    exam: AnalyzedExam;
+    evolution?: PatientEvolution;
+    onRemove: (id: string) => void;
+    onSave: (examIds: string[]) => void;
+    sourceExams: AnalyzedExam[]; // The extracted exams behind this card (several on evolution cards)
+    reviewItems: ReviewItem[];
+    onEditResult: (examId: string, index: number, patch: ResultPatch | null) => void;
+    onEditNonLab: (examId: string, patch: Partial<NonLabData>) => void;
+    onLocate: (exam: AnalyzedExam, item?: LabResultItem) => void;
+    mergeTargets: MergeTarget[]; // Every card on screen; this one is skipped
+    onMerge: (sourceIds: string[], targetIds: string[]) => void;
+    onSplit: (examIds: string[]) => void;
+    isLeanMode: boolean;
+    outputTemplate: OutputTemplate;
+    labCategories: LabCategory[];
+}> = memo(({ exam, evolution, onRemove, onSave, sourceExams, reviewItems, onEditResult, onEditNonLab, onLocate, mergeTargets, onMerge, onSplit, isLeanMode, outputTemplate, labCategories }) => {
     const [copiedSummary, setCopiedSummary] = useState(false);
     const [copiedAbnormal, setCopiedAbnormal] = useState(false);
     const [showAbnormal, setShowAbnormal] = useState(false);
     const [showChart, setShowChart] = useState(false);
+    const [isEditing, setIsEditing] = useState(false);
+    const [showHistory, setShowHistory] = useState(false);
+    const [showMergeMenu, setShowMergeMenu] = useState(false);
 
     // Error State
     const isError = (!exam.results || exam.results.length === 0) && (!exam.nonLabData);
 
-    // Format Date
+    // Format Date (evolution cards show the whole date span)
     const today = new Date();
-    const dateStr = exam.collectionDate || `${String(today.getDate()).padStart(2, '0')}/${String(today.getMonth() + 1).padStart(2, '0')}`;
+    const dateStr = evolution
+        ? `${evolution.dates[0]} a ${evolution.dates[evolution.dates.length - 1]}`
+        : exam.collectionDate || `${String(today.getDate()).padStart(2, '0')}/${String(today.getMonth() + 1).padStart(2, '0')}`;
+    const examIds = evolution ? evolution.examIds : [exam.id];
+    const handleRemove = () => examIds.forEach(onRemove);
 
-    // --- LOGIC GENERATION ---
-    let fullClipboardText = "";
-    let abnormalClipboardText = "";
-    let hasAbnormal = false;
+    // Manual merge/split, for when the automatic patient matching was wrong
+    const otherCards = mergeTargets.filter(target => target.examIds[0] !== examIds[0]);
+    const isMerged = sourceExams.some(isMergedExam);
 
-    if (exam.category === 'LAB') {
-        const abnormalResults = exam.results.filter(
-            (item) => item.abnormality === 'HIGH' || item.abnormality === 'LOW'
-        );
-        hasAbnormal = abnormalResults.length > 0;
+    // Flags the local range engine changed from what the model reported
+    const revisedItems = evolution
+        ? Object.keys(evolution.series).flatMap(abbr => evolution.series[abbr].map(point => point.item))
+        : exam.results;
+    const disagreements = revisedItems.filter(hasModelDisagreement);
+    const criticalItems = revisedItems.filter(item => isCritical(item.abnormality));
 
-        const groupedResults: Record<string, LabResultItem[]> = {};
-        const categoriesOrder = [...Object.keys(SYSTEM_CATEGORIES), 'OUTROS'];
+    // Source viewer: only for uploaded files (text and audio input have nothing to show)
+    const hasSourceFiles = sourceExams.some(source => source.sourceFiles && source.sourceFiles.length > 0);
+    const locatableResults = exam.results.filter(item => item.source);
+    const examOfItem = (item: LabResultItem) => sourceExams.find(source => source.results.includes(item));
 
-        exam.results.forEach(item => {
-            const cat = getCategory(item.abbreviation);
-            if (!groupedResults[cat]) groupedResults[cat] = [];
-            groupedResults[cat].push(item);
-        });
+    // Audit trail of manual corrections, oldest first
+    const edits = sourceExams
+        .flatMap(source => (source.edits || []).map(edit => ({ ...edit, collectionDate: source.collectionDate })))
+        .sort((a, b) => a.editedAt.localeCompare(b.editedAt));
 
-        const formatValue = (val: string) => val.replace(/\./g, ',');
-        let fullTextBody = "";
-        
-        categoriesOrder.forEach(cat => {
-            if (groupedResults[cat] && groupedResults[cat].length > 0) {
-                const lineItems = groupedResults[cat]
-                    .map(item => {
-                        const ref = item.referenceRange ? ` (Ref: ${item.referenceRange})` : '';
-                        return `${item.abbreviation} ${formatValue(item.value)}${ref}`;
-                    })
-                    .join(' / ');
-                
-                const prefix = cat === 'OUTROS' ? '' : `${cat}: `;
-                fullTextBody += `${prefix}${lineItems}\n`;
-            }
-        });
-        fullClipboardText = `${exam.patientInitials} - Lab (${dateStr}):\n${fullTextBody.trim()}`;
+    // Only results with a position on a number line are plotted (censored ones at their bound)
+    const chartResults = exam.results.filter(r => chartableNumber(getLabValue(r)) !== null);
 
-        const abnormalFormattedText = abnormalResults
-            .map(item => {
-            const arrow = item.abnormality === 'HIGH' ? '↑' : '↓';
-            return `${item.abbreviation} ${formatValue(item.value)} ${arrow}`;
-            })
-            .join(' / ');
-        abnormalClipboardText = `${exam.patientInitials} - Lab (${dateStr}) - ALTERAÇÕES: ${abnormalFormattedText}`;
+    // --- LOGIC GENERATION ---
+    let fullClipboardText = "";
+    let summaryBody = ""; // Without the header line: lean mode, card body and PDF
+    let abnormalClipboardText = "";
+    let abnormalBody = "";
+    let hasAbnormal = false;
 
+    if (exam.category === 'LAB') {
+        // The user's template (Configurações); evolution cards get one entry per analyte
+        const summary = formatLabSummary(exam, dateStr, outputTemplate, labCategories, evolution);
+        fullClipboardText = summary.text;
+        summaryBody = summary.body;
+        abnormalClipboardText = summary.abnormalText;
+        abnormalBody = summary.abnormalBody;
+        hasAbnormal = summary.hasAbnormal;
     } else {
         // NON_LAB Logic
         const title = exam.nonLabData?.examTitle || "Laudo Médico";
@@ -311,10 +413,17 @@ const PatientCard: React.FC<{ exam: AnalyzedExam; onRemove: (id: string) => void
         const conclusion = exam.nonLabData?.impression || "";
         
         fullClipboardText = `${exam.patientInitials} - ${title} (${dateStr}):\n\nACHADOS:\n${findings}\n\nCONCLUSÃO:\n${conclusion}`;
+        summaryBody = `${findings}\n\nCONCLUSÃO:\n${conclusion}`;
         hasAbnormal = false; // We don't use the standard alteration box for reports, as everything is important
     }
 
+    // Low-confidence items should be confirmed before they reach a chart note
+    const confirmPendingReview = () =>
+        reviewItems.length === 0 ||
+        window.confirm(`${reviewItems.length} resultado(s) com baixa confiança ainda não revisado(s). Copiar mesmo assim?`);
+
     const handleCopySummary = () => {
+        if (!confirmPendingReview()) return;
         navigator.clipboard.writeText(fullClipboardText).then(() => {
         setCopiedSummary(true);
         setTimeout(() => setCopiedSummary(false), 2000);
@@ -322,6 +431,7 @@ const PatientCard: React.FC<{ exam: AnalyzedExam; onRemove: (id: string) => void
     };
 
     const handleCopyAbnormal = () => {
+        if (!confirmPendingReview()) return;
         navigator.clipboard.writeText(abnormalClipboardText).then(() => {
         setCopiedAbnormal(true);
         setTimeout(() => setCopiedAbnormal(false), 2000);
@@ -341,7 +451,7 @@ const PatientCard: React.FC<{ exam: AnalyzedExam; onRemove: (id: string) => void
                             {!isLeanMode && <p className="text-red-400 text-xs">Arquivo não reconhecido.</p>}
                         </div>
                     </div>
-                    <button onClick={() => onRemove(exam.id)} className="p-2 text-red-400 hover:text-white hover:bg-red-500 rounded-lg transition-colors">
+                    <button onClick={handleRemove} className="p-2 text-red-400 hover:text-white hover:bg-red-500 rounded-lg transition-colors">
                         <Trash2 size={isLeanMode ? 16 : 20} />
                     </button>
                 </div>
@@ -363,17 +473,32 @@ const PatientCard: React.FC<{ exam: AnalyzedExam; onRemove: (id: string) => void
                             <span className="text-slate-500 font-normal text-xs hidden sm:inline">| {exam.category === 'LAB' ? 'Laboratório' : (exam.nonLabData?.examTitle || 'Imagem')}</span>
                         </h3>
                     </div>
-                    <button onClick={() => onRemove(exam.id)} className="text-slate-600 hover:text-red-400 transition-colors p-1">
+                    <button onClick={handleRemove} className="text-slate-600 hover:text-red-400 transition-colors p-1">
                         <Trash2 size={14} />
                     </button>
                 </div>
 
+                {/* Lean Critical Values */}
+                {criticalItems.length > 0 && (
+                    <div className="bg-fuchsia-950/30 px-4 py-2 border-b border-fuchsia-500/30 flex items-center gap-2 text-xs font-bold text-fuchsia-300">
+                        <Siren size={12} className="shrink-0" />
+                        CRÍTICO: {criticalItems.map(formatCriticalItem).join(' / ')}
+                    </div>
+                )}
+
+                {/* Lean Review Notice */}
+                {reviewItems.length > 0 && (
+                    <div className="bg-amber-500/5 px-4 py-2 border-b border-amber-500/20 text-xs text-amber-300">
+                        {reviewItems.length} resultado(s) para revisar: {reviewItems.map(entry => entry.item.abbreviation).join(', ')}. Use o modo detalhado para confirmar ou editar.
+                    </div>
+                )}
+
                 {/* Lean Content */}
                 <div className="p-4">
                      {/* LAB CONTENT */}
                     {exam.category === 'LAB' && (
                         <div className="font-mono text-xs sm:text-sm text-slate-300 leading-relaxed whitespace-pre-wrap">
-                             {fullClipboardText.replace(`${exam.patientInitials} - Lab (${dateStr}):\n`, '')}
+                             {summaryBody}
                         </div>
                     )}
 
@@ -402,7 +527,7 @@ const PatientCard: React.FC<{ exam: AnalyzedExam; onRemove: (id: string) => void
                     <div className="bg-orange-950/10 px-4 py-2 border-t border-orange-500/10 flex items-start gap-2">
                          <AlertTriangle size={12} className="text-orange-500 mt-0.5 shrink-0" />
                          <p className="text-xs text-orange-300 font-mono leading-tight">
-                            {abnormalClipboardText.replace(`${exam.patientInitials} - Lab (${dateStr}) - ALTERAÇÕES: `, '')}
+                            {abnormalBody}
                          </p>
                     </div>
                 )}
@@ -431,41 +556,200 @@ const PatientCard: React.FC<{ exam: AnalyzedExam; onRemove: (id: string) => void
                     </div>
                 </div>
                 <div className="flex items-center gap-2">
+                    {hasSourceFiles && (
+                        <button
+                            onClick={() => onLocate(exam)}
+                            className="hidden sm:flex items-center gap-2 px-3 py-1.5 bg-amber-500/10 text-amber-300 hover:bg-amber-500/20 border border-amber-500/20 rounded-lg text-xs font-bold uppercase transition-colors"
+                            title="Ver documento original"
+                        >
+                            <FileSearch size={14} /> Original
+                        </button>
+                    )}
+                    {otherCards.length > 0 && (
+                        <div className="relative hidden sm:block">
+                            <button
+                                onClick={() => setShowMergeMenu(!showMergeMenu)}
+                                className={`flex items-center gap-2 px-3 py-1.5 border rounded-lg text-xs font-bold uppercase transition-colors ${showMergeMenu ? 'bg-brand-start/20 text-brand-start border-brand-start/50' : 'bg-surfaceHighlight text-slate-400 border-transparent hover:text-slate-200'}`}
+                                title="Juntar com outro card do mesmo paciente"
+                            >
+                                <Merge size={14} /> Mesclar
+                            </button>
+                            {showMergeMenu && (
+                                <div className="absolute right-0 top-full mt-2 z-20 w-60 bg-surface border border-border rounded-xl shadow-2xl py-1 animate-fade-in">
+                                    <p className="px-3 py-2 text-[11px] font-semibold text-slate-500 uppercase tracking-wider">Mesclar este card em</p>
+                                    {otherCards.map(target => (
+                                        <button
+                                            key={target.examIds.join('-')}
+                                            onClick={() => { onMerge(examIds, target.examIds); setShowMergeMenu(false); }}
+                                            className="w-full text-left px-3 py-2 text-sm text-slate-300 hover:bg-white/5 hover:text-white transition-colors"
+                                        >
+                                            {target.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+                    {isMerged && (
+                        <button
+                            onClick={() => onSplit(examIds)}
+                            className="hidden sm:flex items-center gap-2 px-3 py-1.5 bg-surfaceHighlight text-slate-400 hover:text-slate-200 border border-transparent rounded-lg text-xs font-bold uppercase transition-colors"
+                            title="Desfazer a junção: cada relatório volta ao seu paciente"
+                        >
+                            <Split size={14} /> Separar
+                        </button>
+                    )}
+                    <button
+                        onClick={() => setIsEditing(!isEditing)}
+                        className={`flex items-center gap-2 px-3 py-1.5 border rounded-lg text-xs font-bold uppercase transition-colors ${isEditing ? 'bg-brand-start/20 text-brand-start border-brand-start/50' : 'bg-surfaceHighlight text-slate-400 border-transparent hover:text-slate-200'}`}
+                        title={isEditing ? 'Concluir edição' : 'Corrigir resultados extraídos'}
+                    >
+                        <Pencil size={14} /> <span className="hidden sm:inline">{isEditing ? 'Concluir' : 'Editar'}</span>
+                    </button>
                     <button
-                        onClick={() => downloadExcel(exam)}
+                        onClick={() => downloadExcel(sourceExams, labCategories)}
                         className="hidden sm:flex items-center gap-2 px-3 py-1.5 bg-green-600/10 text-green-500 hover:bg-green-600/20 border border-green-600/20 rounded-lg text-xs font-bold uppercase transition-colors"
                         title="Baixar Excel"
                     >
                         <FileSpreadsheet size={14} /> Excel
                     </button>
                     <button
-                        onClick={() => downloadPDF(exam, fullClipboardText)}
+                        onClick={() => downloadPDF(sourceExams, summaryBody)}
                         className="hidden sm:flex items-center gap-2 px-3 py-1.5 bg-red-600/10 text-red-400 hover:bg-red-600/20 border border-red-600/20 rounded-lg text-xs font-bold uppercase transition-colors"
                         title="Baixar PDF"
                     >
                         <FileDown size={14} /> PDF
                     </button>
-                    <button onClick={() => onRemove(exam.id)} className="text-slate-500 hover:text-red-400 transition-colors p-2 hover:bg-white/5 rounded-lg">
+                    <button
+                        onClick={() => downloadFHIR(sourceExams)}
+                        className="hidden sm:flex items-center gap-2 px-3 py-1.5 bg-sky-600/10 text-sky-400 hover:bg-sky-600/20 border border-sky-600/20 rounded-lg text-xs font-bold uppercase transition-colors"
+                        title="Baixar FHIR R4 (JSON) para sistemas hospitalares"
+                    >
+                        <FileJson size={14} /> FHIR
+                    </button>
+                    <button
+                        onClick={() => downloadHL7(sourceExams)}
+                        className="hidden sm:flex items-center gap-2 px-3 py-1.5 bg-teal-600/10 text-teal-400 hover:bg-teal-600/20 border border-teal-600/20 rounded-lg text-xs font-bold uppercase transition-colors"
+                        title="Baixar HL7 v2 (ORU^R01) para o sistema do laboratório"
+                    >
+                        <FileCode size={14} /> HL7
+                    </button>
+                    {exam.category === 'LAB' && (
+                        <button
+                            onClick={() => onSave(examIds)}
+                            className="hidden sm:flex items-center gap-2 px-3 py-1.5 bg-brand-start/10 text-brand-start hover:bg-brand-start/20 border border-brand-start/20 rounded-lg text-xs font-bold uppercase transition-colors"
+                            title="Salvar na linha do tempo do paciente"
+                        >
+                            <FolderHeart size={14} /> Salvar
+                        </button>
+                    )}
+                    <button onClick={handleRemove} className="text-slate-500 hover:text-red-400 transition-colors p-2 hover:bg-white/5 rounded-lg">
                         <Trash2 size={18} />
                     </button>
                 </div>
             </div>
 
+            {/* Critical Values (panic thresholds from Settings) */}
+            {criticalItems.length > 0 && (
+                <div className="bg-fuchsia-950/30 px-6 py-3 border-b border-fuchsia-500/30 flex items-center gap-3">
+                    <div className="p-1.5 bg-fuchsia-500/20 text-fuchsia-300 rounded-full border border-fuchsia-500/30 animate-pulse"><Siren size={16} /></div>
+                    <div>
+                        <h4 className="font-bold text-fuchsia-200 text-xs uppercase tracking-wider">Valores Críticos</h4>
+                        <p className="text-fuchsia-100 font-mono text-sm font-semibold">{criticalItems.map(formatCriticalItem).join(' / ')}</p>
+                    </div>
+                </div>
+            )}
+
+            {/* Review Queue (low-confidence extraction) */}
+            <ReviewQueue items={reviewItems} onReview={onEditResult} />
+
             {/* Content Body */}
             <div className="p-6 md:p-8">
                 
+                {/* EDIT MODE (LAB): every extracted result, per collection date */}
+                {exam.category === 'LAB' && isEditing && (
+                    <div className="mb-6">
+                        <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Editar Resultados</label>
+                        <ResultEditor exams={sourceExams} onEdit={onEditResult} onLocate={onLocate} />
+                    </div>
+                )}
+
+                {/* RENDER FOR LAB EVOLUTION (date x analyte matrix) */}
+                {exam.category === 'LAB' && evolution && !isEditing && (
+                    <div className="mb-6">
+                        <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Evolução ({evolution.dates.length} datas)</label>
+                        <div className="bg-background rounded-xl border border-border shadow-inner max-h-[400px] overflow-auto custom-scrollbar">
+                            <table className="w-full font-mono text-sm">
+                                <thead>
+                                    <tr className="text-slate-500 text-xs border-b border-border">
+                                        <th className="text-left px-4 py-2 sticky left-0 bg-background">Exame</th>
+                                        {evolution.dates.map(date => (
+                                            <th key={date} className="px-4 py-2 whitespace-nowrap">{date}</th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-border/50">
+                                    {Object.keys(evolution.series).sort(compareAnalytes(labCategories)).map(abbr => (
+                                        <tr key={abbr}>
+                                            <td className="px-4 py-1.5 font-bold text-slate-200 sticky left-0 bg-background" title={describeLabCodes(evolution.series[abbr][0].item)}>{abbr}</td>
+                                            {evolution.dates.map(date => {
+                                                const point = evolution.series[abbr].find(p => p.date === date);
+                                                const pointExam = point?.item.source ? examOfItem(point.item) : undefined;
+                                                return (
+                                                    <td
+                                                        key={date}
+                                                        onClick={pointExam ? () => onLocate(pointExam, point!.item) : undefined}
+                                                        title={pointExam ? 'Ver no documento' : undefined}
+                                                        className={`px-4 py-1.5 text-center whitespace-nowrap ${abnormalityTextClass(point?.item.abnormality)} ${pointExam ? 'cursor-pointer hover:bg-amber-500/10' : ''}`}
+                                                    >
+                                                        {point ? formatLabValue(point.item.value) : '-'}
+                                                    </td>
+                                                );
+                                            })}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                )}
+
                 {/* RENDER FOR LAB EXAMS */}
-                {exam.category === 'LAB' && (
+                {exam.category === 'LAB' && !evolution && !isEditing && (
                     <div className="mb-6">
                         <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Resumo Laboratorial (Por Sistemas)</label>
                         <div className="bg-background rounded-xl p-5 border border-border font-mono text-slate-300 text-sm md:text-base leading-relaxed break-words shadow-inner max-h-[400px] overflow-y-auto custom-scrollbar whitespace-pre-wrap">
-                            {fullClipboardText.replace(`${exam.patientInitials} - Lab (${dateStr}):\n`, '')}
+                            {summaryBody}
                         </div>
+                        {hasSourceFiles && locatableResults.length > 0 && (
+                            <div className="flex flex-wrap items-center gap-1.5 mt-3">
+                                <span className="flex items-center gap-1 text-xs text-slate-500 mr-1"><FileSearch size={12} /> Conferir no documento:</span>
+                                {locatableResults.map((item, i) => (
+                                    <button
+                                        key={i}
+                                        onClick={() => onLocate(exam, item)}
+                                        title={describeLabCodes(item)}
+                                        className={`px-2 py-0.5 rounded border border-border bg-surfaceHighlight/50 hover:border-amber-500/40 hover:bg-amber-500/10 font-mono text-xs transition-colors ${abnormalityTextClass(item.abnormality)}`}
+                                    >
+                                        {item.abbreviation}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
                     </div>
                 )}
 
+                {/* EDIT MODE (NON_LAB) */}
+                {exam.category === 'NON_LAB' && isEditing && (
+                    <NonLabEditor
+                        data={exam.nonLabData || { examTitle: '', mainFindings: [], impression: '' }}
+                        onSave={(patch) => { onEditNonLab(exam.id, patch); setIsEditing(false); }}
+                        onCancel={() => setIsEditing(false)}
+                    />
+                )}
+
                 {/* RENDER FOR NON_LAB EXAMS */}
-                {exam.category === 'NON_LAB' && exam.nonLabData && (
+                {exam.category === 'NON_LAB' && exam.nonLabData && !isEditing && (
                     <div className="space-y-6">
                         {/* Findings */}
                         <div>
@@ -538,7 +822,7 @@ const PatientCard: React.FC<{ exam: AnalyzedExam; onRemove: (id: string) => void
                                 <div className="mb-4">
                                     <label className="block text-xs font-semibold text-orange-400 uppercase tracking-wider mb-2">Resumo de Alterações (Com Setas)</label>
                                     <div className="bg-background rounded-xl p-4 border border-orange-500/20 font-mono text-slate-300 text-base leading-relaxed break-words shadow-inner">
-                                    {abnormalClipboardText.replace(`${exam.patientInitials} - Lab (${dateStr}) - ALTERAÇÕES: `, '')}
+                                    {abnormalBody}
                                     </div>
                                 </div>
                                 <div className="flex justify-end">
@@ -557,6 +841,41 @@ const PatientCard: React.FC<{ exam: AnalyzedExam; onRemove: (id: string) => void
                 )
             )}
 
+            {/* Range engine disagreements (model flag overridden by the reference ranges) */}
+            {exam.category === 'LAB' && disagreements.length > 0 && (
+                <div className="bg-yellow-500/5 px-6 py-3 border-t border-yellow-500/20 flex items-start gap-2 text-yellow-200/80 text-xs">
+                    <AlertTriangle size={14} className="text-yellow-400 shrink-0 mt-0.5" />
+                    <span>
+                        Classificação revisada pelas faixas de referência:{' '}
+                        {disagreements.map(item => `${item.abbreviation} ${item.value} (IA: ${ABNORMALITY_LABELS[item.modelAbnormality!]} → ${ABNORMALITY_LABELS[item.abnormality]})`).join('; ')}
+                    </span>
+                </div>
+            )}
+
+            {/* Edit History (original vs edited, kept per exam) */}
+            {edits.length > 0 && (
+                <div className="border-t border-border">
+                    <button onClick={() => setShowHistory(!showHistory)} className="w-full flex items-center justify-between px-6 py-3 hover:bg-surfaceHighlight/30 transition-colors">
+                        <div className="flex items-center gap-2 text-slate-400 text-xs font-semibold uppercase tracking-wider">
+                            <History size={14} /> Histórico de Edições ({edits.length})
+                        </div>
+                        {showHistory ? <ChevronUp size={16} className="text-slate-500" /> : <ChevronDown size={16} className="text-slate-500" />}
+                    </button>
+                    {showHistory && (
+                        <ul className="px-6 pb-4 space-y-1 animate-fade-in">
+                            {edits.map((edit, i) => (
+                                <li key={i} className="text-xs font-mono text-slate-400">
+                                    <span className="text-slate-300 font-semibold">{edit.field}</span>
+                                    {evolution && edit.collectionDate && <span className="text-slate-500"> ({edit.collectionDate})</span>}
+                                    : <span className="line-through text-slate-500">{edit.original || '(vazio)'}</span> → <span className="text-slate-200">{edit.edited || '(removido)'}</span>
+                                    <span className="text-slate-600"> · {new Date(edit.editedAt).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+
             {/* Chart Visualization Section (FOR LAB EXAMS) */}
             {exam.category === 'LAB' && exam.results.length > 0 && (
                 <div className="border-t border-brand-start/20">
@@ -582,12 +901,11 @@ const PatientCard: React.FC<{ exam: AnalyzedExam; onRemove: (id: string) => void
                                     Resultados por Exame
                                 </label>
                                 <div className="bg-background rounded-xl p-4 border border-border">
-                                    <ResponsiveContainer width="100%" height={Math.max(300, exam.results.filter(r => parseNumericValue(r.value) !== null).length * 35)}>
+                                    <ResponsiveContainer width="100%" height={Math.max(300, chartResults.length * 35)}>
                                         <BarChart
-                                            data={exam.results
-                                                .filter(r => parseNumericValue(r.value) !== null)
+                                            data={chartResults
                                                 .map(r => {
-                                                    const numValue = parseNumericValue(r.value) || 0;
+                                                    const numValue = chartableNumber(getLabValue(r)) || 0;
                                                     const ref = parseReferenceRange(r.referenceRange);
                                                     let normalizedValue = numValue;
                                                     
@@ -603,7 +921,11 @@ const PatientCard: React.FC<{ exam: AnalyzedExam; onRemove: (id: string) => void
                                                         value: Math.min(Math.max(normalizedValue, 0), 100),
                                                         rawValue: numValue,
                                                         displayValue: r.value,
+                                                        unit: r.unit,
+                                                        originalValue: r.originalValue,
+                                                        originalUnit: r.originalUnit,
                                                         reference: r.referenceRange,
+                                                        codes: describeLabCodes(r),
                                                         status: r.abnormality,
                                                         refMin: ref.min,
                                                         refMax: ref.max
@@ -631,16 +953,11 @@ const PatientCard: React.FC<{ exam: AnalyzedExam; onRemove: (id: string) => void
                                             <Tooltip content={<CustomTooltip />} cursor={{ fill: 'rgba(99, 102, 241, 0.1)' }} />
                                             <ReferenceLine x={50} stroke="#475569" strokeDasharray="3 3" />
                                             <Bar dataKey="value" radius={[0, 4, 4, 0]} maxBarSize={20}>
-                                                {exam.results
-                                                    .filter(r => parseNumericValue(r.value) !== null)
+                                                {chartResults
                                                     .map((r, index) => (
                                                         <Cell 
                                                             key={`cell-${index}`} 
-                                                            fill={
-                                                                r.abnormality === 'HIGH' ? '#ef4444' : 
-                                                                r.abnormality === 'LOW' ? '#3b82f6' : 
-                                                                '#6366f1'
-                                                            }
+                                                            fill={ABNORMALITY_COLORS[r.abnormality]}
                                                         />
                                                     ))
                                                 }
@@ -662,6 +979,10 @@ const PatientCard: React.FC<{ exam: AnalyzedExam; onRemove: (id: string) => void
                                             <div className="w-3 h-3 rounded bg-[#3b82f6]"></div>
                                             <span className="text-xs text-slate-400">Baixo</span>
                                         </div>
+                                        <div className="flex items-center gap-2">
+                                            <div className="w-3 h-3 rounded bg-[#d946ef]"></div>
+                                            <span className="text-xs text-slate-400">Crítico</span>
+                                        </div>
                                     </div>
                                 </div>
                             </div>
@@ -673,9 +994,75 @@ const PatientCard: React.FC<{ exam: AnalyzedExam; onRemove: (id: string) => void
     );
 });
 
-const ResultDisplay: React.FC<ResultDisplayProps> = ({ data, onReset, onAddFiles, onRemoveExam }) => {
+const ResultDisplay: React.FC<ResultDisplayProps> = ({ data: extractedData, onReset, onAddFiles, onRemoveExam, onEditResult, onEditNonLab, onMergeCards, onSplitCard, userId, preferences, unitSystem, outputTemplate, labCategories }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isLeanMode, setIsLeanMode] = useState(false);
+  const [examsToSave, setExamsToSave] = useState<AnalyzedExam[]>([]);
+  const [viewer, setViewer] = useState<{ files: File[]; location: SourceLocation; label: string } | null>(null);
+
+  // Everything below (cards, clipboard, export, saved timelines) sees the preferred units.
+  // With "LAB REFS" off the ranges are hidden here only; the flags were computed with them.
+  const data = useMemo(
+    () => extractedData.map(exam => {
+      const converted = convertExamUnits(exam, unitSystem);
+      return preferences.showReferenceValues
+        ? converted
+        : { ...converted, results: converted.results.map(item => ({ ...item, referenceRange: undefined })) };
+    }),
+    [extractedData, unitSystem, preferences.showReferenceValues]
+  );
+
+  // "Agrupar Datas": same patient on several dates collapses into one evolution card
+  const evolutions = useMemo(
+    () => (preferences.groupDates ? buildEvolutions(data) : []),
+    [data, preferences.groupDates]
+  );
+  const cards = useMemo(() => {
+    const grouped = new Set(evolutions.flatMap(evo => evo.examIds));
+    const list: { exam: AnalyzedExam; evolution?: PatientEvolution; sourceExams: AnalyzedExam[]; reviewItems: ReviewItem[] }[] = [];
+    data.forEach(exam => {
+      const evolution = evolutions.find(evo => evo.examIds[0] === exam.id);
+      if (evolution) {
+        const sourceExams = evolution.examIds.map(id => data.find(item => item.id === id)!);
+        list.push({ exam: evolution.latest, evolution, sourceExams, reviewItems: collectReviewItems(sourceExams) });
+      } else if (!grouped.has(exam.id)) {
+        list.push({ exam, sourceExams: [exam], reviewItems: collectReviewItems([exam]) });
+      }
+    });
+    return list;
+  }, [data, evolutions]);
+
+  const mergeTargets = useMemo<MergeTarget[]>(
+    () => cards.map(({ exam, evolution }) => ({
+      examIds: evolution ? evolution.examIds : [exam.id],
+      label: `${exam.patientInitials} (${evolution ? `${evolution.dates[0]} a ${evolution.dates[evolution.dates.length - 1]}` : exam.collectionDate || 'sem data'})`,
+    })),
+    [cards]
+  );
+
+  // Every card with a panic value, shown above the list so nothing critical is scrolled past
+  const criticalSummary = useMemo(
+    () => data
+      .filter(exam => exam.category === 'LAB')
+      .map(exam => ({ exam, items: exam.results.filter(item => isCritical(item.abnormality)) }))
+      .filter(entry => entry.items.length > 0),
+    [data]
+  );
+
+  const handleSave = useCallback(
+    (examIds: string[]) => setExamsToSave(data.filter(exam => examIds.includes(exam.id))),
+    [data]
+  );
+
+  // Result without its own position: open where the exam starts (or the first page)
+  const handleLocate = useCallback((exam: AnalyzedExam, item?: LabResultItem) => {
+    if (!exam.sourceFiles || exam.sourceFiles.length === 0) return;
+    const location = item?.source ?? exam.source ?? { fileIndex: 0, page: 1 };
+    const label = item
+      ? `${item.abbreviation} ${formatLabValue(item.originalValue ?? item.value)}${item.source?.box ? '' : ' (posição não informada)'}`
+      : exam.nonLabData?.examTitle || `${exam.patientInitials}${exam.collectionDate ? ` (${exam.collectionDate})` : ''}`;
+    setViewer({ files: exam.sourceFiles, location, label });
+  }, []);
 
   const handleAddClick = () => {
     fileInputRef.current?.click();
@@ -693,8 +1080,8 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ data, onReset, onAddFiles
   };
 
   return (
-    <div className="w-full max-w-4xl mx-auto animate-fade-in-up pb-24">
-      <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept="application/pdf,image/*" multiple />
+    <div className={`w-full ${viewer ? 'max-w-7xl' : 'max-w-4xl'} mx-auto animate-fade-in-up pb-24`}>
+      <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept={`application/pdf,image/*,${HL7_FILE_EXTENSIONS}`} multiple />
 
       <div className="flex items-center justify-between mb-6 sticky top-20 z-10 bg-surface/95 backdrop-blur-md py-4 px-6 border border-border rounded-2xl shadow-lg">
         <button onClick={onReset} className="flex items-center gap-2 text-slate-400 hover:text-brand-start transition-colors text-sm font-medium group">
@@ -726,11 +1113,29 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ data, onReset, onAddFiles
         </div>
       </div>
 
-      <div className="space-y-6">
+      {criticalSummary.length > 0 && (
+          <div className="mb-6 bg-fuchsia-950/30 border border-fuchsia-500/40 rounded-2xl px-6 py-4 shadow-lg shadow-fuchsia-900/20 animate-fade-in">
+              <div className="flex items-center gap-2 text-fuchsia-200 font-bold text-sm uppercase tracking-wider mb-2">
+                  <Siren size={18} className="animate-pulse" /> Valores Críticos Detectados
+              </div>
+              <ul className="space-y-1">
+                  {criticalSummary.map(({ exam, items }) => (
+                      <li key={exam.id} className="text-sm text-fuchsia-100 font-mono">
+                          <span className="font-bold">{exam.patientInitials}</span>
+                          {exam.collectionDate && <span className="text-fuchsia-300/70"> ({exam.collectionDate})</span>}
+                          : {items.map(formatCriticalItem).join(' / ')}
+                      </li>
+                  ))}
+              </ul>
+          </div>
+      )}
+
+      <div className={viewer ? 'lg:grid lg:grid-cols-2 lg:gap-6 lg:items-start' : ''}>
+      <div className="space-y-6 min-w-0">
           <div className="flex items-center justify-between text-slate-400 text-sm mb-4 px-2">
             <div className="flex items-center gap-2">
                 <User size={16} />
-                <span>{data.length} {data.length === 1 ? 'paciente identificado' : 'pacientes identificados'}</span>
+                <span>{cards.length} {cards.length === 1 ? 'paciente identificado' : 'pacientes identificados'}</span>
             </div>
             
             {/* Mobile Lean Toggle (Visible only on small screens) */}
@@ -747,11 +1152,21 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ data, onReset, onAddFiles
           </div>
           
           <div className={isLeanMode ? "space-y-2" : "space-y-6"}>
-            {data.map((exam) => (
-                <PatientCard key={exam.id} exam={exam} onRemove={onRemoveExam} isLeanMode={isLeanMode} />
+            {cards.map(({ exam, evolution, sourceExams, reviewItems }) => (
+                <PatientCard key={evolution ? evolution.examIds.join('-') : exam.id} exam={exam} evolution={evolution} onRemove={onRemoveExam} onSave={handleSave} sourceExams={sourceExams} reviewItems={reviewItems} onEditResult={onEditResult} onEditNonLab={onEditNonLab} onLocate={handleLocate} mergeTargets={mergeTargets} onMerge={onMergeCards} onSplit={onSplitCard} isLeanMode={isLeanMode} outputTemplate={outputTemplate} labCategories={labCategories} />
             ))}
           </div>
       </div>
+
+      {/* Side-by-side on large screens, full-screen overlay on small ones */}
+      {viewer && (
+          <aside className="fixed inset-0 z-50 p-3 bg-black/70 lg:sticky lg:top-40 lg:z-auto lg:p-0 lg:bg-transparent lg:h-[calc(100vh-12rem)]">
+              <SourceViewer files={viewer.files} location={viewer.location} label={viewer.label} onClose={() => setViewer(null)} />
+          </aside>
+      )}
+      </div>
+
+      <SavePatientModal exams={examsToSave} userId={userId} onClose={() => setExamsToSave([])} />
     </div>
   );
 };
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Check, FileSearch, Pencil, Trash2, X } from 'lucide-react';
+import { AnalyzedExam, LabResultItem } from '../types';
+import { ResultPatch, toResultPatch } from '../services/examEdits';
+import { formatLabValue } from '../services/labValues';
+import { ABNORMALITY_LABELS } from '../services/referenceRanges';
+import { describeLabCodes } from '../services/labCodes';
+
+type OnEditResult = (examId: string, index: number, patch: ResultPatch | null) => void;
+type OnLocate = (exam: AnalyzedExam, item: LabResultItem) => void;
+
+interface ResultEditorProps {
+  exams: AnalyzedExam[]; // One per collection date on evolution cards
+  onEdit: OnEditResult;
+  onLocate?: OnLocate; // Opens the source viewer on the item's position
+}
+
+const FLAG_OPTIONS = Object.keys(ABNORMALITY_LABELS) as LabResultItem['abnormality'][];
+const AUTO_FLAG = 'AUTO';
+
+const inputClass = 'px-2 py-1 bg-background border border-border text-slate-100 rounded text-sm focus:outline-none focus:ring-2 focus:ring-brand-start';
+
+const EditorRow: React.FC<{ examId: string; index: number; item: LabResultItem; onEdit: OnEditResult; onLocate?: () => void }> = ({ examId, index, item, onEdit, onLocate }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [abbreviation, setAbbreviation] = useState(item.abbreviation);
+  const [value, setValue] = useState(item.value);
+  const [unit, setUnit] = useState(item.unit || '');
+  const [referenceRange, setReferenceRange] = useState(item.referenceRange || '');
+  const [flag, setFlag] = useState<string>(item.abnormalitySource === 'manual' ? item.abnormality : AUTO_FLAG);
+
+  const startEditing = () => {
+    setAbbreviation(item.abbreviation);
+    setValue(item.value);
+    setUnit(item.unit || '');
+    setReferenceRange(item.referenceRange || '');
+    setFlag(item.abnormalitySource === 'manual' ? item.abnormality : AUTO_FLAG);
+    setIsEditing(true);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!abbreviation.trim() || !value.trim()) return;
+    onEdit(examId, index, toResultPatch(item, {
+      abbreviation: abbreviation.trim(),
+      value: value.trim(),
+      unit: unit.trim() || undefined,
+      referenceRange: referenceRange.trim(),
+      abnormality: flag === AUTO_FLAG ? null : flag as LabResultItem['abnormality'],
+    }));
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <tr className="bg-brand-start/5">
+        <td colSpan={5} className="px-3 py-2">
+          <form onSubmit={handleSave} className="flex flex-wrap items-center gap-2">
+            <input type="text" value={abbreviation} onChange={(e) => setAbbreviation(e.target.value)} placeholder="Sigla" className={`w-24 ${inputClass}`} />
+            <input type="text" value={value} onChange={(e) => setValue(e.target.value)} placeholder="Valor" autoFocus className={`w-24 font-mono ${inputClass}`} />
+            <input type="text" value={unit} onChange={(e) => setUnit(e.target.value)} placeholder="Unidade" className={`w-20 ${inputClass}`} />
+            <input type="text" value={referenceRange} onChange={(e) => setReferenceRange(e.target.value)} placeholder="Referência" className={`w-32 ${inputClass}`} />
+            <select value={flag} onChange={(e) => setFlag(e.target.value)} className={inputClass} title="Classificação">
+              <option value={AUTO_FLAG}>Automática</option>
+              {FLAG_OPTIONS.map(option => (
+                <option key={option} value={option}>{ABNORMALITY_LABELS[option]}</option>
+              ))}
+            </select>
+            <div className="flex items-center gap-1 ml-auto">
+              <button type="submit" className="p-1.5 rounded bg-green-600/20 text-green-400 hover:bg-green-600/30" title="Salvar">
+                <Check size={14} />
+              </button>
+              <button type="button" onClick={() => setIsEditing(false)} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-white/10" title="Cancelar">
+                <X size={14} />
+              </button>
+            </div>
+          </form>
+        </td>
+      </tr>
+    );
+  }
+
+  return (
+    <tr className="hover:bg-surfaceHighlight/30">
+      <td className="px-3 py-1.5 font-bold text-slate-200" title={describeLabCodes(item)}>{item.abbreviation}</td>
+      <td className="px-3 py-1.5 text-slate-300 whitespace-nowrap">
+        {formatLabValue(item.value)}{item.unit && <span className="text-slate-500"> {item.unit}</span>}
+      </td>
+      <td className="px-3 py-1.5 text-slate-500">{item.referenceRange || '-'}</td>
+      <td className="px-3 py-1.5 text-slate-400 whitespace-nowrap">
+        {ABNORMALITY_LABELS[item.abnormality]}
+        {item.abnormalitySource === 'manual' && <span className="text-slate-500"> (manual)</span>}
+      </td>
+      <td className="px-3 py-1.5">
+        <div className="flex items-center justify-end gap-1">
+          {onLocate && (
+            <button onClick={onLocate} className="p-1.5 rounded text-slate-400 hover:text-amber-300 hover:bg-white/10" title="Ver no documento">
+              <FileSearch size={14} />
+            </button>
+          )}
+          <button onClick={startEditing} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-white/10" title="Editar">
+            <Pencil size={14} />
+          </button>
+          <button onClick={() => onEdit(examId, index, null)} className="p-1.5 rounded text-slate-400 hover:text-red-400 hover:bg-red-500/10" title="Remover">
+            <Trash2 size={14} />
+          </button>
+        </div>
+      </td>
+    </tr>
+  );
+};
+
+const ResultEditor: React.FC<ResultEditorProps> = ({ exams, onEdit, onLocate }) => (
+  <div className="bg-background rounded-xl border border-border shadow-inner max-h-[400px] overflow-auto custom-scrollbar">
+    <table className="w-full font-mono text-sm">
+      <thead>
+        <tr className="text-slate-500 text-xs border-b border-border text-left">
+          <th className="px-3 py-2">Exame</th>
+          <th className="px-3 py-2">Resultado</th>
+          <th className="px-3 py-2">Referência</th>
+          <th className="px-3 py-2">Status</th>
+          <th className="px-3 py-2" />
+        </tr>
+      </thead>
+      {exams.map(exam => (
+        <tbody key={exam.id} className="divide-y divide-border/50">
+          {exams.length > 1 && (
+            <tr>
+              <td colSpan={5} className="px-3 pt-3 pb-1 text-xs font-semibold text-brand-start uppercase tracking-wider">
+                {exam.collectionDate || 'Sem data'}
+              </td>
+            </tr>
+          )}
+          {exam.results.map((item, index) => (
+            <EditorRow
+              key={`${index}-${item.abbreviation}-${item.value}`}
+              examId={exam.id}
+              index={index}
+              item={item}
+              onEdit={onEdit}
+              onLocate={onLocate && item.source && exam.sourceFiles ? () => onLocate(exam, item) : undefined}
+            />
+          ))}
+        </tbody>
+      ))}
+    </table>
+  </div>
+);
+
+export default ResultEditor;
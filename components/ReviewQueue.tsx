@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { ShieldAlert, Check, Pencil, Trash2, X } from 'lucide-react';
+import { ReviewItem } from '../services/resultValidation';
+import { ResultPatch, toResultPatch } from '../services/examEdits';
+import { formatLabValue } from '../services/labValues';
+
+interface ReviewQueueProps {
+  items: ReviewItem[];
+  onReview: (examId: string, index: number, patch: ResultPatch | null) => void;
+}
+
+const ReviewRow: React.FC<{ entry: ReviewItem; onReview: ReviewQueueProps['onReview'] }> = ({ entry, onReview }) => {
+  const { examId, index, item, collectionDate } = entry;
+  const [isEditing, setIsEditing] = useState(false);
+  const [abbreviation, setAbbreviation] = useState(item.abbreviation);
+  const [value, setValue] = useState(item.value);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!abbreviation.trim() || !value.trim()) return;
+    onReview(examId, index, toResultPatch(item, { abbreviation: abbreviation.trim(), value: value.trim() }));
+  };
+
+  return (
+    <li className="p-3 bg-background/60 border border-amber-500/20 rounded-lg">
+      {isEditing ? (
+        <form onSubmit={handleSave} className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={abbreviation}
+            onChange={(e) => setAbbreviation(e.target.value)}
+            className="w-24 px-2 py-1 bg-background border border-border text-slate-100 rounded text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+          />
+          <input
+            type="text"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            autoFocus
+            className="w-28 px-2 py-1 bg-background border border-border text-slate-100 rounded text-sm font-mono focus:outline-none focus:ring-2 focus:ring-amber-500"
+          />
+          {item.unit && <span className="text-xs text-slate-500">{item.unit}</span>}
+          <div className="flex items-center gap-1 ml-auto">
+            <button type="submit" className="p-1.5 rounded bg-green-600/20 text-green-400 hover:bg-green-600/30" title="Salvar">
+              <Check size={14} />
+            </button>
+            <button type="button" onClick={() => setIsEditing(false)} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-white/10" title="Cancelar">
+              <X size={14} />
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <p className="font-mono text-sm text-slate-200">
+              <span className="font-bold">{item.abbreviation}</span> {formatLabValue(item.value)}
+              {item.unit && <span className="text-slate-500"> {item.unit}</span>}
+              {collectionDate && <span className="text-slate-500 text-xs"> ({collectionDate})</span>}
+            </p>
+            <ul className="mt-1 space-y-0.5">
+              {(item.issues || []).map((issue, i) => (
+                <li key={i} className="text-xs text-amber-300/80">• {issue.message}</li>
+              ))}
+            </ul>
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            <button onClick={() => onReview(examId, index, {})} className="p-1.5 rounded bg-green-600/20 text-green-400 hover:bg-green-600/30" title="Confirmar">
+              <Check size={14} />
+            </button>
+            <button onClick={() => setIsEditing(true)} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-white/10" title="Editar">
+              <Pencil size={14} />
+            </button>
+            <button onClick={() => onReview(examId, index, null)} className="p-1.5 rounded text-slate-400 hover:text-red-400 hover:bg-red-500/10" title="Remover">
+              <Trash2 size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+    </li>
+  );
+};
+
+const ReviewQueue: React.FC<ReviewQueueProps> = ({ items, onReview }) => {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="bg-amber-500/5 px-6 py-4 border-b border-amber-500/20">
+      <div className="flex items-center gap-2 mb-3">
+        <ShieldAlert size={16} className="text-amber-400" />
+        <h4 className="font-bold text-amber-200 text-xs uppercase tracking-wider">
+          Revisar antes de copiar ({items.length})
+        </h4>
+      </div>
+      <ul className="space-y-2">
+        {items.map(entry => (
+          <ReviewRow key={`${entry.examId}-${entry.index}-${entry.item.abbreviation}-${entry.item.value}`} entry={entry} onReview={onReview} />
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ReviewQueue;
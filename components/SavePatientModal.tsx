@@ -0,0 +1,213 @@
+import React, { useState, useEffect } from 'react';
+import { X, UserPlus, Loader2, Check, AlertCircle, FolderHeart } from 'lucide-react';
+import { AnalyzedExam } from '../types';
+import { patientService, PatientRecord } from '../services/patientService';
+import { resolveCollectionDate, toIsoDate } from '../services/collectionDate';
+
+interface SavePatientModalProps {
+  exams: AnalyzedExam[];
+  userId?: string;
+  onClose: () => void;
+}
+
+const SavePatientModal: React.FC<SavePatientModalProps> = ({ exams, userId, onClose }) => {
+  // Evolution cards hand over every date of the same patient at once
+  const exam = exams.length > 0 ? exams[exams.length - 1] : null;
+
+  const [patients, setPatients] = useState<PatientRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pseudonym, setPseudonym] = useState('');
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [savedId, setSavedId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  // "aaaa-mm-dd" typed by the doctor for exams whose collection date could not be read
+  const [typedDates, setTypedDates] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!exam || !userId) return;
+    setIsLoading(true);
+    setError('');
+    setSavedId(null);
+    setTypedDates({});
+    patientService.listPatients(userId).then(({ patients, error }) => {
+      if (error) setError(error.message);
+      setPatients(patients);
+      setIsLoading(false);
+    });
+  }, [exams, userId]);
+
+  if (!exam) return null;
+
+  const undated = exams.filter(item => !resolveCollectionDate(item.collectionDate));
+  const datesReady = undated.every(item => typedDates[item.id]);
+  const withTypedDate = (item: AnalyzedExam): AnalyzedExam => {
+    const typed = typedDates[item.id];
+    if (!typed || resolveCollectionDate(item.collectionDate)) return item;
+    const [year, month, day] = typed.split('-');
+    return { ...item, collectionDate: `${day}/${month}/${year}` };
+  };
+
+  // Same initials first: most of the time the doctor is adding a new visit
+  const sortedPatients = [...patients].sort((a, b) => {
+    const aMatch = a.initials === exam.patientInitials ? 0 : 1;
+    const bMatch = b.initials === exam.patientInitials ? 0 : 1;
+    return aMatch - bMatch;
+  });
+
+  const saveTo = async (patientId: string) => {
+    if (!userId) return;
+    if (!datesReady) {
+      setError('Informe a data da coleta antes de salvar na linha do tempo.');
+      return;
+    }
+    setSavingId(patientId);
+    setError('');
+    for (const item of exams) {
+      const { error } = await patientService.appendExam(userId, patientId, withTypedDate(item));
+      if (error) {
+        setSavingId(null);
+        setError(error.message);
+        return;
+      }
+    }
+    setSavingId(null);
+    setSavedId(patientId);
+    setTimeout(onClose, 1000);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId || !pseudonym.trim()) return;
+    if (!datesReady) {
+      setError('Informe a data da coleta antes de salvar na linha do tempo.');
+      return;
+    }
+
+    setSavingId('new');
+    setError('');
+    const { patient, error } = await patientService.createPatient(
+      userId,
+      pseudonym.trim().toUpperCase(),
+      exam.patientInitials,
+      exam.patientAge
+    );
+    if (error || !patient) {
+      setSavingId(null);
+      setError(error?.message || 'Não foi possível criar o paciente.');
+      return;
+    }
+    await saveTo(patient.id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-fade-in">
+      <div className="bg-surface rounded-2xl shadow-2xl shadow-black border border-border w-full max-w-lg overflow-hidden flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-border flex items-center justify-between bg-surfaceHighlight">
+          <div className="flex items-center gap-2 text-slate-100">
+            <FolderHeart size={20} className="text-brand-start" />
+            <h2 className="text-lg font-bold">Salvar na Linha do Tempo</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white p-1 rounded-full hover:bg-white/10 transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 flex-grow overflow-y-auto space-y-6">
+          <p className="text-sm text-slate-400">
+            Vincule os resultados de <span className="font-bold text-slate-200">{exam.patientInitials}</span> a um paciente.
+            Use um identificador pseudônimo (ex: nº do leito ou prontuário), nunca o nome.
+          </p>
+
+          {undated.length > 0 && (
+            <div className="space-y-2">
+              <label className="text-xs font-semibold text-slate-500 uppercase">Data da Coleta</label>
+              <p className="text-xs text-slate-500">A data não foi encontrada no laudo. Informe-a para posicionar o exame na linha do tempo.</p>
+              {undated.map(item => (
+                <div key={item.id} className="flex items-center gap-2">
+                  {undated.length > 1 && <span className="text-xs text-slate-400 w-24 truncate">{item.results.slice(0, 2).map(result => result.abbreviation).join(', ')}</span>}
+                  <input
+                    type="date"
+                    value={typedDates[item.id] || ''}
+                    max={toIsoDate(new Date())}
+                    onChange={(e) => setTypedDates(dates => ({ ...dates, [item.id]: e.target.value }))}
+                    className="flex-grow px-3 py-2 bg-background border border-border text-slate-100 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-brand-start"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleCreate} className="flex gap-2 items-end">
+            <div className="flex-grow space-y-1">
+              <label className="text-xs font-semibold text-slate-500 uppercase">Novo Paciente</label>
+              <input
+                type="text"
+                placeholder={`Ex: ${exam.patientInitials}-LEITO12`}
+                value={pseudonym}
+                onChange={(e) => setPseudonym(e.target.value)}
+                className="w-full px-3 py-2 bg-background border border-border text-slate-100 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-brand-start uppercase placeholder-slate-600"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={!pseudonym.trim() || !datesReady || savingId !== null}
+              className="px-4 py-2 bg-brand-start text-white rounded-lg hover:bg-brand-end disabled:opacity-50 disabled:cursor-not-allowed transition-colors h-[38px] flex items-center justify-center"
+            >
+              {savingId === 'new' ? <Loader2 size={18} className="animate-spin" /> : <UserPlus size={18} />}
+            </button>
+          </form>
+
+          <div className="space-y-3">
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Pacientes Existentes</h3>
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 size={20} className="text-brand-start animate-spin" />
+              </div>
+            ) : sortedPatients.length === 0 ? (
+              <div className="text-center py-8 border border-dashed border-border rounded-xl bg-surfaceHighlight/50 text-slate-500 text-sm">
+                Nenhum paciente salvo ainda.
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {sortedPatients.map((patient) => (
+                  <button
+                    key={patient.id}
+                    onClick={() => saveTo(patient.id)}
+                    disabled={!datesReady || savingId !== null}
+                    className="w-full flex items-center justify-between p-3 bg-surfaceHighlight border border-border rounded-lg shadow-sm hover:border-brand-start/50 transition-colors disabled:opacity-60"
+                  >
+                    <div className="flex items-center gap-3">
+                      <span className="font-bold text-brand-start bg-brand-start/10 px-2 py-0.5 rounded text-xs border border-brand-start/20">{patient.pseudonym}</span>
+                      <span className="font-medium text-slate-200">{patient.initials}</span>
+                      {patient.age && <span className="text-slate-500 text-xs">{patient.age}</span>}
+                    </div>
+                    {savedId === patient.id ? (
+                      <Check size={16} className="text-green-500" />
+                    ) : savingId === patient.id ? (
+                      <Loader2 size={16} className="text-brand-start animate-spin" />
+                    ) : null}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 text-red-400 text-sm bg-red-500/10 border border-red-500/20 rounded-lg px-4 py-3">
+              <AlertCircle size={16} />
+              <span>{error}</span>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SavePatientModal;
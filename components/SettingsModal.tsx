@@ -1,20 +1,125 @@
-import React, { useState } from 'react';
-import { X, Plus, Trash2, Check, Loader2, Cloud } from 'lucide-react';
-import { CustomAbbreviation } from '../types';
+import React, { useState, useEffect } from 'react';
+import { X, Plus, Trash2, Check, Loader2, Cloud, Siren, RotateCcw, Ruler, ClipboardList, Layers, BookOpen } from 'lucide-react';
+import { AnalyzedExam, CustomAbbreviation, CriticalThreshold, UnitSystem, OutputTemplate, LabCategory, DEFAULT_CRITICAL_THRESHOLDS, DEFAULT_OUTPUT_TEMPLATE } from '../types';
 import { authService } from '../services/authService';
+import { formatLabSummary, OUTPUT_TEMPLATE_PRESETS, TEMPLATE_PLACEHOLDERS } from '../services/outputTemplate';
+import { DEFAULT_LAB_CATEGORIES } from '../services/labCategories';
+import { AbbreviationDictionary, OrganizationMembership } from '../services/dictionaryService';
+import CategoryEditor from './CategoryEditor';
+import DictionaryManager from './DictionaryManager';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   abbreviations: CustomAbbreviation[];
   setAbbreviations: (abbr: CustomAbbreviation[]) => void;
+  criticalThresholds: CriticalThreshold[];
+  setCriticalThresholds: (thresholds: CriticalThreshold[]) => void;
+  unitSystem: UnitSystem;
+  setUnitSystem: (system: UnitSystem) => void;
+  outputTemplate: OutputTemplate;
+  setOutputTemplate: (template: OutputTemplate) => void;
+  labCategories: LabCategory[];
+  setLabCategories: (categories: LabCategory[]) => void;
+  dictionaries: AbbreviationDictionary[];
+  setDictionaries: (dictionaries: AbbreviationDictionary[]) => void;
+  memberships: OrganizationMembership[];
+  activeDictionaries: string[];
+  setActiveDictionaries: (ids: string[]) => void;
   userId?: string;
 }
 
-const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, abbreviations, setAbbreviations, userId }) => {
+const UNIT_SYSTEM_OPTIONS: { value: UnitSystem; label: string; hint: string }[] = [
+  { value: 'conventional', label: 'Convencional', hint: 'mg/dL' },
+  { value: 'si', label: 'SI', hint: 'mmol/L, µmol/L' },
+  { value: 'original', label: 'Original', hint: 'como no laudo' },
+];
+
+const TEMPLATE_FIELDS: { key: keyof OutputTemplate; label: string; placeholders?: keyof typeof TEMPLATE_PLACEHOLDERS }[] = [
+  { key: 'header', label: 'Cabeçalho', placeholders: 'header' },
+  { key: 'line', label: 'Linha (por sistema)', placeholders: 'line' },
+  { key: 'item', label: 'Item', placeholders: 'item' },
+  { key: 'itemSeparator', label: 'Separador de itens' },
+  { key: 'lineSeparator', label: 'Separador de linhas' },
+  { key: 'abnormalHeader', label: 'Cabeçalho das alterações', placeholders: 'header' },
+  { key: 'abnormalItem', label: 'Item das alterações', placeholders: 'item' },
+];
+
+const ORDERING_OPTIONS: { value: OutputTemplate['ordering']; label: string }[] = [
+  { value: 'category', label: 'Por sistema' },
+  { value: 'report', label: 'Como no laudo' },
+  { value: 'abnormal_first', label: 'Alterados primeiro' },
+];
+
+// Preview input: one result of each kind the placeholders care about
+const PREVIEW_EXAM: AnalyzedExam = {
+  id: 'preview',
+  patientInitials: 'MJR',
+  patientAge: '67 anos',
+  collectionDate: '01/03',
+  category: 'LAB',
+  rawSummary: '',
+  results: [
+    { abbreviation: 'Hb', value: '12.1', unit: 'g/dL', referenceRange: '12,0 a 15,5', abnormality: 'NORMAL' },
+    { abbreviation: 'Leuco', value: '13400', unit: '/mm³', referenceRange: '4000 a 11000', abnormality: 'HIGH' },
+    { abbreviation: 'Cr', value: '1.4', unit: 'mg/dL', referenceRange: '0,6 a 1,2', abnormality: 'HIGH' },
+    { abbreviation: 'K', value: '6.8', unit: 'mEq/L', referenceRange: '3,5 a 5,1', abnormality: 'CRITICAL_HIGH' },
+    { abbreviation: 'Na', value: '138', unit: 'mEq/L', referenceRange: '136 a 145', abnormality: 'NORMAL' },
+  ],
+};
+
+// Accepts "6,5" as well as "6.5"; empty means no bound
+const parseThreshold = (value: string): number | null => {
+  const num = parseFloat(value.replace(',', '.'));
+  return isNaN(num) ? null : num;
+};
+
+const formatThreshold = (threshold: CriticalThreshold): string => {
+  const parts: string[] = [];
+  if (threshold.criticalBelow !== null) parts.push(`< ${String(threshold.criticalBelow).replace('.', ',')}`);
+  if (threshold.criticalAbove !== null) parts.push(`> ${String(threshold.criticalAbove).replace('.', ',')}`);
+  if (threshold.criticalIfPositive) parts.push('positivo');
+  return parts.join(' ou ');
+};
+
+const SettingsModal: React.FC<SettingsModalProps> = ({
+  isOpen,
+  onClose,
+  abbreviations,
+  setAbbreviations,
+  criticalThresholds,
+  setCriticalThresholds,
+  unitSystem,
+  setUnitSystem,
+  outputTemplate,
+  setOutputTemplate,
+  labCategories,
+  setLabCategories,
+  dictionaries,
+  setDictionaries,
+  memberships,
+  activeDictionaries,
+  setActiveDictionaries,
+  userId,
+}) => {
   const [examName, setExamName] = useState('');
   const [abbr, setAbbr] = useState('');
+  const [criticalAbbr, setCriticalAbbr] = useState('');
+  const [criticalBelow, setCriticalBelow] = useState('');
+  const [criticalAbove, setCriticalAbove] = useState('');
+  const [criticalIfPositive, setCriticalIfPositive] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  // Edited and previewed here; saved only on "Salvar formato"
+  const [templateDraft, setTemplateDraft] = useState<OutputTemplate>(outputTemplate);
+  const [categoriesDraft, setCategoriesDraft] = useState<LabCategory[]>(labCategories);
+
+  useEffect(() => {
+    if (isOpen) setTemplateDraft(outputTemplate);
+  }, [isOpen, outputTemplate]);
+
+  useEffect(() => {
+    if (isOpen) setCategoriesDraft(labCategories);
+  }, [isOpen, labCategories]);
 
   if (!isOpen) return null;
 
@@ -49,6 +154,74 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, abbrevia
     await saveToSupabase(updated);
   };
 
+  const saveThresholds = async (updated: CriticalThreshold[]) => {
+    setCriticalThresholds(updated);
+    if (!userId) return;
+    setIsSaving(true);
+    await authService.saveCustomizations(userId, abbreviations, { criticalThresholds: updated });
+    setIsSaving(false);
+  };
+
+  const handleAddThreshold = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const below = parseThreshold(criticalBelow);
+    const above = parseThreshold(criticalAbove);
+    if (!criticalAbbr.trim() || (below === null && above === null && !criticalIfPositive)) return;
+
+    // One threshold per abbreviation: adding again replaces the previous one
+    const abbreviation = criticalAbbr.trim();
+    const newThreshold: CriticalThreshold = {
+      id: Date.now().toString(),
+      abbreviation,
+      criticalBelow: below,
+      criticalAbove: above,
+      criticalIfPositive: criticalIfPositive || undefined,
+    };
+    await saveThresholds([
+      ...criticalThresholds.filter(item => item.abbreviation.toLowerCase() !== abbreviation.toLowerCase()),
+      newThreshold,
+    ]);
+
+    setCriticalAbbr('');
+    setCriticalBelow('');
+    setCriticalAbove('');
+    setCriticalIfPositive(false);
+  };
+
+  const handleUnitSystemChange = async (system: UnitSystem) => {
+    setUnitSystem(system);
+    if (!userId) return;
+    setIsSaving(true);
+    await authService.saveCustomizations(userId, abbreviations, { unitSystem: system });
+    setIsSaving(false);
+  };
+
+  const handleDeleteThreshold = async (id: string) => {
+    await saveThresholds(criticalThresholds.filter(item => item.id !== id));
+  };
+
+  const handleSaveTemplate = async () => {
+    setOutputTemplate(templateDraft);
+    if (!userId) return;
+    setIsSaving(true);
+    await authService.saveCustomizations(userId, abbreviations, { outputTemplate: templateDraft });
+    setIsSaving(false);
+  };
+
+  const handleSaveCategories = async () => {
+    // Empty names would print as a bare ": " prefix
+    const cleaned = categoriesDraft.filter(category => category.name.trim());
+    setLabCategories(cleaned);
+    if (!userId) return;
+    setIsSaving(true);
+    await authService.saveCustomizations(userId, abbreviations, { labCategories: cleaned });
+    setIsSaving(false);
+  };
+
+  const templatePreview = formatLabSummary(PREVIEW_EXAM, PREVIEW_EXAM.collectionDate!, templateDraft, categoriesDraft);
+  const isTemplateChanged = JSON.stringify(templateDraft) !== JSON.stringify(outputTemplate);
+  const isCategoriesChanged = JSON.stringify(categoriesDraft) !== JSON.stringify(labCategories);
+
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-fade-in">
       <div className="bg-surface rounded-2xl shadow-2xl shadow-black border border-border w-full max-w-lg overflow-hidden flex flex-col max-h-[90vh]">
@@ -126,6 +299,265 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, abbrevia
               </div>
             )}
           </div>
+
+          {/* Shared dictionaries */}
+          <div className="mt-8 pt-6 border-t border-border">
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-2">
+              <BookOpen size={14} className="text-brand-start" />
+              Dicionários
+            </h3>
+            <p className="text-sm text-slate-400 mb-4">
+              Combine o dicionário da sua equipe e predefinições com as suas regras. Em caso de conflito, valem as suas regras.
+            </p>
+            <DictionaryManager
+              userId={userId}
+              abbreviations={abbreviations}
+              setAbbreviations={setAbbreviations}
+              dictionaries={dictionaries}
+              setDictionaries={setDictionaries}
+              memberships={memberships}
+              activeDictionaries={activeDictionaries}
+              setActiveDictionaries={setActiveDictionaries}
+            />
+          </div>
+
+          {/* Unit system */}
+          <div className="mt-8 pt-6 border-t border-border">
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-2">
+              <Ruler size={14} className="text-brand-start" />
+              Sistema de Unidades
+            </h3>
+            <p className="text-sm text-slate-400 mb-4">
+              Valores de laudos externos são convertidos antes de exibir, copiar e exportar.
+            </p>
+            <div className="grid grid-cols-3 gap-2">
+              {UNIT_SYSTEM_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => handleUnitSystemChange(option.value)}
+                  className={`px-3 py-2 rounded-lg border text-sm transition-colors flex flex-col items-center ${
+                    unitSystem === option.value
+                      ? 'bg-brand-start/20 border-brand-start/50 text-white'
+                      : 'bg-surfaceHighlight border-border text-slate-400 hover:text-slate-200'
+                  }`}
+                >
+                  <span className="font-semibold">{option.label}</span>
+                  <span className="text-[10px] text-slate-500">{option.hint}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Categories and analyte order */}
+          <div className="mt-8 pt-6 border-t border-border">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                <Layers size={14} className="text-brand-start" />
+                Sistemas e Ordem
+              </h3>
+              <button
+                onClick={() => setCategoriesDraft(DEFAULT_LAB_CATEGORIES)}
+                className="text-xs text-slate-500 hover:text-white flex items-center gap-1 transition-colors"
+              >
+                <RotateCcw size={12} /> Restaurar padrões
+              </button>
+            </div>
+            <p className="text-sm text-slate-400 mb-4">
+              Agrupa e ordena os resultados ao copiar, no modo leitura e nas exportações. Siglas fora de qualquer sistema vão para OUTROS, no fim.
+            </p>
+            <CategoryEditor categories={categoriesDraft} onChange={setCategoriesDraft} />
+            <button
+              onClick={handleSaveCategories}
+              disabled={!isCategoriesChanged}
+              className="mt-4 w-full py-2 bg-brand-start text-white rounded-lg hover:bg-brand-end disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm font-semibold flex items-center justify-center gap-2"
+            >
+              <Check size={16} /> Salvar sistemas
+            </button>
+          </div>
+
+          {/* Copied text format */}
+          <div className="mt-8 pt-6 border-t border-border">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                <ClipboardList size={14} className="text-brand-start" />
+                Formato do Texto Copiado
+              </h3>
+              <button
+                onClick={() => setTemplateDraft(DEFAULT_OUTPUT_TEMPLATE)}
+                className="text-xs text-slate-500 hover:text-white flex items-center gap-1 transition-colors"
+              >
+                <RotateCcw size={12} /> Restaurar padrão
+              </button>
+            </div>
+            <p className="text-sm text-slate-400 mb-4">
+              Usado ao copiar, no modo leitura e no PDF. Use <span className="font-mono text-slate-300">{'{campo}'}</span> para os dados e <span className="font-mono text-slate-300">[ ... ]</span> para trechos que somem quando o campo está vazio; <span className="font-mono text-slate-300">\n</span> quebra a linha nos separadores.
+            </p>
+
+            <div className="flex flex-wrap gap-2 mb-4">
+              {OUTPUT_TEMPLATE_PRESETS.map(preset => (
+                <button
+                  key={preset.label}
+                  onClick={() => setTemplateDraft(preset.template)}
+                  className="px-3 py-1 rounded-full border border-border bg-surfaceHighlight text-xs text-slate-300 hover:text-white hover:border-brand-start/50 transition-colors"
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-3">
+              {TEMPLATE_FIELDS.map(field => (
+                <div key={field.key} className="space-y-1">
+                  <label className="text-xs font-semibold text-slate-500 uppercase">{field.label}</label>
+                  <input
+                    type="text"
+                    value={String(templateDraft[field.key])}
+                    onChange={(e) => setTemplateDraft({ ...templateDraft, [field.key]: e.target.value })}
+                    className="w-full px-3 py-2 bg-background border border-border text-slate-100 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-brand-start"
+                  />
+                  {field.placeholders && (
+                    <p className="text-[11px] text-slate-500">
+                      {TEMPLATE_PLACEHOLDERS[field.placeholders]
+                        .map(placeholder => `{${placeholder.key}} ${placeholder.description}`)
+                        .join(' · ')}
+                    </p>
+                  )}
+                </div>
+              ))}
+
+              <div className="flex flex-wrap items-center gap-4">
+                <select
+                  value={templateDraft.ordering}
+                  onChange={(e) => setTemplateDraft({ ...templateDraft, ordering: e.target.value as OutputTemplate['ordering'] })}
+                  className="px-3 py-2 bg-background border border-border text-slate-100 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-brand-start"
+                >
+                  {ORDERING_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={templateDraft.groupByCategory}
+                    onChange={(e) => setTemplateDraft({ ...templateDraft, groupByCategory: e.target.checked })}
+                    className="accent-brand-start"
+                  />
+                  Uma linha por sistema
+                </label>
+              </div>
+            </div>
+
+            <div className="mt-4 space-y-2">
+              <label className="text-xs font-semibold text-slate-500 uppercase">Pré-visualização</label>
+              <div className="bg-background rounded-xl p-4 border border-border font-mono text-slate-300 text-xs leading-relaxed whitespace-pre-wrap break-words">
+                {templatePreview.text}
+              </div>
+              <div className="bg-background rounded-xl p-4 border border-orange-500/20 font-mono text-slate-300 text-xs leading-relaxed whitespace-pre-wrap break-words">
+                {templatePreview.abnormalText}
+              </div>
+            </div>
+
+            <button
+              onClick={handleSaveTemplate}
+              disabled={!isTemplateChanged}
+              className="mt-4 w-full py-2 bg-brand-start text-white rounded-lg hover:bg-brand-end disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm font-semibold flex items-center justify-center gap-2"
+            >
+              <Check size={16} /> Salvar formato
+            </button>
+          </div>
+
+          {/* Critical values */}
+          <div className="mt-8 pt-6 border-t border-border">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                <Siren size={14} className="text-red-400" />
+                Valores Críticos
+              </h3>
+              <button
+                onClick={() => saveThresholds(DEFAULT_CRITICAL_THRESHOLDS)}
+                className="text-xs text-slate-500 hover:text-white flex items-center gap-1 transition-colors"
+              >
+                <RotateCcw size={12} /> Restaurar padrões
+              </button>
+            </div>
+            <p className="text-sm text-slate-400 mb-4">
+              Resultados fora destes limites são destacados como críticos no cartão e no texto de alterações.
+            </p>
+
+            <form onSubmit={handleAddThreshold} className="flex flex-wrap gap-2 mb-4 items-end">
+              <div className="w-24 space-y-1">
+                <label className="text-xs font-semibold text-slate-500 uppercase">Sigla</label>
+                <input
+                  type="text"
+                  placeholder="K"
+                  value={criticalAbbr}
+                  onChange={(e) => setCriticalAbbr(e.target.value)}
+                  className="w-full px-3 py-2 bg-background border border-border text-slate-100 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-brand-start placeholder-slate-600"
+                />
+              </div>
+              <div className="w-24 space-y-1">
+                <label className="text-xs font-semibold text-slate-500 uppercase">Abaixo de</label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  placeholder="2,5"
+                  value={criticalBelow}
+                  onChange={(e) => setCriticalBelow(e.target.value)}
+                  className="w-full px-3 py-2 bg-background border border-border text-slate-100 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-brand-start placeholder-slate-600"
+                />
+              </div>
+              <div className="w-24 space-y-1">
+                <label className="text-xs font-semibold text-slate-500 uppercase">Acima de</label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  placeholder="6,5"
+                  value={criticalAbove}
+                  onChange={(e) => setCriticalAbove(e.target.value)}
+                  className="w-full px-3 py-2 bg-background border border-border text-slate-100 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-brand-start placeholder-slate-600"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-xs text-slate-400 h-[38px] cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={criticalIfPositive}
+                  onChange={(e) => setCriticalIfPositive(e.target.checked)}
+                  className="accent-red-500"
+                />
+                Positivo
+              </label>
+              <button
+                type="submit"
+                disabled={!criticalAbbr || (!criticalBelow && !criticalAbove && !criticalIfPositive)}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors h-[38px] flex items-center justify-center"
+              >
+                <Plus size={20} />
+              </button>
+            </form>
+
+            {criticalThresholds.length === 0 ? (
+              <div className="text-center py-6 border border-dashed border-border rounded-xl bg-surfaceHighlight/50 text-slate-500 text-sm">
+                Nenhum valor crítico configurado.
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {criticalThresholds.map(item => (
+                  <div key={item.id} className="flex items-center justify-between p-3 bg-surfaceHighlight border border-border rounded-lg shadow-sm hover:border-red-500/50 transition-colors">
+                    <div className="flex items-center gap-3">
+                      <span className="font-bold text-red-400 bg-red-500/10 px-2 py-0.5 rounded text-xs border border-red-500/20">{item.abbreviation}</span>
+                      <span className="text-sm text-slate-300 font-mono">{formatThreshold(item)}</span>
+                    </div>
+                    <button
+                      onClick={() => handleDeleteThreshold(item.id)}
+                      className="text-slate-500 hover:text-red-400 transition-colors p-1"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
 
         {/* Footer */}
@@ -0,0 +1,188 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, FileSearch, Loader2, X } from 'lucide-react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { SourceLocation } from '../types';
+import { isPdfFile, openPdf, renderPdfPage } from '../services/pdfDocument';
+
+interface SourceViewerProps {
+  files: File[];
+  location: SourceLocation;
+  label?: string; // What is being located, e.g. "Plq 150.000"
+  onClose: () => void;
+}
+
+// Normalized [ymin, xmin, ymax, xmax] (0-1000) -> CSS box over the rendered page
+const Highlight: React.FC<{ box: NonNullable<SourceLocation['box']> }> = ({ box }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [ymin, xmin, ymax, xmax] = box;
+
+  useEffect(() => {
+    ref.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [ymin, xmin, ymax, xmax]);
+
+  return (
+    <div
+      ref={ref}
+      className="absolute border-2 border-amber-400 bg-amber-300/25 rounded-sm shadow-[0_0_0_4px_rgba(251,191,36,0.25)] pointer-events-none animate-pulse"
+      style={{ top: `${ymin / 10}%`, left: `${xmin / 10}%`, height: `${(ymax - ymin) / 10}%`, width: `${(xmax - xmin) / 10}%` }}
+    />
+  );
+};
+
+const PdfPage: React.FC<{ pdf: PDFDocumentProxy; page: number; width: number; onRendered: () => void }> = ({ pdf, page, width, onRendered }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width <= 0) return;
+    let cancelled = false;
+    let task: Awaited<ReturnType<typeof renderPdfPage>> | null = null;
+
+    renderPdfPage(pdf, page, canvas, width)
+      .then(renderTask => {
+        task = renderTask;
+        if (cancelled) renderTask.cancel();
+        return renderTask.promise;
+      })
+      .then(() => { if (!cancelled) onRendered(); })
+      .catch(error => {
+        if (error?.name !== 'RenderingCancelledException') console.error('PDF render error:', error);
+      });
+
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [pdf, page, width, onRendered]);
+
+  return <canvas ref={canvasRef} className="block" />;
+};
+
+const SourceViewer: React.FC<SourceViewerProps> = ({ files, location, label, onClose }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [fileIndex, setFileIndex] = useState(location.fileIndex);
+  const [page, setPage] = useState(location.page);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [width, setWidth] = useState(0);
+
+  const file = files[fileIndex];
+  const pageCount = pdf ? pdf.numPages : 1;
+  const showHighlight = !!location.box && fileIndex === location.fileIndex && page === location.page && !isLoading;
+
+  // Clicking another result moves the viewer
+  useEffect(() => {
+    setFileIndex(location.fileIndex);
+    setPage(location.page);
+  }, [location]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(Math.floor(entry.contentRect.width)));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    let openedPdf: PDFDocumentProxy | null = null;
+
+    setIsLoading(true);
+    setError(null);
+    setPdf(null);
+    setImageUrl(null);
+
+    if (isPdfFile(file)) {
+      openPdf(file)
+        .then(doc => {
+          openedPdf = doc;
+          if (cancelled) doc.destroy();
+          else setPdf(doc);
+        })
+        .catch(err => {
+          console.error('PDF open error:', err);
+          if (!cancelled) {
+            setError('Não foi possível abrir o PDF.');
+            setIsLoading(false);
+          }
+        });
+    } else {
+      objectUrl = URL.createObjectURL(file);
+      setImageUrl(objectUrl);
+    }
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      openedPdf?.destroy();
+    };
+  }, [file]);
+
+  const handleRendered = useCallback(() => setIsLoading(false), []);
+
+  return (
+    <div className="bg-surface border border-border rounded-2xl shadow-2xl flex flex-col h-full overflow-hidden">
+      <div className="flex items-center justify-between gap-3 px-4 py-3 border-b border-border bg-surfaceHighlight/50">
+        <div className="flex items-center gap-2 min-w-0">
+          <FileSearch size={16} className="text-brand-start shrink-0" />
+          <div className="min-w-0">
+            <p className="text-sm font-semibold text-slate-200 truncate">{file?.name || 'Documento'}</p>
+            {label && <p className="text-xs text-amber-300 font-mono truncate">{label}</p>}
+          </div>
+        </div>
+        <button onClick={onClose} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-white/10 shrink-0" title="Fechar">
+          <X size={16} />
+        </button>
+      </div>
+
+      {files.length > 1 && (
+        <div className="flex gap-1 px-4 py-2 border-b border-border overflow-x-auto custom-scrollbar">
+          {files.map((f, i) => (
+            <button
+              key={i}
+              onClick={() => { setFileIndex(i); setPage(1); }}
+              className={`px-2 py-1 rounded text-xs whitespace-nowrap transition-colors ${i === fileIndex ? 'bg-brand-start/20 text-brand-start' : 'text-slate-400 hover:text-slate-200 hover:bg-white/5'}`}
+            >
+              {f.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto custom-scrollbar bg-background p-3">
+        <div ref={containerRef} className="relative w-full">
+          {error && <p className="text-sm text-red-400 p-4">{error}</p>}
+          {isLoading && !error && (
+            <div className="flex items-center justify-center gap-2 text-slate-500 text-sm py-16">
+              <Loader2 size={16} className="animate-spin" /> Carregando documento...
+            </div>
+          )}
+          {pdf && <PdfPage pdf={pdf} page={Math.min(page, pageCount)} width={width} onRendered={handleRendered} />}
+          {imageUrl && (
+            <img src={imageUrl} alt={file?.name} className="block w-full h-auto" onLoad={handleRendered} onError={() => { setError('Não foi possível abrir a imagem.'); setIsLoading(false); }} />
+          )}
+          {showHighlight && <Highlight box={location.box!} />}
+        </div>
+      </div>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-center gap-3 px-4 py-2 border-t border-border text-xs text-slate-400">
+          <button onClick={() => setPage(p => Math.max(1, p - 1))} disabled={page <= 1} className="p-1 rounded hover:bg-white/10 disabled:opacity-30">
+            <ChevronLeft size={16} />
+          </button>
+          Página {page} de {pageCount}
+          <button onClick={() => setPage(p => Math.min(pageCount, p + 1))} disabled={page >= pageCount} className="p-1 rounded hover:bg-white/10 disabled:opacity-30">
+            <ChevronRight size={16} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SourceViewer;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { X, Crown } from 'lucide-react';
+
+interface UpgradePromptProps {
+  message: string | null;
+  onClose: () => void;
+}
+
+const UpgradePrompt: React.FC<UpgradePromptProps> = ({ message, onClose }) => {
+  const navigate = useNavigate();
+
+  if (!message) return null;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-fade-in">
+      <div className="bg-surface rounded-2xl shadow-2xl shadow-black border border-border w-full max-w-md overflow-hidden flex flex-col">
+        <div className="bg-gradient-to-r from-brand-start/20 to-brand-end/20 p-8 flex flex-col items-center text-center border-b border-border relative">
+          <button
+            onClick={onClose}
+            className="absolute top-4 right-4 text-slate-400 hover:text-white p-1 rounded-full hover:bg-white/10 transition-colors"
+          >
+            <X size={20} />
+          </button>
+          <div className="w-16 h-16 rounded-2xl bg-gradient-to-br from-brand-start to-brand-end flex items-center justify-center text-white shadow-xl shadow-brand-start/30 mb-4">
+            <Crown size={32} />
+          </div>
+          <h2 className="text-xl font-bold text-white">Limite do plano atingido</h2>
+          <p className="text-slate-400 text-sm mt-2">{message}</p>
+        </div>
+
+        <div className="p-6 space-y-3">
+          <p className="text-sm text-slate-300 text-center">
+            No plano Profissional as análises e os uploads são ilimitados.
+          </p>
+          <button
+            onClick={() => navigate('/plans')}
+            className="w-full bg-gradient-to-r from-brand-start to-brand-end hover:from-brand-600 hover:to-brand-700 text-white font-bold py-3 rounded-xl shadow-lg shadow-brand-start/20 hover:shadow-brand-start/40 transform transition-all active:scale-[0.98] flex items-center justify-center gap-2"
+          >
+            <Crown size={18} />
+            Ver Planos
+          </button>
+          <button
+            onClick={onClose}
+            className="w-full py-3 text-slate-400 hover:text-white text-sm font-medium transition-colors"
+          >
+            Agora não
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UpgradePrompt;
@@ -1,6 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { User, Settings, CreditCard, LogOut, ChevronDown, Crown } from 'lucide-react';
+import { User, Settings, CreditCard, LogOut, ChevronDown, Crown, Users } from 'lucide-react';
 
 interface UserMenuProps {
   userName: string | null;
@@ -78,6 +78,17 @@ const UserMenu: React.FC<UserMenuProps> = ({ userName, userEmail, onLogout, onOp
               Editar Perfil
             </button>
 
+            <button
+              onClick={() => {
+                navigate('/patients');
+                setIsOpen(false);
+              }}
+              className="w-full flex items-center gap-3 px-3 py-2 text-sm text-slate-300 hover:bg-surfaceHighlight hover:text-white transition-colors rounded-lg"
+            >
+              <Users size={16} className="text-slate-400" />
+              Pacientes
+            </button>
+
             <button
               onClick={() => {
                 navigate('/plans');
@@ -15,4 +15,13 @@ root.render(
       <App />
     </BrowserRouter>
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+// Offline shell (public/sw.js); skipped in dev so Vite's hot reload is never served from cache
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.warn('Service worker registration failed:', error);
+    });
+  });
+}
@@ -1,17 +1,27 @@
-import React, { useState, Suspense, useCallback } from 'react';
-import { AnalysisState, AnalyzedExam, CustomAbbreviation, AnalysisPreferences } from '../types';
+import React, { useState, Suspense, useCallback, useEffect, useRef } from 'react';
+import { AnalysisState, AnalyzedExam, CustomAbbreviation, CriticalThreshold, UnitSystem, AnalysisPreferences, NonLabData, OutputTemplate, LabCategory } from '../types';
 import { analyzeLabExam } from '../services/geminiService';
 import { UserProfile } from '../services/authService';
+import { usageService, UsageQuota, QuotaExceededError } from '../services/usageService';
+import { editResult, removeResult, editNonLabData, ResultPatch } from '../services/examEdits';
+import { analyzeInBatches, FileStatus } from '../services/batchAnalysis';
+import type { AnalysisBatch } from '../services/providers';
+import { AnalysisError, ANALYSIS_ERROR_TITLES, toAnalysisError } from '../services/analysisErrors';
+import { mergePatients, mergeCards, splitCards } from '../services/patientMerge';
+import { offlineVault, StoredSession } from '../services/offlineVault';
+import { AbbreviationDictionary, OrganizationMembership } from '../services/dictionaryService';
 import Logo from '../components/Logo';
 import FileUpload from '../components/FileUpload';
+import FileQueue from '../components/FileQueue';
 import BloodLoader from '../components/BloodLoader';
 import UserMenu from '../components/UserMenu';
 import FeedbackButton from '../components/FeedbackButton';
-import { Lock, FileText, CheckCircle2, Play, Trash2, File as FileIcon, Zap } from 'lucide-react';
+import { Lock, FileText, CheckCircle2, Zap, RotateCcw, CloudOff, CloudUpload, History, Trash2 } from 'lucide-react';
 
 const ResultDisplay = React.lazy(() => import('../components/ResultDisplay'));
 const SettingsModal = React.lazy(() => import('../components/SettingsModal'));
 const FeedbackModal = React.lazy(() => import('../components/FeedbackModal'));
+const UpgradePrompt = React.lazy(() => import('../components/UpgradePrompt'));
 
 interface HomePageProps {
   session: { user: { id: string; email: string } } | null;
@@ -19,6 +29,20 @@ interface HomePageProps {
   onLogout: () => void;
   customAbbreviations: CustomAbbreviation[];
   setCustomAbbreviations: React.Dispatch<React.SetStateAction<CustomAbbreviation[]>>;
+  criticalThresholds: CriticalThreshold[];
+  setCriticalThresholds: React.Dispatch<React.SetStateAction<CriticalThreshold[]>>;
+  unitSystem: UnitSystem;
+  setUnitSystem: React.Dispatch<React.SetStateAction<UnitSystem>>;
+  outputTemplate: OutputTemplate;
+  setOutputTemplate: React.Dispatch<React.SetStateAction<OutputTemplate>>;
+  labCategories: LabCategory[];
+  setLabCategories: React.Dispatch<React.SetStateAction<LabCategory[]>>;
+  dictionaries: AbbreviationDictionary[];
+  setDictionaries: React.Dispatch<React.SetStateAction<AbbreviationDictionary[]>>;
+  memberships: OrganizationMembership[];
+  activeDictionaries: string[];
+  setActiveDictionaries: React.Dispatch<React.SetStateAction<string[]>>;
+  analysisAbbreviations: CustomAbbreviation[]; // Team, presets and personal list combined
 }
 
 const HomePage: React.FC<HomePageProps> = ({
@@ -27,20 +51,119 @@ const HomePage: React.FC<HomePageProps> = ({
   onLogout,
   customAbbreviations,
   setCustomAbbreviations,
+  criticalThresholds,
+  setCriticalThresholds,
+  unitSystem,
+  setUnitSystem,
+  outputTemplate,
+  setOutputTemplate,
+  labCategories,
+  setLabCategories,
+  dictionaries,
+  setDictionaries,
+  memberships,
+  activeDictionaries,
+  setActiveDictionaries,
+  analysisAbbreviations,
 }) => {
   const [state, setState] = useState<AnalysisState>({
     status: 'idle',
     data: null,
   });
   const [queuedFiles, setQueuedFiles] = useState<File[]>([]);
+  // Per-file progress of the running (or last partially failed) upload, and the server batch it ran under
+  const [batch, setBatch] = useState<{ files: File[]; statuses: FileStatus[]; errors: (string | undefined)[]; analysisBatch?: AnalysisBatch } | null>(null);
+  // What the error screen's "Tentar novamente" sends again (the failed input only)
+  const [retryInput, setRetryInput] = useState<{ input: File[] | Blob | string; pendingIds: string[] } | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isFeedbackOpen, setIsFeedbackOpen] = useState(false);
   const [preferences, setPreferences] = useState<AnalysisPreferences>({
     showReferenceValues: false,
     groupDates: false,
   });
+  const [quota, setQuota] = useState<UsageQuota | null>(null);
+  const [upgradeMessage, setUpgradeMessage] = useState<string | null>(null);
+  // Offline support: camera photos waiting for a connection and analyses kept on this device
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [recentSessions, setRecentSessions] = useState<StoredSession[]>([]);
+  const sessionIdRef = useRef<string>(crypto.randomUUID());
+  const isSyncingRef = useRef(false);
+  // A plan limit hit while syncing pauses it until the doctor resumes (or signs in again)
+  const [syncBlocked, setSyncBlocked] = useState(false);
+  const userId = session?.user?.id;
+
+  useEffect(() => {
+    if (session?.user?.id) {
+      usageService.getQuota(session.user.id).then(setQuota);
+    }
+  }, [session]);
+
+  useEffect(() => {
+    const goOnline = () => setIsOnline(true);
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  const refreshPendingCount = useCallback(() => {
+    if (!userId) return;
+    offlineVault.countPendingUploads(userId).then(setPendingCount).catch((error) => console.warn('Pending uploads unavailable:', error));
+  }, [userId]);
+
+  const refreshRecentSessions = useCallback(() => {
+    if (!userId) return;
+    offlineVault.listSessions(userId).then(setRecentSessions).catch((error) => console.warn('Recent analyses unavailable:', error));
+  }, [userId]);
+
+  useEffect(() => {
+    refreshPendingCount();
+    refreshRecentSessions();
+  }, [refreshPendingCount, refreshRecentSessions]);
+
+  // Every change to the results on screen (edits, merges, new files) updates this device's copy
+  useEffect(() => {
+    const data = state.data;
+    if (!userId || state.status !== 'success' || !data) return;
+    const timer = setTimeout(() => {
+      offlineVault.saveSession(userId, sessionIdRef.current, data)
+        .then(refreshRecentSessions)
+        .catch((error) => console.warn('Analysis not stored offline:', error));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [state, userId, refreshRecentSessions]);
+
+  // Client-side check for a friendly prompt; analyze-exam enforces the same limits.
+  // A retry under an already charged batch needs no credit left.
+  const getQuotaBlockMessage = (fileCount: number, charged = false): string | null => {
+    if (!quota) return null;
+    if (!charged && !usageService.hasCreditsLeft(quota)) {
+      return `Você utilizou as ${quota.limit} análises do seu plano este mês.`;
+    }
+    if (quota.maxFilesPerAnalysis !== null && fileCount > quota.maxFilesPerAnalysis) {
+      return `Seu plano permite até ${quota.maxFilesPerAnalysis} arquivos por análise.`;
+    }
+    return null;
+  };
+
+  // `pendingIds`: offline captures being sent, removed from the device once handled.
+  // `analysisBatch`: retrying failed files under the batch (and credit) of their upload.
+  const processAnalysis = async (
+    input: File[] | Blob | string,
+    existingData: AnalyzedExam[] | null = null,
+    pendingIds: string[] = [],
+    analysisBatch?: AnalysisBatch
+  ) => {
+    const blockMessage = getQuotaBlockMessage(Array.isArray(input) ? input.length : 1, Boolean(analysisBatch));
+    if (blockMessage) {
+      setUpgradeMessage(blockMessage);
+      return;
+    }
 
-  const processAnalysis = async (input: File[] | Blob | string, existingData: AnalyzedExam[] | null = null) => {
     setState({ status: 'analyzing', data: existingData });
 
     const resultComponentPromise = import('../components/ResultDisplay');
@@ -48,31 +171,84 @@ const HomePage: React.FC<HomePageProps> = ({
     try {
       await new Promise((resolve) => setTimeout(resolve, 300));
 
-      const newResultsArray = await analyzeLabExam(input, customAbbreviations, preferences);
-
-      let finalData: AnalyzedExam[] = [];
-
-      if (existingData) {
-        finalData = [...existingData, ...newResultsArray];
+      let newResultsArray: AnalyzedExam[];
+      if (Array.isArray(input)) {
+        setBatch({ files: input, statuses: input.map((): FileStatus => 'queued'), errors: [], analysisBatch });
+        const result = await analyzeInBatches(input, {
+          customAbbreviations: analysisAbbreviations,
+          preferences,
+          criticalThresholds,
+          batch: analysisBatch,
+          onStatus: (fileIndex, status, error) => setBatch((prev) => prev && {
+            ...prev,
+            statuses: prev.statuses.map((current, index) => index === fileIndex ? status : current),
+            errors: prev.files.map((_, index) => index === fileIndex ? error?.message : prev.errors[index]),
+          }),
+        });
+        setBatch((prev) => prev && { ...prev, analysisBatch: result.batch });
+        // Nothing came back: surface the failure as before; partial results are kept
+        if (result.exams.length === 0 && result.failedFiles.length > 0) throw result.error;
+        if (result.error instanceof QuotaExceededError) setUpgradeMessage(result.error.message);
+        if (result.failedFiles.length === 0) setBatch(null);
+        newResultsArray = result.exams;
       } else {
-        finalData = newResultsArray;
+        setBatch(null);
+        newResultsArray = await analyzeLabExam(input, analysisAbbreviations, preferences, criticalThresholds);
       }
 
+      // A second upload for a patient already on screen joins that patient's cards
+      const finalData = existingData ? mergePatients(existingData, newResultsArray) : newResultsArray;
+
       await resultComponentPromise;
 
       setState({ status: 'success', data: finalData });
       if (Array.isArray(input)) {
         setQueuedFiles([]);
       }
-    } catch (error: any) {
+      if (pendingIds.length > 0) {
+        await offlineVault.removePendingUploads(pendingIds);
+        refreshPendingCount();
+      }
+      if (session?.user?.id) {
+        usageService.getQuota(session.user.id).then(setQuota);
+      }
+    } catch (error) {
+      const failure = toAnalysisError(error);
+      if (failure instanceof QuotaExceededError) {
+        if (pendingIds.length > 0) setSyncBlocked(true);
+        if (session?.user?.id) usageService.getQuota(session.user.id).then(setQuota);
+        setBatch(null);
+        setState(existingData ? { status: 'success', data: existingData } : { status: 'idle', data: null });
+        setUpgradeMessage(failure.message);
+        return;
+      }
+      // Still offline (or the service is down): the captures stay queued for the next sync
+      const keepPending = failure instanceof AnalysisError && failure.transient;
+      if (pendingIds.length > 0 && !keepPending) {
+        await offlineVault.removePendingUploads(pendingIds).catch((removeError) => console.warn('Pending uploads not removed:', removeError));
+        refreshPendingCount();
+      }
+      // Exams already on screen survive the failure; a retry adds to them
+      setRetryInput({ input, pendingIds: keepPending ? pendingIds : [] });
       setState({
         status: 'error',
-        data: null,
-        error: error.message || 'Ocorreu um erro desconhecido ao processar o exame.',
+        data: existingData,
+        error: { code: failure.code, message: failure.message },
       });
     }
   };
 
+  const handleRetry = () => {
+    if (retryInput) processAnalysis(retryInput.input, state.data, retryInput.pendingIds);
+  };
+
+  const handleRetryFailedFiles = () => {
+    if (!batch) return;
+    // Within its expiry the original batch covers the retry; past it the server would refuse the id
+    const analysisBatch = batch.analysisBatch && Date.parse(batch.analysisBatch.expiresAt) > Date.now() ? batch.analysisBatch : undefined;
+    processAnalysis(batch.files.filter((_, index) => batch.statuses[index] === 'failed'), state.data, [], analysisBatch);
+  };
+
   const handleFileSelect = (files: File[]) => {
     setQueuedFiles((prev) => [...prev, ...files]);
   };
@@ -89,11 +265,74 @@ const HomePage: React.FC<HomePageProps> = ({
     setQueuedFiles((prev) => prev.filter((_, index) => index !== indexToRemove));
   };
 
-  const handleStartProcessing = () => {
+  const handleStartProcessing = async () => {
     if (queuedFiles.length === 0) return;
+    if (!isOnline && userId) {
+      // Sent automatically when the connection returns. A tab opened offline has no vault key
+      // yet, so the files then stay in the queue.
+      try {
+        await Promise.all(queuedFiles.map((file) => offlineVault.addPendingUpload(userId, file)));
+        setQueuedFiles([]);
+      } catch (error) {
+        console.warn('Offline captures not stored, kept in the queue:', error);
+      }
+      refreshPendingCount();
+      return;
+    }
     processAnalysis(queuedFiles, null);
   };
 
+  const handleCaptureOffline = useCallback((file: File) => {
+    if (!userId) {
+      setQueuedFiles((prev) => [...prev, file]);
+      return;
+    }
+    offlineVault.addPendingUpload(userId, file)
+      .then(refreshPendingCount)
+      .catch((error) => {
+        console.warn('Offline capture not stored, kept in the queue:', error);
+        setQueuedFiles((prev) => [...prev, file]);
+      });
+  }, [userId, refreshPendingCount]);
+
+  // Back online: offline captures are analyzed and join whatever is on screen
+  useEffect(() => {
+    if (!userId || !isOnline || pendingCount === 0 || syncBlocked || isSyncingRef.current) return;
+    if (state.status !== 'success' && !(state.status === 'idle' && queuedFiles.length === 0)) return;
+    if (quota && !usageService.hasCreditsLeft(quota)) {
+      setSyncBlocked(true);
+      return;
+    }
+
+    isSyncingRef.current = true;
+    offlineVault.getPendingUploads(userId)
+      .then(({ ids, files }) => {
+        // One group within the plan's file limit at a time; the next goes once these leave the vault
+        const size = quota?.maxFilesPerAnalysis ?? files.length;
+        return files.length > 0 ? processAnalysis(files.slice(0, size), state.data, ids.slice(0, size)) : undefined;
+      })
+      .catch((error) => console.warn('Pending uploads not synced:', error))
+      .finally(() => { isSyncingRef.current = false; });
+  }, [userId, isOnline, pendingCount, syncBlocked, quota, state.status, queuedFiles.length]);
+
+  useEffect(() => {
+    setSyncBlocked(false);
+  }, [userId]);
+
+  const handleOpenSession = (stored: StoredSession) => {
+    sessionIdRef.current = stored.id;
+    setQueuedFiles([]);
+    setBatch(null);
+    setRetryInput(null);
+    setState({ status: 'success', data: stored.exams });
+  };
+
+  const handleDeleteSession = (id: string) => {
+    offlineVault.deleteSession(id)
+      .then(refreshRecentSessions)
+      .catch((error) => console.warn('Stored analysis not deleted:', error));
+  };
+
   const handleAddFilesFromResult = async (files: File[]) => {
     if (state.data) {
       await processAnalysis(files, state.data);
@@ -114,9 +353,37 @@ const HomePage: React.FC<HomePageProps> = ({
     });
   }, []);
 
+  const updateExam = useCallback((examId: string, update: (exam: AnalyzedExam) => AnalyzedExam) => {
+    setState((prev) => prev.data
+      ? { ...prev, data: prev.data.map((exam) => exam.id === examId ? update(exam) : exam) }
+      : prev
+    );
+  }, []);
+
+  // `null` removes the result; any patch (empty = "confirmar") marks it reviewed
+  const handleEditResult = useCallback((examId: string, index: number, patch: ResultPatch | null) => {
+    updateExam(examId, (exam) => patch === null ? removeResult(exam, index) : editResult(exam, index, patch, criticalThresholds));
+  }, [updateExam, criticalThresholds]);
+
+  const handleEditNonLab = useCallback((examId: string, patch: Partial<NonLabData>) => {
+    updateExam(examId, (exam) => editNonLabData(exam, patch));
+  }, [updateExam]);
+
+  // Manual fixes when the automatic patient matching got it wrong
+  const handleMergeCards = useCallback((sourceIds: string[], targetIds: string[]) => {
+    setState((prev) => prev.data ? { ...prev, data: mergeCards(prev.data, sourceIds, targetIds) } : prev);
+  }, []);
+
+  const handleSplitCard = useCallback((examIds: string[]) => {
+    setState((prev) => prev.data ? { ...prev, data: splitCards(prev.data, examIds) } : prev);
+  }, []);
+
   const handleReset = useCallback(() => {
     setState({ status: 'idle', data: null });
     setQueuedFiles([]);
+    setBatch(null);
+    setRetryInput(null);
+    sessionIdRef.current = crypto.randomUUID();
   }, []);
 
   return (
@@ -133,6 +400,25 @@ const HomePage: React.FC<HomePageProps> = ({
           </button>
 
           <div className="flex items-center gap-3 md:gap-4">
+            {isOnline && syncBlocked && pendingCount > 0 ? (
+              <button
+                onClick={() => setSyncBlocked(false)}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-red-500/10 border border-red-500/30 text-red-300 text-xs font-semibold hover:bg-red-500/20"
+                title="Limite do plano atingido: as fotos continuam guardadas neste aparelho. Clique para tentar enviar de novo."
+              >
+                <CloudOff size={14} />
+                Envio pausado · {pendingCount} pendente{pendingCount > 1 ? 's' : ''}
+              </button>
+            ) : (!isOnline || pendingCount > 0) && (
+              <span
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-amber-500/10 border border-amber-500/30 text-amber-300 text-xs font-semibold"
+                title={isOnline ? 'Enviando fotos tiradas sem conexão' : 'As fotos tiradas agora serão enviadas quando a conexão voltar'}
+              >
+                {isOnline ? <CloudUpload size={14} /> : <CloudOff size={14} />}
+                {isOnline ? 'Sincronizando' : 'Offline'}
+                {pendingCount > 0 && ` · ${pendingCount} pendente${pendingCount > 1 ? 's' : ''}`}
+              </span>
+            )}
             <UserMenu
               userName={userProfile?.full_name || null}
               userEmail={session?.user?.email || ''}
@@ -220,58 +506,57 @@ const HomePage: React.FC<HomePageProps> = ({
               onAudioSubmit={handleAudioSubmit}
               preferences={preferences}
               onUpdatePreferences={setPreferences}
+              maxFiles={quota?.maxFilesPerAnalysis ?? null}
+              queuedCount={queuedFiles.length}
+              onLimitReached={setUpgradeMessage}
+              onCaptureOffline={userId ? handleCaptureOffline : undefined}
             />
 
             {/* File Queue List */}
             {queuedFiles.length > 0 && (
-              <div className="w-full max-w-2xl bg-surface rounded-2xl border border-border overflow-hidden animate-fade-in-up">
-                <div className="bg-surfaceHighlight px-4 py-3 border-b border-border flex justify-between items-center">
-                  <span className="text-sm font-semibold text-slate-300">
-                    Arquivos Selecionados ({queuedFiles.length})
-                  </span>
-                  <button
-                    onClick={() => setQueuedFiles([])}
-                    className="text-xs text-red-400 hover:text-red-300 hover:underline"
-                  >
-                    Limpar tudo
-                  </button>
+              <FileQueue
+                title={<>
+                  Arquivos Selecionados ({queuedFiles.length}
+                  {quota?.maxFilesPerAnalysis != null && ` de ${quota.maxFilesPerAnalysis}`})
+                </>}
+                files={queuedFiles}
+                onRemove={handleRemoveFile}
+                onClear={() => setQueuedFiles([])}
+                onStart={handleStartProcessing}
+              />
+            )}
+
+            {/* Recent analyses, stored on this device (available offline) */}
+            {queuedFiles.length === 0 && recentSessions.length > 0 && (
+              <div className="w-full max-w-2xl bg-surface rounded-2xl border border-border overflow-hidden text-left">
+                <div className="bg-surfaceHighlight px-4 py-3 border-b border-border flex items-center gap-2 text-sm font-semibold text-slate-300">
+                  <History size={16} />
+                  Análises recentes neste aparelho
                 </div>
                 <div className="max-h-60 overflow-y-auto p-2 space-y-2">
-                  {queuedFiles.map((file, idx) => (
+                  {recentSessions.map((stored) => (
                     <div
-                      key={idx}
-                      className="flex items-center justify-between p-3 bg-background rounded-lg border border-border group hover:border-brand-start/30 transition-colors"
+                      key={stored.id}
+                      className="flex items-center justify-between p-3 bg-background rounded-lg border border-border hover:border-brand-start/30 transition-colors"
                     >
-                      <div className="flex items-center gap-3 overflow-hidden">
-                        <div className="p-2 bg-slate-800 rounded-lg text-slate-400">
-                          <FileIcon size={18} />
-                        </div>
-                        <div className="flex flex-col text-left overflow-hidden">
-                          <span className="text-sm font-medium text-slate-200 truncate max-w-[200px] sm:max-w-xs">
-                            {file.name}
-                          </span>
-                          <span className="text-xs text-slate-500">{(file.size / 1024).toFixed(0)} KB</span>
-                        </div>
-                      </div>
+                      <button onClick={() => handleOpenSession(stored)} className="flex flex-col text-left overflow-hidden flex-grow">
+                        <span className="text-sm font-medium text-slate-200 truncate">
+                          {[...new Set(stored.exams.map((exam) => exam.patientInitials))].join(', ')}
+                        </span>
+                        <span className="text-xs text-slate-500">
+                          {stored.exams.length} exame{stored.exams.length > 1 ? 's' : ''} · {new Date(stored.savedAt).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}
+                        </span>
+                      </button>
                       <button
-                        onClick={() => handleRemoveFile(idx)}
+                        onClick={() => handleDeleteSession(stored.id)}
                         className="p-2 text-slate-500 hover:text-red-500 hover:bg-red-500/10 rounded-lg transition-colors"
-                        title="Remover arquivo"
+                        title="Apagar deste aparelho"
                       >
                         <Trash2 size={16} />
                       </button>
                     </div>
                   ))}
                 </div>
-                <div className="p-4 bg-surfaceHighlight/50 border-t border-border">
-                  <button
-                    onClick={handleStartProcessing}
-                    className="w-full py-4 bg-gradient-to-r from-brand-start to-brand-end hover:from-brand-600 hover:to-brand-700 text-white rounded-xl font-bold text-lg shadow-lg shadow-brand-start/20 hover:shadow-brand-start/40 transform hover:scale-[1.02] active:scale-[0.98] transition-all flex items-center justify-center gap-3"
-                  >
-                    <Play size={24} fill="currentColor" />
-                    Organizar Exames Agora
-                  </button>
-                </div>
               </div>
             )}
           </div>
@@ -289,35 +574,75 @@ const HomePage: React.FC<HomePageProps> = ({
                 {state.data ? 'Adicionando novos exames à lista...' : 'Extraindo dados, verificando idade, organizando datas...'}
               </p>
             </div>
+            {batch && batch.files.length > 1 && (
+              <FileQueue title="Processando arquivos" files={batch.files} statuses={batch.statuses} />
+            )}
           </div>
         )}
 
         {state.status === 'success' && state.data && (
           <Suspense fallback={<div className="h-96 w-full animate-pulse bg-surface rounded-2xl" />}>
             <div className="relative z-10 w-full">
+              {batch && (
+                <div className="flex justify-center mb-6">
+                  <FileQueue
+                    title="Alguns arquivos não foram processados"
+                    files={batch.files}
+                    statuses={batch.statuses}
+                    errors={batch.errors}
+                    onRetry={handleRetryFailedFiles}
+                    onClose={() => setBatch(null)}
+                  />
+                </div>
+              )}
               <ResultDisplay
                 data={state.data}
                 onReset={handleReset}
                 onAddFiles={handleAddFilesFromResult}
                 onRemoveExam={handleRemoveExam}
+                onEditResult={handleEditResult}
+                onEditNonLab={handleEditNonLab}
+                onMergeCards={handleMergeCards}
+                onSplitCard={handleSplitCard}
+                userId={session?.user?.id}
+                preferences={preferences}
+                unitSystem={unitSystem}
+                outputTemplate={outputTemplate}
+                labCategories={labCategories}
               />
             </div>
           </Suspense>
         )}
 
         {state.status === 'error' && (
-          <div className="max-w-md w-full bg-surface p-8 rounded-2xl shadow-xl border border-red-500/30 text-center space-y-4 relative z-10">
-            <div className="w-16 h-16 bg-red-900/20 rounded-full flex items-center justify-center mx-auto text-red-500 mb-4 border border-red-500/20">
-              <FileText size={32} />
+          <div className="flex flex-col items-center gap-6 w-full relative z-10">
+            <div className="max-w-md w-full bg-surface p-8 rounded-2xl shadow-xl border border-red-500/30 text-center space-y-4">
+              <div className="w-16 h-16 bg-red-900/20 rounded-full flex items-center justify-center mx-auto text-red-500 mb-4 border border-red-500/20">
+                <FileText size={32} />
+              </div>
+              <h3 className="text-xl font-bold text-white">
+                {state.error ? ANALYSIS_ERROR_TITLES[state.error.code] : 'Não foi possível ler o exame'}
+              </h3>
+              <p className="text-slate-400">{state.error?.message || 'Ocorreu um erro desconhecido ao processar o exame.'}</p>
+              {retryInput && (
+                <button
+                  onClick={handleRetry}
+                  className="mt-6 w-full py-3 bg-white text-black rounded-xl font-bold hover:bg-slate-200 transition-colors flex items-center justify-center gap-2"
+                >
+                  <RotateCcw size={18} />
+                  Tentar Novamente
+                </button>
+              )}
+              <button
+                onClick={() => state.data ? setState({ status: 'success', data: state.data }) : handleReset()}
+                className="w-full py-3 text-slate-300 hover:text-white rounded-xl font-semibold hover:bg-white/5 transition-colors"
+              >
+                {state.data ? 'Voltar aos resultados' : 'Voltar ao início'}
+              </button>
             </div>
-            <h3 className="text-xl font-bold text-white">Não foi possível ler o exame</h3>
-            <p className="text-slate-400">{state.error}</p>
-            <button
-              onClick={handleReset}
-              className="mt-6 w-full py-3 bg-white text-black rounded-xl font-bold hover:bg-slate-200 transition-colors"
-            >
-              Tentar Novamente
-            </button>
+            {batch && batch.files.length > 1 && (
+              <FileQueue title="Arquivos enviados" files={batch.files} statuses={batch.statuses} errors={batch.errors} />
+            )}
           </div>
         )}
       </main>
@@ -329,9 +654,23 @@ const HomePage: React.FC<HomePageProps> = ({
           onClose={() => setIsSettingsOpen(false)}
           abbreviations={customAbbreviations}
           setAbbreviations={setCustomAbbreviations}
+          criticalThresholds={criticalThresholds}
+          setCriticalThresholds={setCriticalThresholds}
+          unitSystem={unitSystem}
+          setUnitSystem={setUnitSystem}
+          outputTemplate={outputTemplate}
+          setOutputTemplate={setOutputTemplate}
+          labCategories={labCategories}
+          setLabCategories={setLabCategories}
+          dictionaries={dictionaries}
+          setDictionaries={setDictionaries}
+          memberships={memberships}
+          activeDictionaries={activeDictionaries}
+          setActiveDictionaries={setActiveDictionaries}
           userId={session?.user?.id}
         />
         <FeedbackModal isOpen={isFeedbackOpen} onClose={() => setIsFeedbackOpen(false)} />
+        <UpgradePrompt message={upgradeMessage} onClose={() => setUpgradeMessage(null)} />
       </Suspense>
 
       {/* Floating Feedback Button */}
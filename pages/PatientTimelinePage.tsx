@@ -0,0 +1,201 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Loader2, LineChart as LineChartIcon, AlertCircle } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
+import { patientService, PatientRecord, PatientLabEntry } from '../services/patientService';
+import { formatIsoDate } from '../services/collectionDate';
+import { abnormalityArrow, isCritical } from '../services/referenceRanges';
+import { parseNumericValue, formatLabValue } from '../services/labValues';
+import Logo from '../components/Logo';
+
+const PatientTimelinePage: React.FC = () => {
+  const navigate = useNavigate();
+  const { patientId } = useParams<{ patientId: string }>();
+  const [patient, setPatient] = useState<PatientRecord | null>(null);
+  const [entries, setEntries] = useState<PatientLabEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [selectedAbbr, setSelectedAbbr] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchTimeline = async () => {
+      if (!patientId) return;
+      const [{ patient, error: patientError }, { entries, error: timelineError }] = await Promise.all([
+        patientService.getPatient(patientId),
+        patientService.getTimeline(patientId),
+      ]);
+      if (patientError || timelineError) {
+        setError((patientError || timelineError)!.message);
+      }
+      setPatient(patient);
+      setEntries(entries);
+      setIsLoading(false);
+    };
+    fetchTimeline();
+  }, [patientId]);
+
+  // Date x analyte matrix
+  const { dates, abbreviations, matrix } = useMemo(() => {
+    const dateSet = new Set<string>();
+    const abbrSet = new Set<string>();
+    const cells: Record<string, Record<string, PatientLabEntry>> = {};
+
+    entries.forEach((entry) => {
+      dateSet.add(entry.collected_on);
+      abbrSet.add(entry.abbreviation);
+      if (!cells[entry.abbreviation]) cells[entry.abbreviation] = {};
+      cells[entry.abbreviation][entry.collected_on] = entry;
+    });
+
+    return {
+      dates: Array.from(dateSet).sort(),
+      abbreviations: Array.from(abbrSet),
+      matrix: cells,
+    };
+  }, [entries]);
+
+  const chartData = selectedAbbr
+    ? dates
+        .filter((date) => matrix[selectedAbbr]?.[date])
+        .map((date) => ({
+          date: formatIsoDate(date),
+          value: parseNumericValue(matrix[selectedAbbr][date].value),
+          displayValue: formatLabValue(matrix[selectedAbbr][date].value),
+        }))
+        .filter((point) => point.value !== null)
+    : [];
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="w-8 h-8 animate-spin text-brand-start" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col font-sans bg-background text-slate-100">
+      {/* Header */}
+      <header className="sticky top-0 z-50 bg-surface/80 backdrop-blur-md border-b border-border shadow-lg">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-20 flex items-center justify-between">
+          <button
+            onClick={() => navigate('/')}
+            className="hover:opacity-80 transition-opacity focus:outline-none focus:ring-2 focus:ring-brand-start rounded-xl p-1 -ml-1"
+            title="Voltar ao início"
+          >
+            <Logo />
+          </button>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="flex-grow flex flex-col items-center p-4 sm:p-6 lg:p-8 relative overflow-hidden">
+        {/* Background Ambient Glow */}
+        <div className="absolute top-[-20%] left-[-10%] w-[50%] h-[50%] bg-brand-start/10 blur-[120px] rounded-full pointer-events-none"></div>
+        <div className="absolute bottom-[-20%] right-[-10%] w-[50%] h-[50%] bg-brand-end/10 blur-[120px] rounded-full pointer-events-none"></div>
+
+        <div className="w-full max-w-5xl relative z-10">
+          {/* Back Button */}
+          <button
+            onClick={() => navigate('/patients')}
+            className="flex items-center gap-2 text-slate-400 hover:text-white transition-colors mb-6"
+          >
+            <ArrowLeft size={18} />
+            <span className="text-sm font-medium">Pacientes</span>
+          </button>
+
+          {/* Page Title */}
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-white">{patient?.pseudonym || 'Paciente'}</h1>
+            <p className="text-slate-400 mt-2">
+              {patient?.initials}{patient?.age ? ` • ${patient.age}` : ''} • {dates.length} {dates.length === 1 ? 'coleta' : 'coletas'}
+            </p>
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 text-red-400 text-sm bg-red-500/10 border border-red-500/20 rounded-lg px-4 py-3 mb-6">
+              <AlertCircle size={16} />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {entries.length === 0 ? (
+            <div className="text-center py-12 border border-dashed border-border rounded-2xl bg-surfaceHighlight/30 text-slate-500 text-sm">
+              Nenhum resultado salvo para este paciente.
+            </div>
+          ) : (
+            <>
+              {/* Trend Chart */}
+              {selectedAbbr && (
+                <div className="bg-surface/50 backdrop-blur-xl border border-border rounded-2xl p-6 mb-6 animate-fade-in">
+                  <label className="flex items-center gap-2 text-xs font-semibold text-brand-start uppercase tracking-wider mb-4">
+                    <LineChartIcon size={14} /> Tendência: {selectedAbbr}
+                  </label>
+                  {chartData.length > 0 ? (
+                    <ResponsiveContainer width="100%" height={260}>
+                      <LineChart data={chartData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                        <CartesianGrid stroke="#1e293b" strokeDasharray="3 3" />
+                        <XAxis dataKey="date" tick={{ fill: '#64748b', fontSize: 11 }} axisLine={{ stroke: '#334155' }} />
+                        <YAxis tick={{ fill: '#64748b', fontSize: 11 }} axisLine={{ stroke: '#334155' }} />
+                        <Tooltip
+                          contentStyle={{ background: '#0f172a', border: '1px solid #334155', borderRadius: 8 }}
+                          formatter={(_value, _name, item) => [item.payload.displayValue, selectedAbbr]}
+                        />
+                        <Line type="monotone" dataKey="value" stroke="#6366f1" strokeWidth={2} dot={{ r: 4, fill: '#6366f1' }} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  ) : (
+                    <p className="text-slate-500 text-sm">Valores não numéricos para este exame.</p>
+                  )}
+                </div>
+              )}
+
+              {/* Timeline Matrix */}
+              <div className="bg-surface/50 backdrop-blur-xl border border-border rounded-2xl overflow-x-auto custom-scrollbar">
+                <table className="w-full text-sm font-mono">
+                  <thead>
+                    <tr className="bg-surfaceHighlight/50 text-slate-400 text-xs">
+                      <th className="text-left px-4 py-3 sticky left-0 bg-surfaceHighlight">Exame</th>
+                      {dates.map((date) => (
+                        <th key={date} className="px-4 py-3 whitespace-nowrap">{formatIsoDate(date)}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {abbreviations.map((abbr) => (
+                      <tr
+                        key={abbr}
+                        onClick={() => setSelectedAbbr(abbr)}
+                        className={`cursor-pointer transition-colors ${selectedAbbr === abbr ? 'bg-brand-start/10' : 'hover:bg-surfaceHighlight/30'}`}
+                      >
+                        <td className="px-4 py-2 font-bold text-slate-200 sticky left-0 bg-surface">{abbr}</td>
+                        {dates.map((date) => {
+                          const cell = matrix[abbr]?.[date];
+                          return (
+                            <td
+                              key={date}
+                              className={`px-4 py-2 text-center whitespace-nowrap ${
+                                !cell || cell.abnormality === 'NORMAL' ? 'text-slate-300' :
+                                isCritical(cell.abnormality) ? 'text-fuchsia-400 font-bold' :
+                                cell.abnormality === 'HIGH' ? 'text-red-400' : 'text-blue-400'
+                              }`}
+                              title={cell ? [cell.unit, cell.reference_range && `Ref: ${cell.reference_range}`].filter(Boolean).join(' · ') || undefined : undefined}
+                            >
+                              {cell ? `${formatLabValue(cell.value)}${cell.abnormality !== 'NORMAL' ? ` ${abnormalityArrow(cell.abnormality)}` : ''}` : '-'}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default PatientTimelinePage;
@@ -0,0 +1,150 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Loader2, Users, ChevronRight, Search, Trash2 } from 'lucide-react';
+import { patientService, PatientRecord } from '../services/patientService';
+import Logo from '../components/Logo';
+
+interface PatientsPageProps {
+  session: { user: { id: string; email: string } } | null;
+}
+
+const PatientsPage: React.FC<PatientsPageProps> = ({ session }) => {
+  const navigate = useNavigate();
+  const [patients, setPatients] = useState<PatientRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    const fetchPatients = async () => {
+      if (session?.user?.id) {
+        const { patients, error } = await patientService.listPatients(session.user.id);
+        if (error) setError(error.message);
+        setPatients(patients);
+      }
+      setIsLoading(false);
+    };
+    fetchPatients();
+  }, [session]);
+
+  const handleDelete = async (patient: PatientRecord) => {
+    if (!window.confirm(`Excluir ${patient.pseudonym} e toda a sua linha do tempo?`)) return;
+    const { error } = await patientService.deletePatient(patient.id);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setPatients((prev) => prev.filter((p) => p.id !== patient.id));
+  };
+
+  const term = search.trim().toUpperCase();
+  const filteredPatients = term
+    ? patients.filter((p) => p.pseudonym.includes(term) || p.initials.toUpperCase().includes(term))
+    : patients;
+
+  return (
+    <div className="min-h-screen flex flex-col font-sans bg-background text-slate-100">
+      {/* Header */}
+      <header className="sticky top-0 z-50 bg-surface/80 backdrop-blur-md border-b border-border shadow-lg">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-20 flex items-center justify-between">
+          <button
+            onClick={() => navigate('/')}
+            className="hover:opacity-80 transition-opacity focus:outline-none focus:ring-2 focus:ring-brand-start rounded-xl p-1 -ml-1"
+            title="Voltar ao início"
+          >
+            <Logo />
+          </button>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="flex-grow flex flex-col items-center p-4 sm:p-6 lg:p-8 relative overflow-hidden">
+        {/* Background Ambient Glow */}
+        <div className="absolute top-[-20%] left-[-10%] w-[50%] h-[50%] bg-brand-start/10 blur-[120px] rounded-full pointer-events-none"></div>
+        <div className="absolute bottom-[-20%] right-[-10%] w-[50%] h-[50%] bg-brand-end/10 blur-[120px] rounded-full pointer-events-none"></div>
+
+        <div className="w-full max-w-2xl relative z-10">
+          {/* Back Button */}
+          <button
+            onClick={() => navigate('/')}
+            className="flex items-center gap-2 text-slate-400 hover:text-white transition-colors mb-6"
+          >
+            <ArrowLeft size={18} />
+            <span className="text-sm font-medium">Voltar</span>
+          </button>
+
+          {/* Page Title */}
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-white">Pacientes</h1>
+            <p className="text-slate-400 mt-2">Evolução laboratorial acumulada entre consultas</p>
+          </div>
+
+          <div className="bg-surface/50 backdrop-blur-xl border border-border rounded-2xl overflow-hidden">
+            <div className="p-4 border-b border-border">
+              <div className="relative group">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none text-slate-500 group-focus-within:text-brand-start transition-colors">
+                  <Search size={18} />
+                </div>
+                <input
+                  type="text"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="w-full bg-background/50 border border-border focus:ring-brand-start/20 focus:border-brand-start rounded-xl py-3 pl-10 pr-4 text-slate-200 placeholder-slate-600 focus:outline-none focus:ring-4 transition-all"
+                  placeholder="Buscar por identificador ou iniciais"
+                />
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-brand-start" />
+              </div>
+            ) : filteredPatients.length === 0 ? (
+              <div className="flex flex-col items-center gap-3 py-12 text-slate-500 text-sm">
+                <Users size={32} />
+                {patients.length === 0
+                  ? 'Nenhum paciente salvo. Use "Salvar" em um resultado para começar.'
+                  : 'Nenhum paciente encontrado.'}
+              </div>
+            ) : (
+              <div className="divide-y divide-border">
+                {filteredPatients.map((patient) => (
+                  <div key={patient.id} className="flex items-center hover:bg-surfaceHighlight/50 transition-colors group">
+                    <button
+                      onClick={() => navigate(`/patients/${patient.id}`)}
+                      className="flex-grow flex items-center gap-4 px-5 py-4 text-left"
+                    >
+                      <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-brand-start to-brand-end flex items-center justify-center text-white font-bold text-sm shadow-lg shrink-0">
+                        {patient.initials.substring(0, 2)}
+                      </div>
+                      <div className="flex-grow overflow-hidden">
+                        <p className="text-white font-semibold truncate">{patient.pseudonym}</p>
+                        <p className="text-slate-500 text-xs">
+                          {patient.initials}{patient.age ? ` • ${patient.age}` : ''}
+                        </p>
+                      </div>
+                      <ChevronRight size={18} className="text-slate-500 group-hover:text-brand-start transition-colors" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(patient)}
+                      className="p-2 mr-3 text-slate-600 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors"
+                      title="Excluir paciente"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <p className="mt-4 text-sm text-red-400">{error}</p>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default PatientsPage;
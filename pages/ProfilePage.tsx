@@ -3,22 +3,19 @@ import { useNavigate } from 'react-router-dom';
 import { ArrowLeft, User, Mail, Camera, Loader2, CheckCircle2, AlertCircle, Crown, Zap, ExternalLink, CreditCard, Infinity } from 'lucide-react';
 import { authService, UserProfile } from '../services/authService';
 import { stripeService, PlanType } from '../services/stripeService';
+import { usageService } from '../services/usageService';
 import Logo from '../components/Logo';
 
 interface ProfilePageProps {
   session: { user: { id: string; email: string } } | null;
   userProfile: UserProfile | null;
   onProfileUpdate: (profile: UserProfile) => void;
-  creditsUsed?: number;
-  creditsTotal?: number;
 }
 
 const ProfilePage: React.FC<ProfilePageProps> = ({ 
   session, 
   userProfile, 
   onProfileUpdate,
-  creditsUsed = 3,
-  creditsTotal = 5
 }) => {
   const navigate = useNavigate();
   const [fullName, setFullName] = useState(userProfile?.full_name || '');
@@ -28,6 +25,8 @@ const ProfilePage: React.FC<ProfilePageProps> = ({
   const [currentPlan, setCurrentPlan] = useState<PlanType>('free');
   const [isLoadingPlan, setIsLoadingPlan] = useState(true);
   const [isManagingSubscription, setIsManagingSubscription] = useState(false);
+  const [creditsUsed, setCreditsUsed] = useState(0);
+  const [creditsTotal, setCreditsTotal] = useState<number | null>(null);
 
   const planInfo = {
     free: { name: 'Gratuito', color: 'slate', icon: Zap },
@@ -36,7 +35,7 @@ const ProfilePage: React.FC<ProfilePageProps> = ({
   };
 
   const plan = planInfo[currentPlan];
-  const creditsPercentage = (creditsUsed / creditsTotal) * 100;
+  const creditsPercentage = creditsTotal ? Math.min((creditsUsed / creditsTotal) * 100, 100) : 0;
 
   const handleManageSubscription = async () => {
     setIsManagingSubscription(true);
@@ -60,8 +59,10 @@ const ProfilePage: React.FC<ProfilePageProps> = ({
     const fetchPlan = async () => {
       if (session?.user?.id) {
         try {
-          const plan = await stripeService.getCurrentPlan(session.user.id);
-          setCurrentPlan(plan);
+          const quota = await usageService.getQuota(session.user.id);
+          setCurrentPlan(quota.plan);
+          setCreditsUsed(quota.used);
+          setCreditsTotal(quota.limit);
         } catch (error) {
           console.error('Error fetching plan:', error);
         }
@@ -290,7 +291,11 @@ const ProfilePage: React.FC<ProfilePageProps> = ({
                       style={{ width: `${creditsPercentage}%` }}
                     />
                   </div>
-                  <p className="text-xs text-slate-500">Renova no início de cada mês</p>
+                  <p className="text-xs text-slate-500">
+                    {creditsTotal !== null && creditsUsed >= creditsTotal
+                      ? 'Créditos esgotados. Renova no início do próximo mês'
+                      : 'Renova no início de cada mês'}
+                  </p>
                 </div>
               ) : (
                 <div className="flex items-center gap-3 p-4 bg-brand-start/10 border border-brand-start/20 rounded-xl">
@@ -0,0 +1,98 @@
+// Service worker: keeps the app shell available offline. Bump VERSION when this file changes.
+// Analyses and uploads never go through the cache (see services/offlineVault.ts for those).
+const VERSION = 'v1';
+const SHELL_CACHE = `izi-lab-shell-${VERSION}`;
+const RUNTIME_CACHE = `izi-lab-runtime-${VERSION}`;
+
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icon.svg'];
+
+// Tailwind, fonts and the import map's modules load from these at runtime
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'esm.sh'];
+
+// Hashed bundles listed in Vite's build manifest (build.manifest in vite.config.ts)
+const builtAssets = async () => {
+  try {
+    const response = await fetch('/asset-manifest.json', { cache: 'no-store' });
+    if (!response.ok) return [];
+    const manifest = await response.json();
+    const files = new Set();
+    Object.values(manifest).forEach((chunk) => {
+      files.add(`/${chunk.file}`);
+      (chunk.css || []).forEach((file) => files.add(`/${file}`));
+    });
+    return [...files];
+  } catch {
+    return [];
+  }
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.addAll([...SHELL_URLS, ...(await builtAssets())]);
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const keep = [SHELL_CACHE, RUNTIME_CACHE];
+      const keys = await caches.keys();
+      await Promise.all(keys.filter((key) => !keep.includes(key)).map((key) => caches.delete(key)));
+      await self.clients.claim();
+    })()
+  );
+});
+
+const putInCache = async (cacheName, request, response) => {
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // Every route is the SPA: fresh when online, the cached shell otherwise
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => putInCache(SHELL_CACHE, '/', response))
+        .catch(async () => (await caches.match('/')) || Response.error())
+    );
+    return;
+  }
+
+  // Hashed file names never change content
+  if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+    event.respondWith(
+      caches.match(request).then((cached) => cached || fetch(request).then((response) => putInCache(RUNTIME_CACHE, request, response)))
+    );
+    return;
+  }
+
+  if (url.origin === self.location.origin && SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(caches.match(request).then((cached) => cached || fetch(request)));
+    return;
+  }
+
+  // CDN: serve what we have, refresh in the background. Supabase and the AI APIs are not listed,
+  // so patient data is never cached by the worker.
+  if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(
+      caches.match(request).then((cached) => {
+        const refresh = fetch(request)
+          .then((response) => putInCache(RUNTIME_CACHE, request, response))
+          .catch(() => cached || Response.error());
+        return cached || refresh;
+      })
+    );
+  }
+});
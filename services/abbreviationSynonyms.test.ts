@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { createAbbreviationNormalizer } from './abbreviationSynonyms';
+
+describe('createAbbreviationNormalizer', () => {
+  const normalize = createAbbreviationNormalizer();
+
+  it('folds spellings of one analyte', () => {
+    expect(normalize('Creat')).toBe('Cr');
+    expect(normalize('Col T')).toBe('Col-T');
+    expect(normalize('ColT')).toBe('Col-T');
+    expect(normalize('Leuco-U')).toBe('Leuco U');
+  });
+
+  it('keeps bilirubin fractions apart from "Bili"', () => {
+    expect(normalize('Bil-I')).toBe('Bil-I');
+    expect(normalize('Bil I')).toBe('Bil-I');
+    expect(normalize('bil-t')).toBe('Bil-T');
+    expect(normalize('Bili')).toBe('Bili');
+    expect(normalize('Bili U')).toBe('Bili U');
+  });
+
+  it('lets the user abbreviation win', () => {
+    const custom = createAbbreviationNormalizer([{ id: 'cr', examName: 'Creatinina', abbreviation: 'Creat' }]);
+    expect(custom('Cr')).toBe('Creat');
+    expect(custom('Bili')).toBe('Bili');
+  });
+});
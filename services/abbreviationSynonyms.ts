@@ -0,0 +1,99 @@
+import { AnalyzedExam, CustomAbbreviation, COMMON_ABBREVIATIONS } from '../types';
+import { SYSTEM_CATEGORIES } from './labCategories';
+import { abbreviationKey } from './labValues';
+import { createAnalyteResolver, normalizeName } from './labParsers/common';
+
+// Abbreviations the system prompt tells the model to use, on top of the category map
+export const PROMPT_ABBREVIATIONS = [
+  'Neutro', 'Bast', 'Segmentados', 'Eosi', 'Baso', 'Linfo', 'Plaq',
+  'P/CrU', 'Fk', 'Srl', 'Csa', 'Evr',
+];
+
+// The prompt's urine rule: "Leuco U", "Glic U"; categories spell it "Leuco-U"
+const URINE_SUFFIX = /[-\s]+U$/i;
+
+// "Col T", "Col.T" and "Col-T" are one spelling
+const spacedKey = (abbreviation: string): string => abbreviationKey(abbreviation).replace(/[-\s.]+/g, '-');
+
+// "ColT" too, usually: without separators
+const compactKey = (abbreviation: string): string => abbreviationKey(abbreviation).replace(/[-\s.]/g, '');
+
+// Where the separator tells analytes apart: "Bil-I" is indirect bilirubin, "Bili" (total
+// bilirubin to most) is not. These only match with a separator.
+const SEPARATOR_MATTERS = new Set(['Bil-T', 'Bil-D', 'Bil-I'].map(compactKey));
+
+const register = (map: Map<string, string>, abbreviation: string, value: string, overwrite = true) => {
+  const keys = [spacedKey(abbreviation), compactKey(abbreviation)];
+  if (SEPARATOR_MATTERS.has(keys[1])) keys.pop();
+  keys.forEach(key => {
+    if (overwrite || !map.has(key)) map.set(key, value);
+  });
+};
+
+const lookup = (map: Map<string, string>, text: string): string | undefined =>
+  map.get(spacedKey(text)) ?? (SEPARATOR_MATTERS.has(compactKey(text)) ? undefined : map.get(compactKey(text)));
+
+/**
+ * Preferred spelling per key: the shared constants and the prompt's rules first, then the
+ * category map. Aliases in abbreviationKey already fold "Plaq" into "Plq", so the prompt's
+ * "Plaq" itself ends on the shared constant.
+ */
+const CANONICAL = new Map<string, string>();
+[
+  ...Object.values(COMMON_ABBREVIATIONS),
+  ...PROMPT_ABBREVIATIONS,
+  ...Object.values(SYSTEM_CATEGORIES).flat().filter(abbreviation => !URINE_SUFFIX.test(abbreviation)),
+].forEach(abbreviation => register(CANONICAL, abbreviation, abbreviation, false));
+
+const resolvePrintedName = createAnalyteResolver();
+
+// Built-in spelling for an abbreviation or exam name the model wrote; null when unknown
+const builtinAbbreviation = (text: string): string | null =>
+  lookup(CANONICAL, text) ?? resolvePrintedName(text);
+
+export type AbbreviationNormalizer = (abbreviation: string) => string;
+
+/**
+ * Maps whatever the model wrote ("Creat", "CR", "Creatinina", "Leuco-U") to one abbreviation,
+ * so the same analyte reads the same whatever the model's mood. The user's abbreviations win:
+ * their exam name, their abbreviation in any casing, and the built-in abbreviation of that exam.
+ * Anything unknown is left as written.
+ */
+export const createAbbreviationNormalizer = (customAbbreviations: CustomAbbreviation[] = []): AbbreviationNormalizer => {
+  const custom = new Map<string, string>();
+  customAbbreviations.forEach(({ examName, abbreviation }) => {
+    const builtin = builtinAbbreviation(examName);
+    if (builtin) register(custom, builtin, abbreviation);
+    custom.set(normalizeName(examName), abbreviation);
+    register(custom, abbreviation, abbreviation);
+  });
+
+  const resolve = (text: string): string | null => {
+    const own = lookup(custom, text) ?? custom.get(normalizeName(text));
+    if (own) return own;
+    const builtin = builtinAbbreviation(text);
+    return builtin ? lookup(custom, builtin) ?? builtin : null;
+  };
+
+  return (abbreviation: string) => {
+    const text = abbreviation.trim();
+    const whole = resolve(text);
+    if (whole) return whole;
+    if (!URINE_SUFFIX.test(text)) return text;
+    const base = text.replace(URINE_SUFFIX, '');
+    return `${resolve(base) ?? base} U`;
+  };
+};
+
+/** Runs right after the schema pass, so ranges, units and categories all see the same spelling. */
+export const normalizeExamAbbreviations = (exam: AnalyzedExam, normalize: AbbreviationNormalizer): AnalyzedExam => {
+  if (exam.category !== 'LAB') return exam;
+  let changed = false;
+  const results = exam.results.map(item => {
+    const abbreviation = normalize(item.abbreviation);
+    if (abbreviation === item.abbreviation) return item;
+    changed = true;
+    return { ...item, abbreviation };
+  });
+  return changed ? { ...exam, results } : exam;
+};
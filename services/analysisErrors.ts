@@ -0,0 +1,94 @@
+import { AnalysisErrorCode } from '../types';
+import { QuotaExceededError } from './usageService';
+
+// What the doctor can do about each failure; shown as-is on the error screen
+export const ANALYSIS_ERROR_MESSAGES: Record<AnalysisErrorCode, string> = {
+  rate_limited: 'Muitas análises em sequência. Aguarde alguns segundos e tente novamente.',
+  unreadable_document: 'Não foi possível ler o documento. Confira se o arquivo abre normalmente, não tem senha e está legível.',
+  no_patient_detected: 'Nenhum paciente ou exame foi identificado. Confira se o arquivo é um laudo de exame.',
+  schema_violation: 'A resposta da IA veio incompleta. Tente novamente.',
+  network_offline: 'Sem conexão com a internet. Verifique sua rede e tente novamente.',
+  safety_blocked: 'O documento foi bloqueado pelo filtro de segurança da IA. Envie apenas as páginas do exame.',
+  provider_unavailable: 'O serviço de análise está instável no momento. Tente novamente em instantes.',
+  unknown: 'Não foi possível processar o documento. Tente novamente.',
+};
+
+export const ANALYSIS_ERROR_TITLES: Record<AnalysisErrorCode, string> = {
+  rate_limited: 'Limite de requisições atingido',
+  unreadable_document: 'Documento ilegível',
+  no_patient_detected: 'Nenhum exame encontrado',
+  schema_violation: 'Resposta inválida da IA',
+  network_offline: 'Sem conexão',
+  safety_blocked: 'Conteúdo bloqueado',
+  provider_unavailable: 'Serviço indisponível',
+  unknown: 'Não foi possível ler o exame',
+};
+
+// Worth trying again on their own; the rest need the doctor to change something first.
+// A malformed answer is not: the model was paid for, and the doctor's retry button is enough.
+const TRANSIENT_CODES = new Set<AnalysisErrorCode>(['rate_limited', 'network_offline', 'provider_unavailable']);
+
+/** A failed analysis, classified so the UI can say what to do and the pipeline when to retry. */
+export class AnalysisError extends Error {
+  code: AnalysisErrorCode;
+  retryAfterMs?: number; // From the provider's Retry-After, when it sends one
+
+  constructor(code: AnalysisErrorCode, message: string = ANALYSIS_ERROR_MESSAGES[code], retryAfterMs?: number) {
+    super(message);
+    this.name = 'AnalysisError';
+    this.code = code;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get transient(): boolean {
+    return TRANSIENT_CODES.has(this.code);
+  }
+}
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/** Plan limits pass through untouched (they open the upgrade prompt); anything else gets a code. */
+export const toAnalysisError = (error: unknown): AnalysisError | QuotaExceededError => {
+  if (error instanceof AnalysisError || error instanceof QuotaExceededError) return error;
+  // fetch() rejects with a TypeError when the request never reached the server
+  if (isOffline() || (error instanceof TypeError && /fetch|network|load failed/i.test(error.message))) {
+    return new AnalysisError('network_offline');
+  }
+  if (error instanceof SyntaxError) return new AnalysisError('schema_violation');
+  return new AnalysisError('unknown');
+};
+
+/** Maps an HTTP failure from a provider (status plus our edge function's `code`, if any). */
+export const fromHttpError = (status: number, code?: string, retryAfter?: string | null): AnalysisError => {
+  const retryAfterMs = retryAfter && Number.isFinite(Number(retryAfter)) ? Number(retryAfter) * 1000 : undefined;
+  if (status === 429 || code === 'rate_limited') return new AnalysisError('rate_limited', undefined, retryAfterMs);
+  if (code === 'safety_blocked') return new AnalysisError('safety_blocked');
+  if (code === 'unreadable_document' || status === 413) return new AnalysisError('unreadable_document');
+  if (status >= 500) return new AnalysisError('provider_unavailable');
+  return new AnalysisError('unknown');
+};
+
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 20000;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Retries transient failures with exponential backoff (1s, 2s, 4s plus jitter, or the
+ * provider's Retry-After). Every other failure is classified and thrown right away.
+ */
+export const withRetry = async <T>(task: () => Promise<T>, label: string): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (raw) {
+      const error = toAnalysisError(raw);
+      if (!(error instanceof AnalysisError) || !error.transient || attempt >= MAX_ATTEMPTS) throw error;
+
+      const backoff = error.retryAfterMs ?? BASE_DELAY_MS * 2 ** (attempt - 1) + Math.random() * 250;
+      console.warn(`${label} failed (${error.code}, attempt ${attempt}), retrying:`, raw);
+      await wait(Math.min(backoff, MAX_DELAY_MS));
+    }
+  }
+};
@@ -1,6 +1,7 @@
 import { supabase } from './supabaseClient';
 import type { User, Session } from '@supabase/supabase-js';
-import type { CustomAbbreviation } from '../types';
+import type { CustomAbbreviation, CriticalThreshold, UnitSystem, OutputTemplate, LabCategory } from '../types';
+import { normalizeOutputTemplate } from './outputTemplate';
 
 export interface AuthError {
   message: string;
@@ -112,30 +113,53 @@ export const authService = {
     };
   },
 
-  async getCustomizations(userId: string): Promise<{ abbreviations: CustomAbbreviation[]; error: AuthError | null }> {
+  async getCustomizations(userId: string): Promise<{
+    abbreviations: CustomAbbreviation[];
+    criticalThresholds: CriticalThreshold[] | null;
+    unitSystem: UnitSystem | null;
+    outputTemplate: OutputTemplate | null;
+    labCategories: LabCategory[] | null;
+    activeDictionaries: string[];
+    error: AuthError | null;
+  }> {
     const { data, error } = await supabase
       .from('user_customizations')
-      .select('abbreviations')
+      .select('abbreviations, critical_thresholds, unit_system, output_template, lab_categories, active_dictionaries')
       .eq('user_id', userId)
       .maybeSingle();
 
     if (error) {
       console.error('Error fetching customizations:', error);
-      return { abbreviations: [], error: null };
+      return { abbreviations: [], criticalThresholds: null, unitSystem: null, outputTemplate: null, labCategories: null, activeDictionaries: [], error: null };
     }
 
     return {
       abbreviations: data?.abbreviations || [],
+      criticalThresholds: data?.critical_thresholds ?? null,
+      unitSystem: data?.unit_system ?? null,
+      outputTemplate: data?.output_template ? normalizeOutputTemplate(data.output_template) : null,
+      labCategories: data?.lab_categories ?? null,
+      activeDictionaries: data?.active_dictionaries || [],
       error: null,
     };
   },
 
-  async saveCustomizations(userId: string, abbreviations: CustomAbbreviation[]): Promise<{ error: AuthError | null }> {
+  // Settings are optional so saving abbreviations alone leaves them untouched
+  async saveCustomizations(
+    userId: string,
+    abbreviations: CustomAbbreviation[],
+    settings: { criticalThresholds?: CriticalThreshold[]; unitSystem?: UnitSystem; outputTemplate?: OutputTemplate; labCategories?: LabCategory[]; activeDictionaries?: string[] } = {}
+  ): Promise<{ error: AuthError | null }> {
     const { error } = await supabase
       .from('user_customizations')
       .upsert({
         user_id: userId,
         abbreviations,
+        ...(settings.criticalThresholds ? { critical_thresholds: settings.criticalThresholds } : {}),
+        ...(settings.unitSystem ? { unit_system: settings.unitSystem } : {}),
+        ...(settings.outputTemplate ? { output_template: settings.outputTemplate } : {}),
+        ...(settings.labCategories ? { lab_categories: settings.labCategories } : {}),
+        ...(settings.activeDictionaries ? { active_dictionaries: settings.activeDictionaries } : {}),
         updated_at: new Date().toISOString(),
       }, {
         onConflict: 'user_id',
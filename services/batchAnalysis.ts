@@ -0,0 +1,149 @@
+import { AnalyzedExam, AnalysisPreferences, CriticalThreshold, CustomAbbreviation, SourceLocation } from "../types";
+import { analyzeLabExam, startAnalysisBatch } from "./geminiService";
+import type { AnalysisBatch } from "./providers";
+import { scoreExtraction } from "./resultValidation";
+import { QuotaExceededError } from "./usageService";
+import { AnalysisError, toAnalysisError } from "./analysisErrors";
+
+export type FileStatus = 'queued' | 'processing' | 'done' | 'failed';
+
+// One model call per chunk: small enough to stay well inside the request timeout and
+// the model's output budget (long admissions used to come back with patients missing)
+export const BATCH_MAX_FILES = 4;
+export const BATCH_MAX_BYTES = 12 * 1024 * 1024;
+const BATCH_CONCURRENCY = 2;
+
+interface BatchOptions {
+  customAbbreviations: CustomAbbreviation[];
+  preferences: AnalysisPreferences;
+  criticalThresholds: CriticalThreshold[];
+  onStatus: (fileIndex: number, status: FileStatus, error?: AnalysisError | QuotaExceededError) => void;
+  batch?: AnalysisBatch; // Retrying failed files of an upload: its batch, already charged
+}
+
+export interface BatchResult {
+  exams: AnalyzedExam[];
+  failedFiles: number[]; // Positions in the submitted list
+  error: AnalysisError | QuotaExceededError | null; // First failure (a plan limit wins), for the message when nothing came back
+  batch?: AnalysisBatch; // For retrying the failed files under the same credit
+}
+
+/** Splits by file count and total size, keeping upload order; an oversized file goes alone. */
+export const chunkFiles = (files: File[]): number[][] => {
+  const chunks: number[][] = [];
+  let current: number[] = [];
+  let currentBytes = 0;
+
+  files.forEach((file, index) => {
+    if (current.length > 0 && (current.length >= BATCH_MAX_FILES || currentBytes + file.size > BATCH_MAX_BYTES)) {
+      chunks.push(current);
+      current = [];
+      currentBytes = 0;
+    }
+    current.push(index);
+    currentBytes += file.size;
+  });
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+};
+
+// Chunk-relative provenance -> positions in the whole upload, so the viewer keeps working after merging
+const rebaseSource = (source: SourceLocation | undefined, chunk: number[]): SourceLocation | undefined =>
+  source ? { ...source, fileIndex: chunk[source.fileIndex] ?? chunk[0] } : undefined;
+
+const rebaseExam = (exam: AnalyzedExam, chunk: number[], files: File[]): AnalyzedExam => ({
+  ...exam,
+  source: rebaseSource(exam.source, chunk),
+  results: exam.results.map(item => ({ ...item, source: rebaseSource(item.source, chunk) })),
+  sourceFiles: files,
+});
+
+/**
+ * The same patient and collection date can be split across chunks (a panel continued on the
+ * next page); those lab reports are joined back into one exam, as a single call would return.
+ */
+export const mergeBatchExams = (exams: AnalyzedExam[]): AnalyzedExam[] => {
+  const merged: AnalyzedExam[] = [];
+  const byKey = new Map<string, number>();
+
+  exams.forEach(exam => {
+    const key = exam.category === 'LAB' && exam.collectionDate
+      ? `${exam.patientInitials.trim().toUpperCase()}|${exam.collectionDate}`
+      : null;
+    const position = key ? byKey.get(key) : undefined;
+    if (position === undefined) {
+      if (key) byKey.set(key, merged.length);
+      merged.push(exam);
+      return;
+    }
+
+    const target = merged[position];
+    merged[position] = {
+      ...target,
+      patientAge: target.patientAge || exam.patientAge,
+      patientSex: target.patientSex ?? exam.patientSex,
+      results: [...target.results, ...exam.results],
+      rawSummary: [target.rawSummary, exam.rawSummary].filter(Boolean).join(' / '),
+    };
+  });
+
+  return merged;
+};
+
+/**
+ * Runs an upload as several smaller analyses, a few at a time. Transient failures are already
+ * retried inside analyzeLabExam; what reaches here failed for good and is reported per file.
+ * All chunks run under one server-issued batch, so the server still charges a single credit
+ * and holds the whole upload to the plan's file limit.
+ * A plan limit stops the whole batch: the remaining chunks would hit the same wall.
+ */
+export const analyzeInBatches = async (
+  files: File[],
+  { customAbbreviations, preferences, criticalThresholds, onStatus, batch: reusedBatch }: BatchOptions
+): Promise<BatchResult> => {
+  let batch: AnalysisBatch | undefined;
+  try {
+    batch = reusedBatch ?? await startAnalysisBatch(files.length);
+  } catch (raw) {
+    const error = toAnalysisError(raw);
+    files.forEach((_, index) => onStatus(index, 'failed', error));
+    return { exams: [], failedFiles: files.map((_, index) => index), error };
+  }
+
+  const chunks = chunkFiles(files);
+  const chunkExams: AnalyzedExam[][] = chunks.map(() => []);
+  const failedFiles: number[] = [];
+  let firstError: AnalysisError | QuotaExceededError | null = null;
+  let quotaError: QuotaExceededError | null = null;
+  let next = 0;
+
+  const runChunk = async (chunkIndex: number) => {
+    const chunk = chunks[chunkIndex];
+    const fail = (error: AnalysisError | QuotaExceededError) => {
+      firstError ??= error;
+      chunk.forEach(index => onStatus(index, 'failed', error));
+      failedFiles.push(...chunk);
+    };
+    if (quotaError) return fail(quotaError);
+
+    chunk.forEach(index => onStatus(index, 'processing'));
+    try {
+      const exams = await analyzeLabExam(chunk.map(index => files[index]), customAbbreviations, preferences, criticalThresholds, batch?.id);
+      chunkExams[chunkIndex] = exams.map(exam => rebaseExam(exam, chunk, files));
+      chunk.forEach(index => onStatus(index, 'done'));
+    } catch (raw) {
+      const error = toAnalysisError(raw);
+      if (error instanceof QuotaExceededError) quotaError = error;
+      fail(error);
+    }
+  };
+
+  const worker = async () => {
+    while (next < chunks.length) await runChunk(next++);
+  };
+  await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, chunks.length) }, worker));
+
+  // Re-scored after merging so duplicates split across chunks still reach the review queue
+  const exams = scoreExtraction(mergeBatchExams(chunkExams.flat()), customAbbreviations);
+  return { exams, failedFiles: failedFiles.sort((a, b) => a - b), error: quotaError ?? firstError, batch };
+};
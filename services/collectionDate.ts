@@ -0,0 +1,41 @@
+// Collection dates come from the model as "dd/mm" (sometimes "dd/mm/aaaa" or a
+// list of dates), so the year has to be inferred before anything can be sorted.
+
+const DATE_PATTERN = /(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?/;
+
+/**
+ * Converte "dd/mm" ou "dd/mm/aaaa" em Date. Sem ano, assume o ano da referência
+ * e recua um ano se a data cair no futuro (ex: exame de dezembro lido em janeiro).
+ */
+export const resolveCollectionDate = (raw: string | undefined, reference: Date = new Date()): Date | null => {
+  if (!raw) return null;
+
+  const match = raw.match(DATE_PATTERN);
+  if (!match) return null;
+
+  const day = parseInt(match[1], 10);
+  const month = parseInt(match[2], 10) - 1;
+  if (day < 1 || day > 31 || month < 0 || month > 11) return null;
+
+  if (match[3]) {
+    let year = parseInt(match[3], 10);
+    if (year < 100) year += 2000;
+    return new Date(year, month, day);
+  }
+
+  const date = new Date(reference.getFullYear(), month, day);
+  if (date.getTime() > reference.getTime()) {
+    date.setFullYear(date.getFullYear() - 1);
+  }
+  return date;
+};
+
+/** Formata uma Date como "aaaa-mm-dd" (coluna date do Postgres). */
+export const toIsoDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/** Formata "aaaa-mm-dd" como "dd/mm/aa" para exibição. */
+export const formatIsoDate = (iso: string): string => {
+  const [year, month, day] = iso.split('-');
+  return `${day}/${month}/${year.slice(2)}`;
+};
@@ -0,0 +1,243 @@
+import { supabase } from './supabaseClient';
+import type { AuthError } from './authService';
+import type { CustomAbbreviation } from '../types';
+
+export interface AbbreviationDictionary {
+  id: string;
+  name: string;
+  entries: CustomAbbreviation[];
+  organizationId: string | null; // null: one of the user's own presets
+  organizationName?: string;
+  inherited: boolean; // Organization dictionary applied to every member, no need to switch it on
+  builtin?: boolean; // Shipped with the app, read-only
+}
+
+export interface OrganizationMembership {
+  organizationId: string;
+  organizationName: string;
+  role: 'preceptor' | 'member';
+}
+
+interface DictionaryRow {
+  id: string;
+  organization_id: string | null;
+  name: string;
+  entries: CustomAbbreviation[];
+  inherited: boolean;
+  organizations: { name: string } | null;
+}
+
+const entry = (examName: string, abbreviation: string): CustomAbbreviation =>
+  ({ id: `${examName}-${abbreviation}`, examName, abbreviation });
+
+// Starting points for common services; users can switch them on in Configurações
+export const BUILTIN_PRESETS: AbbreviationDictionary[] = [
+  {
+    id: 'builtin-transplante-renal',
+    name: 'Transplante Renal',
+    organizationId: null,
+    inherited: false,
+    builtin: true,
+    entries: [
+      entry('Tacrolimus', 'Fk'),
+      entry('Ciclosporina', 'Csa'),
+      entry('Sirolimus', 'Srl'),
+      entry('Everolimus', 'Evr'),
+      entry('Relação Proteína/Creatinina Urinária', 'P/CrU'),
+      entry('PCR quantitativo para Poliomavírus BK', 'BKV'),
+      entry('PCR quantitativo para Citomegalovírus', 'CMV'),
+      entry('Clearance de Creatinina', 'ClCr'),
+    ],
+  },
+  {
+    id: 'builtin-uti',
+    name: 'UTI',
+    organizationId: null,
+    inherited: false,
+    builtin: true,
+    entries: [
+      entry('Lactato', 'Lac'),
+      entry('Procalcitonina', 'Proc'),
+      entry('Bicarbonato', 'HCO3'),
+      entry('Base Excess', 'BE'),
+      entry('Saturação de O2', 'SatO2'),
+      entry('Cálcio Iônico', 'Cai'),
+      entry('Tempo de Protrombina (INR)', 'INR'),
+      entry('Tempo de Tromboplastina Parcial Ativada', 'TTPa'),
+      entry('Dímero-D', 'DD'),
+    ],
+  },
+];
+
+const toDictionary = (row: DictionaryRow): AbbreviationDictionary => ({
+  id: row.id,
+  name: row.name,
+  entries: row.entries || [],
+  organizationId: row.organization_id,
+  organizationName: row.organizations?.name,
+  inherited: row.inherited,
+});
+
+const examKey = (examName: string) => examName.trim().toLowerCase();
+
+/**
+ * The abbreviations an analysis uses: the organization's inherited dictionaries, then the
+ * active presets in the order they were switched on, then the user's own list. A later layer
+ * overrides an earlier one for the same exam name.
+ */
+export const resolveAbbreviations = (
+  dictionaries: AbbreviationDictionary[],
+  activeIds: string[],
+  personal: CustomAbbreviation[]
+): CustomAbbreviation[] => {
+  const active = activeIds
+    .map(id => dictionaries.find(dictionary => dictionary.id === id && !dictionary.inherited))
+    .filter((dictionary): dictionary is AbbreviationDictionary => !!dictionary);
+  const layers = [...dictionaries.filter(dictionary => dictionary.inherited), ...active].map(dictionary => dictionary.entries);
+
+  const byExam = new Map<string, CustomAbbreviation>();
+  [...layers, personal].forEach(entries => entries.forEach(item => {
+    byExam.delete(examKey(item.examName)); // Re-inserted so the winner takes the later position
+    byExam.set(examKey(item.examName), item);
+  }));
+  return Array.from(byExam.values());
+};
+
+// --- Import / export ---
+
+export type DictionaryFormat = 'json' | 'csv';
+
+const csvField = (value: string) => (/[;"\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/** JSON keeps the name for a round trip; CSV uses ";" so it opens in a Brazilian Excel. */
+export const exportDictionary = (name: string, entries: CustomAbbreviation[], format: DictionaryFormat): string =>
+  format === 'json'
+    ? JSON.stringify({ name, entries: entries.map(({ examName, abbreviation }) => ({ examName, abbreviation })) }, null, 2)
+    : ['exame;sigla', ...entries.map(item => `${csvField(item.examName)};${csvField(item.abbreviation)}`)].join('\n');
+
+// One CSV line, with "quoted" fields and "" escapes
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') { current += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else current += char;
+    } else if (char === '"') quoted = true;
+    else if (char === delimiter) { fields.push(current); current = ''; }
+    else current += char;
+  }
+  fields.push(current);
+  return fields.map(field => field.trim());
+};
+
+const toEntries = (pairs: [string, string][]): CustomAbbreviation[] =>
+  pairs
+    .filter(([examName, abbreviation]) => examName && abbreviation)
+    .map(([examName, abbreviation], index) => ({ id: `${Date.now()}-${index}`, examName, abbreviation }));
+
+/** Reads a dictionary file exported here or written by hand; the name defaults to the file's. */
+export const parseDictionaryFile = (fileName: string, text: string): { name: string; entries: CustomAbbreviation[] } => {
+  const baseName = fileName.replace(/\.(json|csv|txt)$/i, '');
+  let name = baseName;
+  let entries: CustomAbbreviation[];
+
+  if (/\.json$/i.test(fileName) || text.trim().startsWith('{') || text.trim().startsWith('[')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('O arquivo JSON está corrompido.');
+    }
+    const list = Array.isArray(parsed) ? parsed : (parsed as { entries?: unknown })?.entries;
+    if (!Array.isArray(list)) throw new Error('O JSON deve ter uma lista "entries" de { examName, abbreviation }.');
+    if (!Array.isArray(parsed) && typeof (parsed as { name?: unknown }).name === 'string') {
+      name = (parsed as { name: string }).name;
+    }
+    entries = toEntries(list.map((item: { examName?: unknown; abbreviation?: unknown }) =>
+      [String(item?.examName ?? '').trim(), String(item?.abbreviation ?? '').trim()]));
+  } else {
+    const lines = text.split(/\r?\n/).filter(line => line.trim());
+    const delimiter = lines[0]?.includes(';') ? ';' : ',';
+    const rows = lines.map(line => splitCsvLine(line, delimiter));
+    // Header row ("exame;sigla", "examName,abbreviation") is optional
+    if (rows[0] && /^(exame|exam|examname|nome)$/i.test(rows[0][0].replace(/\s/g, ''))) rows.shift();
+    entries = toEntries(rows.map(([examName = '', abbreviation = '']) => [examName, abbreviation]));
+  }
+
+  if (entries.length === 0) throw new Error('Nenhuma abreviação encontrada no arquivo (esperado: exame e sigla).');
+  return { name: name.trim() || baseName, entries };
+};
+
+// --- Persistence ---
+
+export const dictionaryService = {
+  /** Built-in presets, the user's own and those of their organizations (RLS filters the rest). */
+  async listDictionaries(userId: string): Promise<{
+    dictionaries: AbbreviationDictionary[];
+    memberships: OrganizationMembership[];
+    error: AuthError | null;
+  }> {
+    const [dictionaries, memberships] = await Promise.all([
+      supabase
+        .from('abbreviation_dictionaries')
+        .select('id, organization_id, name, entries, inherited, organizations(name)')
+        .order('name'),
+      supabase
+        .from('organization_members')
+        .select('organization_id, role, organizations(name)')
+        .eq('user_id', userId),
+    ]);
+
+    const error = dictionaries.error || memberships.error;
+    if (error) {
+      console.error('Error fetching dictionaries:', error);
+    }
+
+    return {
+      dictionaries: [...BUILTIN_PRESETS, ...((dictionaries.data as unknown as DictionaryRow[] | null) || []).map(toDictionary)],
+      memberships: ((memberships.data as unknown as { organization_id: string; role: OrganizationMembership['role']; organizations: { name: string } | null }[] | null) || [])
+        .map(row => ({ organizationId: row.organization_id, organizationName: row.organizations?.name || '', role: row.role })),
+      error: error ? { message: error.message } : null,
+    };
+  },
+
+  /** Creates (no id) or replaces a dictionary: the user's own, or an organization's for preceptors. */
+  async saveDictionary(
+    userId: string,
+    dictionary: Pick<AbbreviationDictionary, 'name' | 'entries' | 'organizationId' | 'inherited'> & { id?: string }
+  ): Promise<{ dictionary: AbbreviationDictionary | null; error: AuthError | null }> {
+    const { data, error } = await supabase
+      .from('abbreviation_dictionaries')
+      .upsert({
+        ...(dictionary.id ? { id: dictionary.id } : {}),
+        name: dictionary.name,
+        entries: dictionary.entries,
+        organization_id: dictionary.organizationId,
+        owner_id: dictionary.organizationId ? null : userId,
+        inherited: dictionary.inherited,
+        updated_at: new Date().toISOString(),
+      })
+      .select('id, organization_id, name, entries, inherited, organizations(name)')
+      .single();
+
+    return {
+      dictionary: data ? toDictionary(data as unknown as DictionaryRow) : null,
+      error: error ? { message: error.message } : null,
+    };
+  },
+
+  async deleteDictionary(dictionaryId: string): Promise<{ error: AuthError | null }> {
+    const { error } = await supabase
+      .from('abbreviation_dictionaries')
+      .delete()
+      .eq('id', dictionaryId);
+
+    return {
+      error: error ? { message: error.message } : null,
+    };
+  },
+};
@@ -0,0 +1,134 @@
+import { AnalyzedExam, CriticalThreshold, ExamEdit, LabResultItem, NonLabData } from "../types";
+import { formatLabValue, parseLabValue } from "./labValues";
+import { withLabCodes } from "./labCodes";
+import { applyReferenceEngine, ABNORMALITY_LABELS } from "./referenceRanges";
+import { toStoredUnit } from "./unitConversion";
+
+export interface ResultPatch extends Partial<Pick<LabResultItem, 'abbreviation' | 'value' | 'unit' | 'referenceRange'>> {
+  abnormality?: LabResultItem['abnormality'] | null; // null hands the flag back to the range engine
+}
+
+const AUTO_FLAG_LABEL = 'automática';
+
+const describeValue = (item: LabResultItem): string =>
+  `${formatLabValue(item.value)}${item.unit ? ` ${item.unit}` : ''}`;
+
+const describeFlag = (item: LabResultItem): string =>
+  item.abnormalitySource === 'manual' ? ABNORMALITY_LABELS[item.abnormality] : AUTO_FLAG_LABEL;
+
+// Repeated edits of the same field keep the extracted value as `original`;
+// editing back to it drops the entry altogether.
+const recordEdit = (edits: ExamEdit[], field: string, before: string, after: string): ExamEdit[] => {
+  if (before === after) return edits;
+  const existing = edits.find(edit => edit.field === field);
+  const original = existing ? existing.original : before;
+  const rest = edits.filter(edit => edit !== existing);
+  if (original === after) return rest;
+  return [...rest, { field, original, edited: after, editedAt: new Date().toISOString() }];
+};
+
+/**
+ * The editors work on results as displayed, possibly converted to the preferred unit system.
+ * Turns what the form holds into a patch for the stored item: fields left as shown are dropped,
+ * and values typed in the displayed unit go back to the exam's own. A new unit means the row was
+ * retyped in it, so the value and range go as shown.
+ */
+export const toResultPatch = (displayed: LabResultItem, form: ResultPatch): ResultPatch => {
+  const patch: ResultPatch = {};
+  if (form.abbreviation !== undefined && form.abbreviation !== displayed.abbreviation) {
+    patch.abbreviation = form.abbreviation;
+  }
+  const unitChanged = 'unit' in form && (form.unit || '') !== (displayed.unit || '');
+  if (unitChanged) patch.unit = form.unit;
+
+  if (form.value !== undefined && (unitChanged || form.value !== displayed.value)) {
+    patch.value = unitChanged ? form.value : toStoredUnit(displayed, form.value);
+  }
+  if (form.referenceRange !== undefined && (unitChanged || form.referenceRange !== (displayed.referenceRange || ''))) {
+    patch.referenceRange = unitChanged || !form.referenceRange ? form.referenceRange : toStoredUnit(displayed, form.referenceRange);
+  }
+
+  const manualFlag = displayed.abnormalitySource === 'manual' ? displayed.abnormality : null;
+  if (form.abnormality !== undefined && form.abnormality !== manualFlag) patch.abnormality = form.abnormality;
+  return patch;
+};
+
+/**
+ * Manual correction of one result (also the review queue's "confirm", with an empty patch).
+ * The edited item counts as reviewed and the flags are recomputed, unless one was set by hand.
+ */
+export const editResult = (
+  exam: AnalyzedExam,
+  index: number,
+  patch: ResultPatch,
+  criticalThresholds: CriticalThreshold[] = []
+): AnalyzedExam => {
+  const before = exam.results[index];
+  if (!before) return exam;
+
+  const { abnormality, ...fields } = patch;
+  const value = fields.value ?? before.value;
+  const after: LabResultItem = withLabCodes({
+    ...before,
+    ...fields,
+    value,
+    parsedValue: parseLabValue(value, fields.unit ?? before.unit),
+    referenceRange: fields.referenceRange !== undefined ? fields.referenceRange || undefined : before.referenceRange,
+    reviewed: true,
+  });
+  if (abnormality) {
+    after.abnormality = abnormality;
+    after.abnormalitySource = 'manual';
+    after.modelAbnormality = undefined;
+  } else if (abnormality === null && before.abnormalitySource === 'manual') {
+    after.abnormalitySource = undefined;
+  } else if (before.abnormalitySource === 'lis' && (fields.value !== undefined || fields.unit !== undefined || fields.referenceRange !== undefined)) {
+    // The lab's flag was for the value it sent; a corrected one is flagged from the ranges
+    after.abnormalitySource = undefined;
+  }
+
+  let edits = exam.edits || [];
+  edits = recordEdit(edits, `${before.abbreviation} · sigla`, before.abbreviation, after.abbreviation);
+  edits = recordEdit(edits, `${after.abbreviation} · valor`, describeValue(before), describeValue(after));
+  edits = recordEdit(edits, `${after.abbreviation} · referência`, before.referenceRange || '', after.referenceRange || '');
+  edits = recordEdit(edits, `${after.abbreviation} · classificação`, describeFlag(before), describeFlag(after));
+
+  const results = exam.results.map((item, i) => (i === index ? after : item));
+  return applyReferenceEngine({ ...exam, results, edits }, criticalThresholds);
+};
+
+export const removeResult = (exam: AnalyzedExam, index: number): AnalyzedExam => {
+  const removed = exam.results[index];
+  if (!removed) return exam;
+  return {
+    ...exam,
+    results: exam.results.filter((_, i) => i !== index),
+    edits: recordEdit(exam.edits || [], `${removed.abbreviation} · removido`, describeValue(removed), ''),
+  };
+};
+
+const NON_LAB_FIELDS: Record<keyof NonLabData, string> = {
+  examTitle: 'Título',
+  mainFindings: 'Achados',
+  impression: 'Conclusão',
+};
+
+const describeNonLabField = (data: NonLabData | undefined, key: keyof NonLabData): string => {
+  const value = data?.[key];
+  return Array.isArray(value) ? value.join('\n') : value || '';
+};
+
+export const editNonLabData = (exam: AnalyzedExam, patch: Partial<NonLabData>): AnalyzedExam => {
+  const before = exam.nonLabData;
+  const after: NonLabData = {
+    examTitle: patch.examTitle ?? before?.examTitle ?? '',
+    mainFindings: (patch.mainFindings ?? before?.mainFindings ?? []).map(finding => finding.trim()).filter(Boolean),
+    impression: patch.impression ?? before?.impression ?? '',
+  };
+
+  const edits = (Object.keys(NON_LAB_FIELDS) as (keyof NonLabData)[]).reduce(
+    (acc, key) => recordEdit(acc, NON_LAB_FIELDS[key], describeNonLabField(before, key), describeNonLabField(after, key)),
+    exam.edits || []
+  );
+  return { ...exam, nonLabData: after, edits };
+};
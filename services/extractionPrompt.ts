@@ -0,0 +1,124 @@
+import { AnalyzedExam } from "../types";
+import type { ExtractionPart } from "../supabase/functions/_shared/extractionPrompt";
+import { documentLabel } from "../supabase/functions/_shared/extractionPrompt";
+import { formatTextLayer, PdfTextPage } from "./pdfDocument";
+import { AnalysisError } from "./analysisErrors";
+
+export {
+  responseSchema,
+  buildSystemInstruction,
+  EXTRACTION_USER_PROMPT,
+} from "../supabase/functions/_shared/extractionPrompt";
+export type { ExtractionPart, ExtractionSchema } from "../supabase/functions/_shared/extractionPrompt";
+
+// Largest file sent to the model as inlineData; PDFs up to MAX_PDF_FILE_BYTES are accepted
+// at upload because a usable text layer is sent as text instead of the binary
+export const MAX_INLINE_FILE_BYTES = 15 * 1024 * 1024;
+export const MAX_PDF_FILE_BYTES = 50 * 1024 * 1024;
+
+// Helper to convert File/Blob to Base64
+const fileToBase64 = (file: File | Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => {
+      const result = reader.result as string;
+      // Remove data URL prefix (e.g., "data:application/pdf;base64,")
+      const base64 = result.split(',')[1];
+      resolve(base64);
+    };
+    reader.onerror = (error) => reject(error);
+  });
+};
+
+// Prepare contents based on input type. `textLayers` (by file position, see readUsableTextLayers)
+// replaces a PDF's binary with its embedded text.
+export const buildInputParts = async (
+  input: File[] | Blob | string,
+  textLayers: (PdfTextPage[] | null)[] = [],
+  parsedLocally: boolean[] = []
+): Promise<ExtractionPart[]> => {
+  let parts: ExtractionPart[] = [];
+
+  if (typeof input === 'string') {
+    parts.push({
+      text: `Analyze the following raw text from a medical document:\n\n${input}`
+    });
+  } else if (input instanceof Blob && !(input instanceof File)) {
+    const base64 = await fileToBase64(input);
+    parts.push({
+      inlineData: {
+        mimeType: input.type || 'audio/wav',
+        data: base64,
+      },
+    });
+    parts.push({
+        text: "TRANSCRIPTION & ANALYSIS: The user has recorded an audio reading a medical exam. Transcribe precisely and analyze."
+    });
+  } else if (Array.isArray(input)) {
+    const oversized = input.find((file, index) => !parsedLocally[index] && !textLayers[index] && file.size > MAX_INLINE_FILE_BYTES);
+    if (oversized) {
+      throw new AnalysisError('unreadable_document', `O arquivo ${oversized.name} é digitalizado (sem texto) e excede 15MB. Divida o PDF ou envie fotos das páginas.`);
+    }
+
+    // Numbered labels let the model report provenance (source.fileIndex); names are left out on purpose.
+    // Files already read by a layout parser are skipped but keep their number.
+    const documentParts = await Promise.all(input.map(async (file, index): Promise<ExtractionPart[]> => {
+      if (parsedLocally[index]) return [];
+      const textLayer = textLayers[index];
+      if (textLayer) {
+        return [{ text: documentLabel(index, formatTextLayer(textLayer)) }];
+      }
+      return [
+        { text: documentLabel(index) },
+        { inlineData: { mimeType: file.type, data: await fileToBase64(file) } },
+      ];
+    }));
+    parts = documentParts.flat();
+  }
+
+  return parts;
+};
+
+// Maps the model JSON (array, or { patients: [...] } for providers that need an object root)
+export const parseExtractionResponse = (
+  jsonText: string,
+  createId: () => string = () => crypto.randomUUID()
+): AnalyzedExam[] => {
+  let parsedData: any;
+  try {
+    parsedData = JSON.parse(jsonText);
+  } catch {
+    throw new AnalysisError('schema_violation');
+  }
+  if (!parsedData || typeof parsedData !== 'object') throw new AnalysisError('schema_violation');
+  const resultsArray: any[] = (Array.isArray(parsedData)
+    ? parsedData
+    : Array.isArray(parsedData.patients) ? parsedData.patients : [parsedData])
+    .filter((patientData: any) => patientData && typeof patientData === 'object');
+
+  return resultsArray.map((patientData: any) => {
+      // Fallback summary logic
+      let summaryString = "";
+      if (patientData.category === 'NON_LAB' && patientData.nonLabData) {
+          summaryString = `${patientData.nonLabData.examTitle}: ${patientData.nonLabData.impression}`;
+      } else {
+          summaryString = patientData.labResults
+              ? patientData.labResults.map((r: any) => `${r.abbreviation} ${r.value}`).join(' / ')
+              : "Sem dados";
+      }
+
+      return {
+          id: createId(),
+          patientInitials: patientData.patientInitials || 'N/A',
+          patientAge: patientData.patientAge || '',
+          patientSex: patientData.patientSex === 'M' || patientData.patientSex === 'F' ? patientData.patientSex : undefined,
+          collectionDate: patientData.collectionDate || '',
+          category: patientData.category || 'LAB',
+          results: patientData.labResults || [],
+          nonLabData: patientData.nonLabData || undefined,
+          source: patientData.source || undefined,
+          rawSummary: summaryString
+      };
+  });
+};
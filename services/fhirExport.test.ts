@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { AnalyzedExam } from '../types';
+import { buildFhirBundle, FhirDiagnosticReport, isValidLoinc, validateFhirBundle } from './fhirExport';
+
+const labExam: AnalyzedExam = {
+  id: 'lab',
+  patientInitials: 'MSS',
+  patientAge: '54 anos',
+  patientSex: 'F',
+  collectionDate: '02/10/2026',
+  category: 'LAB',
+  results: [
+    { abbreviation: 'Hb', value: '11,8', unit: 'g/dL', referenceRange: '12,0 a 16,0', abnormality: 'LOW' },
+    { abbreviation: 'K', value: '4,2', unit: 'mEq/L', referenceRange: '3,5 a 5,1', abnormality: 'NORMAL' },
+  ],
+  rawSummary: '',
+};
+
+const report = (id: string, examTitle: string): AnalyzedExam => ({
+  ...labExam,
+  id,
+  category: 'NON_LAB',
+  results: [],
+  nonLabData: { examTitle, mainFindings: ['Sem alterações'], impression: 'Normal' },
+});
+
+const reports = (exams: AnalyzedExam[]) =>
+  buildFhirBundle(exams).entry
+    .map(({ resource }) => resource)
+    .filter((resource): resource is FhirDiagnosticReport => resource.resourceType === 'DiagnosticReport');
+
+const serviceOf = (diagnosticReport: FhirDiagnosticReport) => diagnosticReport.category?.[0].coding?.[0].code;
+
+describe('buildFhirBundle', () => {
+  it('groups a LAB exam\'s Observations under a LAB DiagnosticReport', () => {
+    const bundle = buildFhirBundle([labExam]);
+    expect(validateFhirBundle(bundle)).toEqual([]);
+
+    const [labReport] = reports([labExam]);
+    expect(serviceOf(labReport)).toBe('LAB');
+    expect(isValidLoinc(labReport.code.coding![0].code!)).toBe(true);
+    const observationUrls = bundle.entry.filter(({ resource }) => resource.resourceType === 'Observation').map(({ fullUrl }) => fullUrl);
+    expect(observationUrls).toHaveLength(2);
+    expect(bundle.entry.find(({ resource }) => resource.resourceType === 'DiagnosticReport')!.resource)
+      .toMatchObject({ result: observationUrls.map(reference => ({ reference })) });
+  });
+
+  it('marks only imaging reports as RAD', () => {
+    const exams = [
+      report('us', 'Ultrassonografia de abdome total'),
+      report('ct', 'Tomografia computadorizada de tórax'),
+      report('bx', 'Anatomopatológico - biópsia gástrica'),
+      report('ecg', 'Eletrocardiograma'),
+    ];
+    expect(validateFhirBundle(buildFhirBundle(exams))).toEqual([]);
+    expect(reports(exams).map(serviceOf)).toEqual(['RAD', 'RAD', 'PAT', 'OTH']);
+  });
+});
+
+describe('validateFhirBundle', () => {
+  it('rejects report categories outside v2-0074 and results on non-LAB reports', () => {
+    const bundle = buildFhirBundle([labExam]);
+    const labReport = bundle.entry.find(({ resource }) => resource.resourceType === 'DiagnosticReport')!.resource as FhirDiagnosticReport;
+
+    labReport.category = [{ coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v2-0074', code: 'RAD' }] }];
+    expect(validateFhirBundle(bundle)).toEqual(['entry[1].DiagnosticReport.category deve ser LAB quando há result']);
+
+    labReport.category = [{ coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v2-0074', code: 'XYZ' }] }];
+    expect(validateFhirBundle(bundle)).toContain('entry[1].DiagnosticReport.category: código XYZ fora do value set v2-0074');
+  });
+
+  it('requires LAB report results to be Observations of the bundle', () => {
+    const bundle = buildFhirBundle([labExam]);
+    const labReport = bundle.entry[1].resource as FhirDiagnosticReport;
+    labReport.result = [{ reference: bundle.entry[0].fullUrl }];
+    expect(validateFhirBundle(bundle)).toEqual(['entry[1].DiagnosticReport.result[0] não aponta para uma Observation do Bundle']);
+  });
+});
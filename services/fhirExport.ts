@@ -0,0 +1,346 @@
+import { AnalyzedExam, LabResultItem, LabValue } from "../types";
+import { resolveCollectionDate, toIsoDate } from "./collectionDate";
+import { withLabCodes } from "./labCodes";
+import { getLabValue, parseReferenceRange } from "./labValues";
+import { needsReview } from "./resultValidation";
+
+// Just the parts of FHIR R4 this export writes (https://hl7.org/fhir/R4)
+interface Coding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+interface Quantity {
+  value?: number;
+  comparator?: '<' | '<=' | '>=' | '>';
+  unit?: string;
+}
+
+interface Reference {
+  reference: string;
+}
+
+export interface FhirPatient {
+  resourceType: 'Patient';
+  meta?: { security?: Coding[] };
+  identifier?: { system: string; value: string }[];
+  gender?: 'male' | 'female' | 'other' | 'unknown';
+}
+
+export interface FhirObservation {
+  resourceType: 'Observation';
+  status: 'registered' | 'preliminary' | 'final' | 'amended';
+  category?: CodeableConcept[];
+  code: CodeableConcept;
+  subject?: Reference;
+  effectiveDateTime?: string;
+  valueQuantity?: Quantity;
+  valueString?: string;
+  valueRatio?: { numerator: Quantity; denominator: Quantity };
+  interpretation?: CodeableConcept[];
+  referenceRange?: { low?: Quantity; high?: Quantity; text?: string }[];
+}
+
+export interface FhirDiagnosticReport {
+  resourceType: 'DiagnosticReport';
+  status: 'registered' | 'partial' | 'preliminary' | 'final' | 'amended';
+  category?: CodeableConcept[];
+  code: CodeableConcept;
+  subject?: Reference;
+  effectiveDateTime?: string;
+  result?: Reference[];
+  conclusion?: string;
+  presentedForm?: { contentType: string; language?: string; data: string; title?: string }[];
+}
+
+export type FhirResource = FhirPatient | FhirObservation | FhirDiagnosticReport;
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: 'collection';
+  timestamp: string;
+  entry: { fullUrl: string; resource: FhirResource }[];
+}
+
+const LOINC = 'http://loinc.org';
+const INTERPRETATION = 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation';
+const OBSERVATION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const DIAGNOSTIC_SERVICE = 'http://terminology.hl7.org/CodeSystem/v2-0074';
+const SECURITY_LABEL = 'http://terminology.hl7.org/CodeSystem/v3-ObservationValue';
+// v2-0074 diagnostic service sections used here
+const DIAGNOSTIC_SERVICES: Record<string, Coding> = {
+  LAB: { system: DIAGNOSTIC_SERVICE, code: 'LAB', display: 'Laboratory' },
+  RAD: { system: DIAGNOSTIC_SERVICE, code: 'RAD', display: 'Radiology' },
+  PAT: { system: DIAGNOSTIC_SERVICE, code: 'PAT', display: 'Pathology (gross & histopath, not surgical)' },
+  OTH: { system: DIAGNOSTIC_SERVICE, code: 'OTH', display: 'Other' },
+};
+// Titles of NON_LAB reports that are imaging (RAD) or pathology (PAT); the rest are OTH
+const IMAGING_TITLE = /radiogra|raio[\s-]*x|\brx\b|tomogra|resson[âa]ncia|\brm\b|ultrass|\busg?\b|ecogra|mamogra|densitometr|cintilogra|\bpet\b|angiogra|doppler/i;
+const PATHOLOGY_TITLE = /anatomopatol|histopatol|bi[óo]psia|citol[óo]gi|imuno[-\s]*histoqu/i;
+// LOINC "Laboratory report", the code of the DiagnosticReport grouping a LAB exam's results
+const LAB_REPORT_CODE: Coding = { system: LOINC, code: '11502-2', display: 'Laboratory report' };
+// Local system for the initials: they identify the patient only inside the doctor's own notes
+const PSEUDONYM_SYSTEM = 'urn:izi-lab:pseudonym';
+
+const INTERPRETATION_CODES: Record<LabResultItem['abnormality'], Coding> = {
+  NORMAL: { system: INTERPRETATION, code: 'N', display: 'Normal' },
+  HIGH: { system: INTERPRETATION, code: 'H', display: 'High' },
+  LOW: { system: INTERPRETATION, code: 'L', display: 'Low' },
+  CRITICAL_HIGH: { system: INTERPRETATION, code: 'HH', display: 'Critical high' },
+  CRITICAL_LOW: { system: INTERPRETATION, code: 'LL', display: 'Critical low' },
+};
+
+const uuidUrl = () => `urn:uuid:${crypto.randomUUID()}`;
+
+const effectiveDate = (exam: AnalyzedExam): string | undefined => {
+  const date = resolveCollectionDate(exam.collectionDate);
+  return date ? toIsoDate(date) : undefined;
+};
+
+// Typed value -> value[x]: censored results keep their comparator, titers are 1:n ratios
+const observationValue = (labValue: LabValue, unit: string | undefined): Partial<FhirObservation> => {
+  switch (labValue.kind) {
+    case 'numeric':
+      return { valueQuantity: { value: labValue.value, ...(unit ? { unit } : {}) } };
+    case 'censored-below':
+      return { valueQuantity: { value: labValue.limit, comparator: '<', ...(unit ? { unit } : {}) } };
+    case 'censored-above':
+      return { valueQuantity: { value: labValue.limit, comparator: '>', ...(unit ? { unit } : {}) } };
+    case 'ratio':
+      return { valueRatio: { numerator: { value: labValue.numerator }, denominator: { value: labValue.denominator } } };
+    case 'titer':
+      return { valueRatio: { numerator: { value: 1 }, denominator: { value: labValue.dilution } } };
+    case 'qualitative':
+      return { valueString: labValue.text };
+  }
+};
+
+const toObservation = (item: LabResultItem, subject: Reference, effectiveDateTime: string | undefined): FhirObservation => {
+  const { loinc } = withLabCodes(item);
+  const range = parseReferenceRange(item.referenceRange);
+  const bound = (value: number | null): Quantity | undefined =>
+    value === null ? undefined : { value, ...(item.unit ? { unit: item.unit } : {}) };
+
+  return {
+    resourceType: 'Observation',
+    // Low-confidence results nobody confirmed are not final
+    status: needsReview(item) ? 'preliminary' : 'final',
+    category: [{ coding: [{ system: OBSERVATION_CATEGORY, code: 'laboratory', display: 'Laboratory' }] }],
+    code: {
+      ...(loinc ? { coding: [{ system: LOINC, code: loinc }] } : {}),
+      text: item.abbreviation,
+    },
+    subject,
+    ...(effectiveDateTime ? { effectiveDateTime } : {}),
+    ...observationValue(getLabValue(item), item.unit),
+    interpretation: [{ coding: [INTERPRETATION_CODES[item.abnormality]] }],
+    ...(item.referenceRange ? {
+      referenceRange: [{
+        ...(bound(range.min) ? { low: bound(range.min) } : {}),
+        ...(bound(range.max) ? { high: bound(range.max) } : {}),
+        text: item.referenceRange,
+      }],
+    } : {}),
+  };
+};
+
+// UTF-8 text as base64 (Attachment.data), findings keep their accents
+const toBase64 = (text: string): string =>
+  btoa(Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join(''));
+
+const reportService = (title: string): Coding =>
+  DIAGNOSTIC_SERVICES[IMAGING_TITLE.test(title) ? 'RAD' : PATHOLOGY_TITLE.test(title) ? 'PAT' : 'OTH'];
+
+const toDiagnosticReport = (exam: AnalyzedExam, subject: Reference): FhirDiagnosticReport => {
+  const data = exam.nonLabData || { examTitle: '', mainFindings: [], impression: '' };
+  const findings = data.mainFindings.map(finding => `- ${finding}`).join('\n');
+  const effectiveDateTime = effectiveDate(exam);
+  return {
+    resourceType: 'DiagnosticReport',
+    status: 'final',
+    category: [{ coding: [reportService(data.examTitle)] }],
+    code: { text: data.examTitle || 'Laudo' },
+    subject,
+    ...(effectiveDateTime ? { effectiveDateTime } : {}),
+    ...(data.impression ? { conclusion: data.impression } : {}),
+    ...(findings ? {
+      presentedForm: [{ contentType: 'text/plain; charset=utf-8', language: 'pt-BR', title: 'Achados principais', data: toBase64(findings) }],
+    } : {}),
+  };
+};
+
+// The LAB exam itself: groups its Observations, preliminary while any of them is
+const toLabReport = (
+  observations: { fullUrl: string; resource: FhirObservation }[],
+  subject: Reference,
+  effectiveDateTime: string | undefined
+): FhirDiagnosticReport => ({
+  resourceType: 'DiagnosticReport',
+  status: observations.some(({ resource }) => resource.status === 'preliminary') ? 'preliminary' : 'final',
+  category: [{ coding: [DIAGNOSTIC_SERVICES.LAB] }],
+  code: { coding: [LAB_REPORT_CODE], text: 'Exames laboratoriais' },
+  subject,
+  ...(effectiveDateTime ? { effectiveDateTime } : {}),
+  result: observations.map(({ fullUrl }) => ({ reference: fullUrl })),
+});
+
+/**
+ * One collection Bundle for a card: a pseudonymous Patient (initials as a local identifier,
+ * tagged PSEUDED), an Observation per result under a LAB DiagnosticReport per exam, and a
+ * DiagnosticReport per NON_LAB report (RAD only for imaging).
+ * Evolution cards pass every date's exam; each keeps its own effectiveDateTime.
+ */
+export const buildFhirBundle = (exams: AnalyzedExam[]): FhirBundle => {
+  const first = exams[0];
+  const patientUrl = uuidUrl();
+  const subject = { reference: patientUrl };
+  const patient: FhirPatient = {
+    resourceType: 'Patient',
+    meta: { security: [{ system: SECURITY_LABEL, code: 'PSEUDED', display: 'pseudonymized' }] },
+    identifier: first?.patientInitials ? [{ system: PSEUDONYM_SYSTEM, value: first.patientInitials }] : undefined,
+    gender: first?.patientSex === 'M' ? 'male' : first?.patientSex === 'F' ? 'female' : 'unknown',
+  };
+
+  const entries = exams.flatMap<FhirBundle['entry'][number]>(exam => {
+    if (exam.category === 'NON_LAB') return [{ fullUrl: uuidUrl(), resource: toDiagnosticReport(exam, subject) }];
+    const effectiveDateTime = effectiveDate(exam);
+    const observations = exam.results.map(item => ({ fullUrl: uuidUrl(), resource: toObservation(item, subject, effectiveDateTime) }));
+    if (observations.length === 0) return [];
+    return [{ fullUrl: uuidUrl(), resource: toLabReport(observations, subject, effectiveDateTime) }, ...observations];
+  });
+
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry: [{ fullUrl: patientUrl, resource: patient }, ...entries],
+  };
+};
+
+// --- Validation ---
+
+// R4 primitive formats and required bindings checked before anything leaves the app
+const DATE_TIME = /^([0-9]([0-9]([0-9][1-9]|[1-9]0)|[1-9]00)|[1-9]000)(-(0[1-9]|1[0-2])(-(0[1-9]|[1-2][0-9]|3[0-1])(T([01][0-9]|2[0-3]):[0-5][0-9]:([0-5][0-9]|60)(\.[0-9]+)?(Z|(\+|-)((0[0-9]|1[0-3]):[0-5][0-9]|14:00)))?)?)?$/;
+const INSTANT = /^([0-9]([0-9]([0-9][1-9]|[1-9]0)|[1-9]00)|[1-9]000)-(0[1-9]|1[0-2])-(0[1-9]|[1-2][0-9]|3[0-1])T([01][0-9]|2[0-3]):[0-5][0-9]:([0-5][0-9]|60)(\.[0-9]+)?(Z|(\+|-)((0[0-9]|1[0-3]):[0-5][0-9]|14:00))$/;
+const URN_UUID = /^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const OBSERVATION_STATUSES = ['registered', 'preliminary', 'final', 'amended', 'corrected', 'cancelled', 'entered-in-error', 'unknown'];
+const REPORT_STATUSES = ['registered', 'partial', 'preliminary', 'final', 'amended', 'corrected', 'appended', 'cancelled', 'entered-in-error', 'unknown'];
+const GENDERS = ['male', 'female', 'other', 'unknown'];
+const SERVICE_CODES = new Set(Object.values(DIAGNOSTIC_SERVICES).map(coding => coding.code));
+const COMPARATORS = ['<', '<=', '>=', '>'];
+const INTERPRETATIONS = new Set(Object.values(INTERPRETATION_CODES).map(coding => coding.code));
+
+// LOINC codes end in a mod-10 (Luhn) check digit: "2160-0"
+export const isValidLoinc = (code: string): boolean => {
+  const match = /^(\d{1,7})-(\d)$/.exec(code);
+  if (!match) return false;
+  const sum = match[1].split('').reverse().reduce((total, char, index) => {
+    const digit = Number(char) * (index % 2 === 0 ? 2 : 1);
+    return total + (digit > 9 ? digit - 9 : digit);
+  }, 0);
+  return (10 - (sum % 10)) % 10 === Number(match[2]);
+};
+
+const hasConcept = (concept: CodeableConcept | undefined): boolean =>
+  !!concept && (!!concept.text || (concept.coding || []).some(coding => coding.code));
+
+const checkQuantity = (quantity: Quantity | undefined, path: string, errors: string[]) => {
+  if (!quantity) return;
+  if (quantity.value !== undefined && !Number.isFinite(quantity.value)) errors.push(`${path}.value não é numérico`);
+  if (quantity.comparator && !COMPARATORS.includes(quantity.comparator)) errors.push(`${path}.comparator inválido`);
+};
+
+const checkObservation = (observation: FhirObservation, path: string, errors: string[]) => {
+  if (!OBSERVATION_STATUSES.includes(observation.status)) errors.push(`${path}.status inválido`);
+  if (!hasConcept(observation.code)) errors.push(`${path}.code é obrigatório`);
+  (observation.code.coding || [])
+    .filter(coding => coding.system === LOINC && !isValidLoinc(coding.code || ''))
+    .forEach(coding => errors.push(`${path}.code: código LOINC inválido (${coding.code})`));
+  if (observation.effectiveDateTime && !DATE_TIME.test(observation.effectiveDateTime)) errors.push(`${path}.effectiveDateTime fora do formato`);
+
+  const values = [observation.valueQuantity, observation.valueString, observation.valueRatio].filter(value => value !== undefined);
+  if (values.length > 1) errors.push(`${path}: apenas um value[x] é permitido`);
+  checkQuantity(observation.valueQuantity, `${path}.valueQuantity`, errors);
+  checkQuantity(observation.valueRatio?.numerator, `${path}.valueRatio.numerator`, errors);
+  checkQuantity(observation.valueRatio?.denominator, `${path}.valueRatio.denominator`, errors);
+  if (observation.valueString !== undefined && !observation.valueString.trim()) errors.push(`${path}.valueString vazio`);
+
+  (observation.interpretation || []).forEach(concept => (concept.coding || [])
+    .filter(coding => coding.system === INTERPRETATION && !INTERPRETATIONS.has(coding.code))
+    .forEach(coding => errors.push(`${path}.interpretation: código ${coding.code} fora do value set`)));
+
+  // rng-2: a reference range needs a low, a high or a text
+  (observation.referenceRange || []).forEach((range, index) => {
+    if (!range.low && !range.high && !range.text) errors.push(`${path}.referenceRange[${index}] sem low, high ou text (rng-2)`);
+    checkQuantity(range.low, `${path}.referenceRange[${index}].low`, errors);
+    checkQuantity(range.high, `${path}.referenceRange[${index}].high`, errors);
+  });
+};
+
+const checkDiagnosticReport = (
+  report: FhirDiagnosticReport,
+  path: string,
+  errors: string[],
+  resourceTypes: Map<string, FhirResource['resourceType']>
+) => {
+  if (!REPORT_STATUSES.includes(report.status)) errors.push(`${path}.status inválido`);
+  const services = (report.category || []).flatMap(concept => concept.coding || [])
+    .filter(coding => coding.system === DIAGNOSTIC_SERVICE)
+    .map(coding => coding.code || '');
+  services.filter(code => !SERVICE_CODES.has(code))
+    .forEach(code => errors.push(`${path}.category: código ${code} fora do value set v2-0074`));
+  // Results only belong to laboratory reports, and each must be an Observation of the bundle
+  const results = report.result || [];
+  if (results.length > 0 && !services.includes('LAB')) errors.push(`${path}.category deve ser LAB quando há result`);
+  if (services.includes('LAB') && results.length === 0) errors.push(`${path}: categoria LAB sem result`);
+  results.forEach(({ reference }, index) => {
+    if (resourceTypes.get(reference) !== 'Observation') errors.push(`${path}.result[${index}] não aponta para uma Observation do Bundle`);
+  });
+  if (!hasConcept(report.code)) errors.push(`${path}.code é obrigatório`);
+  (report.code.coding || [])
+    .filter(coding => coding.system === LOINC && !isValidLoinc(coding.code || ''))
+    .forEach(coding => errors.push(`${path}.code: código LOINC inválido (${coding.code})`));
+  if (report.effectiveDateTime && !DATE_TIME.test(report.effectiveDateTime)) errors.push(`${path}.effectiveDateTime fora do formato`);
+  (report.presentedForm || []).forEach((form, index) => {
+    if (!form.contentType || !form.data) errors.push(`${path}.presentedForm[${index}] sem contentType ou data`);
+  });
+};
+
+/**
+ * Structural check against the R4 base profiles of the resources written here: required
+ * elements and bindings, primitive formats, rng-2, LOINC check digits, the v2-0074 report
+ * categories (LAB reports carry the results) and that every reference resolves inside the bundle. Returns the problems found (empty when valid).
+ */
+export const validateFhirBundle = (bundle: FhirBundle): string[] => {
+  const errors: string[] = [];
+  if (bundle.resourceType !== 'Bundle') errors.push('resourceType deve ser Bundle');
+  if (bundle.type !== 'collection') errors.push('Bundle.type inválido');
+  if (!INSTANT.test(bundle.timestamp)) errors.push('Bundle.timestamp fora do formato instant');
+
+  const resourceTypes = new Map<string, FhirResource['resourceType']>();
+  bundle.entry.forEach(({ fullUrl, resource }, index) => {
+    if (!URN_UUID.test(fullUrl)) errors.push(`entry[${index}].fullUrl deve ser urn:uuid`);
+    if (resourceTypes.has(fullUrl)) errors.push(`entry[${index}].fullUrl repetido`);
+    resourceTypes.set(fullUrl, resource.resourceType);
+  });
+
+  bundle.entry.forEach(({ resource }, index) => {
+    const path = `entry[${index}].${resource.resourceType}`;
+    if (resource.resourceType === 'Patient') {
+      if (resource.gender && !GENDERS.includes(resource.gender)) errors.push(`${path}.gender inválido`);
+      return;
+    }
+    if (!resource.subject) errors.push(`${path}.subject ausente`);
+    else if (!resourceTypes.has(resource.subject.reference)) errors.push(`${path}.subject aponta para fora do Bundle`);
+    if (resource.resourceType === 'Observation') checkObservation(resource, path, errors);
+    else checkDiagnosticReport(resource, path, errors, resourceTypes);
+  });
+
+  return errors;
+};
@@ -1,251 +1,74 @@
-
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { AnalyzedExam, CustomAbbreviation, AnalysisPreferences } from "../types";
-
-// Helper to convert File/Blob to Base64
-const fileToBase64 = (file: File | Blob): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      const result = reader.result as string;
-      // Remove data URL prefix (e.g., "data:application/pdf;base64,")
-      const base64 = result.split(',')[1];
-      resolve(base64);
-    };
-    reader.onerror = (error) => reject(error);
-  });
-};
-
-// Updated Schema to handle both LAB and NON_LAB types
-const responseSchema: Schema = {
-  type: Type.ARRAY,
-  items: {
-    type: Type.OBJECT,
-    properties: {
-      patientInitials: {
-        type: Type.STRING,
-        description: "The initials of the patient's name (e.g., MJR).",
-      },
-      patientAge: {
-        type: Type.STRING,
-        description: "The age of the patient (e.g., '45 anos', '3 meses').",
-      },
-      collectionDate: {
-        type: Type.STRING,
-        description: "The date(s) of the exam.",
-      },
-      category: {
-        type: Type.STRING,
-        enum: ["LAB", "NON_LAB"],
-        description: "LAB for blood/urine tests with values. NON_LAB for Imaging (MRI, CT, USG), Pathology, or Medical Reports.",
-      },
-      // Fields for LAB
-      labResults: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            abbreviation: {
-              type: Type.STRING,
-              description: "Standardized medical abbreviation.",
-            },
-            value: {
-              type: Type.STRING,
-              description: "The numeric value.",
-            },
-            referenceRange: {
-              type: Type.STRING,
-              description: "The reference range extracted from the document. Empty if not requested.",
-            },
-            abnormality: {
-              type: Type.STRING,
-              enum: ["HIGH", "LOW", "NORMAL"]
-            }
-          },
-          required: ["abbreviation", "value", "abnormality"],
-        },
-      },
-      // Fields for NON_LAB
-      nonLabData: {
-        type: Type.OBJECT,
-        properties: {
-            examTitle: {
-                type: Type.STRING,
-                description: "The title of the exam (e.g., 'Ressonância Magnética de Crânio', 'Ultrassom Abdominal').",
-            },
-            mainFindings: {
-                type: Type.ARRAY,
-                items: { type: Type.STRING },
-                description: "A list of the most important findings summarized.",
-            },
-            impression: {
-                type: Type.STRING,
-                description: "The final conclusion, impression, or diagnosis summary.",
-            }
-        },
-        nullable: true
-      }
-    },
-    required: ["patientInitials", "category"],
-  }
+import { AnalyzedExam, CustomAbbreviation, CriticalThreshold, AnalysisPreferences } from "../types";
+import { buildInputParts, buildSystemInstruction } from "./extractionPrompt";
+import { AnalysisBatch, getExtractionProvider } from "./providers";
+import { AnalysisError, withRetry } from "./analysisErrors";
+import { applyReferenceEngine } from "./referenceRanges";
+import { attachLabValues } from "./labValues";
+import { attachLabCodes } from "./labCodes";
+import { sanitizeExtraction, scoreExtraction } from "./resultValidation";
+import { createAbbreviationNormalizer, normalizeExamAbbreviations } from "./abbreviationSynonyms";
+import { attachTextLayerBoxes, readUsableTextLayers } from "./pdfDocument";
+import { parseKnownLayouts, readHl7Messages } from "./labParsers";
+
+/**
+ * Opens the batch a chunked upload runs under, so its chunks (and retries of its failed files)
+ * share one credit. Providers without plan enforcement need none and return undefined.
+ */
+export const startAnalysisBatch = async (fileCount: number): Promise<AnalysisBatch | undefined> => {
+  const provider = getExtractionProvider();
+  if (!provider.startBatch) return undefined;
+  return withRetry(() => provider.startBatch!(fileCount), `Batch start (${provider.name})`);
 };
 
 export const analyzeLabExam = async (
   input: File[] | Blob | string, 
   customAbbreviations: CustomAbbreviation[] = [],
-  preferences: AnalysisPreferences
+  preferences: AnalysisPreferences,
+  criticalThresholds: CriticalThreshold[] = [],
+  batchId?: string
 ): Promise<AnalyzedExam[]> => {
-  if (!import.meta.env.VITE_GEMINI_API_KEY) {
-    throw new Error("Chave de API não configurada.");
+  const provider = getExtractionProvider();
+
+  // Digital PDFs go as their text layer (faster, cheaper, no 15MB cap); scans and images as files
+  const files = Array.isArray(input) ? input : [];
+  const textLayers = await readUsableTextLayers(files);
+  const hl7Messages = await readHl7Messages(files);
+
+  // Known lab layouts and HL7 messages are read deterministically; the model only sees what is left
+  const local = parseKnownLayouts(input, textLayers, customAbbreviations, hl7Messages);
+  let exams: AnalyzedExam[] = local.exams;
+  // An HL7 file without results is not something the model could read either
+  if (hl7Messages.some((message, index) => message !== null && !local.parsedFiles[index])) {
+    throw new AnalysisError('unreadable_document', 'O arquivo HL7 (.hl7/.txt) não traz resultados (segmentos OBX) legíveis.');
   }
 
-  const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_GEMINI_API_KEY });
-  
-  // Prepare contents based on input type
-  let parts: any[] = [];
-
-  if (typeof input === 'string') {
-    parts.push({
-      text: `Analyze the following raw text from a medical document:\n\n${input}`
-    });
-  } else if (input instanceof Blob && !(input instanceof File)) {
-    const base64 = await fileToBase64(input);
-    parts.push({
-      inlineData: {
-        mimeType: input.type || 'audio/wav',
-        data: base64,
-      },
+  if (!local.complete) {
+    const parts = await buildInputParts(input, textLayers, local.parsedFiles).catch(error => {
+      if (error instanceof AnalysisError) throw error;
+      console.error('Input read error:', error);
+      throw new AnalysisError('unreadable_document');
     });
-    parts.push({
-        text: "TRANSCRIPTION & ANALYSIS: The user has recorded an audio reading a medical exam. Transcribe precisely and analyze."
+    const systemInstruction = buildSystemInstruction(customAbbreviations, preferences);
+    // Transient failures are retried with backoff; plan limits and the rest surface classified
+    const extracted = await withRetry(
+      () => provider.extract({ parts, systemInstruction, customAbbreviations, preferences, batchId }),
+      `Extraction (${provider.name})`
+    ).catch(error => {
+      console.error(`Extraction Error (${provider.name}):`, error);
+      throw error;
     });
-  } else if (Array.isArray(input)) {
-    const base64Promises = input.map(file => fileToBase64(file));
-    const base64Results = await Promise.all(base64Promises);
-
-    parts = base64Results.map((base64, index) => ({
-      inlineData: {
-        mimeType: input[index].type,
-        data: base64,
-      },
-    }));
+    exams = [...exams, ...extracted];
   }
 
-  // Format custom abbreviations
-  const customRulesText = customAbbreviations.length > 0 
-    ? `\n    - **CUSTOM USER ABBREVIATIONS (PRIORITY)**:
-       If it is a LAB EXAM, use these:
-       ${customAbbreviations.map(ca => `- "${ca.examName}" MUST be abbreviated as "${ca.abbreviation}"`).join('\n       ')}
-       ` 
-    : '';
-
-  const referenceValueRule = preferences.showReferenceValues
-    ? "- **LAB REFS**: Include reference ranges in 'referenceRange'."
-    : "- **LAB REFS**: Leave 'referenceRange' empty.";
-
-  const systemInstruction = `
-    You are an expert medical assistant designed to summarize medical documents for doctors.
-    Your goal is to classify the document type (LAB vs NON_LAB) and extract relevant data strictly following the schema.
-
-    *STRICT ANTI-DUPLICATION RULE*: 
-    - *NEVER* repeat the same abbreviation for the SAME DATE in the output.
-    - If a document contains multiple columns with different dates (historical evolution), extract ALL columns as separate objects, each with its specific 'date'.
-
-    *STRICT NO-EVOLUTION RULE*:
-    - *NEVER* combine values with arrows (->).
-    - Always extract each result as a separate entry object with its specific date. 
-    - Example: If Hemoglobin is 12 on 01/01 and 13 on 02/01, create TWO distinct objects in the array. Do not merge them into a string.
-
-    *STEP 1: CLASSIFICATION*
-    - *LAB*: Blood work, Urine tests, Biochemical profiles.
-    - *NON_LAB*: Imaging (MRI, CT, X-Ray, USG), Pathology, Medical letters.
-
-    *STEP 2: EXTRACTION RULES (LAB)*
-
-    1. *ANONYMIZATION*: Patient Name -> Initials. Age -> Extract.
-    2. *DATA*: Extract values, replacing dots with commas (decimal separator). Remove units.
-    3. *ABNORMALITY*: Classify HIGH/LOW based on reference or medical knowledge.
-    
-    4. *STRICT HEMOGRAM RULES*:
-       - INCLUDE ONLY: Hb, Ht, VCM, CHCM, RDW, Leuco, Neutro, Bast, Segmentados, Eosi, Baso, Linfo, Mono, Plaq.
-       - *EXCLUDE*: VPM (MPV).
-
-    5. *RENAL & ELECTROLYTES*:
-       - *MANDATORY*: "Ureia" -> "Ur".
-       - *MANDATORY*: "Creatinina" -> "Cr".
-       - "Sodium" -> "Na", "Potassium" -> "K", "Phosphorus" -> "P", "Magnesium" -> "Mg", "Calcium" -> "Ca".
-
-    6. *URINE (URINA)*:
-       - *PROTEIN/CREATININE RATIO*: Extract ONLY as "P/CrU". Do not extract Urine Prot/Creat separately.
-       - *SUFFIX RULE*: Use " U" for urine-specific blood markers (e.g., "Leuco U", "H U", "Glic U").
-       - *EXCLUDE*: Eritr (count), Bili U, Urob U, Ascorbic Acid.
-
-    7. *IMMUNOSUPPRESSANTS*: Tacrolimus (Fk), Sirolimus (Srl), Ciclosporina (Csa), Everolimus (Evr).
-
-    8. *PCR*: "Proteína C Reativa" -> "PCR".
-
-    ${referenceValueRule}
-    ${customRulesText}
-
-    * IF "NON_LAB" *:
-    - Summarize findings in bullet points.
-    - Provide a clear 'impression' (conclusion).
-
-    *OUTPUT*: Return a JSON ARRAY of objects. Each object represents one patient's record.
-  `;
-
-  try {
-    parts.push({
-      text: "Analyze these medical documents. Identify patients. Classify as LAB or NON_LAB and extract data accordingly."
-    });
-
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: [
-        {
-          parts: parts
-        }
-      ],
-      config: {
-        systemInstruction: systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-        temperature: 0.1, 
-      },
-    });
-
-    const jsonText = response.text;
-    if (!jsonText) throw new Error("Falha ao gerar resposta.");
-
-    const parsedData = JSON.parse(jsonText);
-    const resultsArray = Array.isArray(parsedData) ? parsedData : [parsedData];
-
-    return resultsArray.map((patientData: any) => {
-        // Fallback summary logic
-        let summaryString = "";
-        if (patientData.category === 'NON_LAB' && patientData.nonLabData) {
-            summaryString = `${patientData.nonLabData.examTitle}: ${patientData.nonLabData.impression}`;
-        } else {
-            summaryString = patientData.labResults
-                ? patientData.labResults.map((r: any) => `${r.abbreviation} ${r.value}`).join(' / ')
-                : "Sem dados";
-        }
-
-        return {
-            id: crypto.randomUUID(),
-            patientInitials: patientData.patientInitials || 'N/A',
-            patientAge: patientData.patientAge || '',
-            collectionDate: patientData.collectionDate || '',
-            category: patientData.category || 'LAB',
-            results: patientData.labResults || [],
-            nonLabData: patientData.nonLabData || undefined,
-            rawSummary: summaryString
-        };
-    });
-
-  } catch (error) {
-    console.error("Gemini Analysis Error:", error);
-    throw new Error("Não foi possível processar o documento. Tente novamente.");
-  }
-};
\ No newline at end of file
+  // Schema check, one spelling (and LOINC/TUSS code) per analyte, typed values, arrows from
+  // the local range engine rather than the model's own judgement, then per-item confidence
+  const normalize = createAbbreviationNormalizer(customAbbreviations);
+  const checked = sanitizeExtraction(exams, files.length)
+    .map(exam => attachLabCodes(normalizeExamAbbreviations(exam, normalize)))
+    .map(exam => applyReferenceEngine(attachLabValues(attachTextLayerBoxes(exam, textLayers)), criticalThresholds));
+  const scored = scoreExtraction(checked, customAbbreviations);
+  if (scored.length === 0) throw new AnalysisError('no_patient_detected');
+
+  // The uploaded files stay with the exams so the viewer can show where each value came from
+  return files.length > 0 ? scored.map(exam => ({ ...exam, sourceFiles: files })) : scored;
+};
@@ -0,0 +1,138 @@
+import { AnalyzedExam, LabResultItem, LabValue } from "../types";
+import { resolveCollectionDate } from "./collectionDate";
+import { withLabCodes } from "./labCodes";
+import { getLabValue, parseReferenceRange } from "./labValues";
+import { needsReview } from "./resultValidation";
+
+// HL7 v2.5.1 ORU^R01, ER7 encoding with the standard delimiters
+const SEGMENT_SEPARATOR = '\r';
+const SENDING_APPLICATION = 'IZI-LAB';
+
+const FLAGS: Record<LabResultItem['abnormality'], string> = {
+  NORMAL: 'N',
+  HIGH: 'H',
+  LOW: 'L',
+  CRITICAL_HIGH: 'HH',
+  CRITICAL_LOW: 'LL',
+};
+
+// Delimiters inside a value go as escape sequences; the escape character first
+const escapeText = (text: string): string =>
+  text
+    .replace(/\\/g, '\\E\\')
+    .replace(/\|/g, '\\F\\')
+    .replace(/\^/g, '\\S\\')
+    .replace(/&/g, '\\T\\')
+    .replace(/~/g, '\\R\\')
+    .replace(/\r?\n/g, '\\.br\\');
+
+// Fields by their HL7 number ({ 3: ... } is PID-3); MSH-1 is the field separator itself
+const segment = (name: string, fields: Record<number, string | undefined>): string => {
+  const offset = name === 'MSH' ? 1 : 0;
+  const last = Math.max(...Object.keys(fields).map(Number));
+  const values = Array.from({ length: last - offset }, (_, index) => fields[index + 1 + offset] ?? '');
+  return [name, ...values].join('|').replace(/\|+$/, '');
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toTimestamp = (date: Date, withTime = false): string =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+  (withTime ? `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}` : '');
+
+// HL7 numbers use "." as the decimal mark
+const hl7Number = (value: number): string => String(value);
+
+/** OBX-2 and OBX-5 from the typed value: NM, SN for censored results and ratios, ST for text */
+const observationValue = (labValue: LabValue): { type: string; value: string } => {
+  switch (labValue.kind) {
+    case 'numeric':
+      return { type: 'NM', value: hl7Number(labValue.value) };
+    case 'censored-below':
+      return { type: 'SN', value: `<^${hl7Number(labValue.limit)}` };
+    case 'censored-above':
+      return { type: 'SN', value: `>^${hl7Number(labValue.limit)}` };
+    case 'ratio':
+      return { type: 'SN', value: `^${hl7Number(labValue.numerator)}^:^${hl7Number(labValue.denominator)}` };
+    case 'titer':
+      return { type: 'SN', value: `^1^:^${hl7Number(labValue.dilution)}` };
+    case 'qualitative':
+      return { type: 'ST', value: escapeText(labValue.text) };
+  }
+};
+
+// OBX-7 as "low-high", "<high" or ">low"; ranges that do not read as numbers go as text
+const referenceRange = (reference: string | undefined): string | undefined => {
+  if (!reference) return undefined;
+  const { min, max } = parseReferenceRange(reference);
+  if (min !== null && max !== null) return `${hl7Number(min)}-${hl7Number(max)}`;
+  if (max !== null) return `<${hl7Number(max)}`;
+  if (min !== null) return `>${hl7Number(min)}`;
+  return escapeText(reference);
+};
+
+const toObx = (item: LabResultItem, index: number, timestamp: string | undefined): string => {
+  const { loinc } = withLabCodes(item);
+  const abbreviation = escapeText(item.abbreviation);
+  const { type, value } = observationValue(getLabValue(item));
+  return segment('OBX', {
+    1: String(index + 1),
+    2: type,
+    3: loinc ? `${loinc}^${abbreviation}^LN` : `${abbreviation}^${abbreviation}^L`,
+    5: value,
+    6: item.unit ? escapeText(item.unit) : undefined,
+    7: referenceRange(item.referenceRange),
+    8: FLAGS[item.abnormality],
+    // Low-confidence results nobody confirmed are not final
+    11: needsReview(item) ? 'P' : 'F',
+    14: timestamp,
+  });
+};
+
+// NON_LAB reports travel as text: the title on OBR-4, findings and impression as TX lines
+const reportObx = (exam: AnalyzedExam, timestamp: string | undefined): string[] => {
+  const data = exam.nonLabData || { examTitle: '', mainFindings: [], impression: '' };
+  const lines = [
+    ...data.mainFindings.map(finding => ['FINDINGS', 'Achados principais', finding]),
+    ...(data.impression ? [['IMPRESSION', 'Impressão', data.impression]] : []),
+  ];
+  return lines.map(([code, text, value], index) =>
+    segment('OBX', { 1: String(index + 1), 2: 'TX', 3: `${code}^${text}^L`, 5: escapeText(value), 11: 'F', 14: timestamp }));
+};
+
+/**
+ * One ORU^R01 message for a card: PID carries only the initials (as an identifier under
+ * our own authority, no name), then an OBR per exam with its OBX results. Evolution cards
+ * pass every date's exam; each OBR keeps its own collection date.
+ */
+export const buildOruR01 = (exams: AnalyzedExam[], now: Date = new Date()): string => {
+  const first = exams[0];
+  const controlId = crypto.randomUUID().replace(/-/g, '').slice(0, 20);
+  const sex = first?.patientSex === 'M' || first?.patientSex === 'F' ? first.patientSex : 'U';
+
+  const segments = [
+    segment('MSH', {
+      2: '^~\\&',
+      3: SENDING_APPLICATION,
+      7: toTimestamp(now, true),
+      9: 'ORU^R01^ORU_R01',
+      10: controlId,
+      11: 'P',
+      12: '2.5.1',
+      18: 'UNICODE UTF-8',
+    }),
+    segment('PID', { 1: '1', 3: `${escapeText(first?.patientInitials || 'N/A')}^^^${SENDING_APPLICATION}`, 8: sex }),
+    ...exams.flatMap((exam, index) => {
+      const date = resolveCollectionDate(exam.collectionDate);
+      const timestamp = date ? toTimestamp(date) : undefined;
+      const service = exam.category === 'NON_LAB'
+        ? `RAD^${escapeText(exam.nonLabData?.examTitle || 'Laudo')}^L`
+        : 'LAB^Exames laboratoriais^L';
+      return [
+        segment('OBR', { 1: String(index + 1), 3: escapeText(exam.id), 4: service, 7: timestamp, 25: 'F' }),
+        ...(exam.category === 'NON_LAB' ? reportObx(exam, timestamp) : exam.results.map((item, itemIndex) => toObx(item, itemIndex, timestamp))),
+      ];
+    }),
+  ];
+  return segments.join(SEGMENT_SEPARATOR) + SEGMENT_SEPARATOR;
+};
@@ -0,0 +1,64 @@
+import { LabCategory } from '../types';
+import { abbreviationKey } from './labValues';
+
+// System Categorization Map (For Labs)
+export const SYSTEM_CATEGORIES: Record<string, string[]> = {
+  'HEMOGRAMA': ['Hb', 'Ht', 'VCM', 'HCM', 'CHCM', 'RDW', 'Leuco', 'Neut', 'Linf', 'Mono', 'Eos', 'Plq', 'MPV'],
+  'RENAL': ['Ur', 'Cr', 'Cist-C'],
+  'ELETRÓLITOS': ['Na', 'K', 'Ca', 'Mg', 'P', 'Cl', 'Cálcio Ion'],
+  'METABÓLICO': ['Glic', 'HbA1c', 'Homa-IR', 'Insul', 'Lac', 'Lactato'],
+  'LIPIDOGRAMA': ['Col-T', 'HDL', 'LDL', 'TG', 'VLDL'],
+  'HEPÁTICO': ['TGO', 'TGP', 'GGT', 'FA', 'Bil-T', 'Bil-D', 'Bil-I', 'Albumina', 'Proteínas'],
+  'HORMONAL': ['TSH', 'T4L', 'T3', 'Vit-D', 'Vit-B12', 'PTH', 'Cortisol'],
+  'INFLAMATÓRIO': ['PCR', 'VHS', 'Ferr', 'Fibrin', 'Proc'],
+  'CARDÍACO': ['Trop', 'CK-MB', 'BNP', 'CK'],
+  'GASOMETRIA': ['pH', 'pO2', 'pCO2', 'HCO3', 'BE', 'SatO2'],
+  'URINA': ['EAS', 'Leuco-U', 'Hem-U', 'Prot-U'],
+};
+
+// Used until the user saves their own categories (Configurações)
+export const DEFAULT_LAB_CATEGORIES: LabCategory[] = Object.entries(SYSTEM_CATEGORIES).map(([name, abbreviations]) => ({
+  id: `default-${name.toLowerCase()}`,
+  name,
+  abbreviations,
+}));
+
+export const OTHER_CATEGORY = 'OUTROS';
+
+// "Leuco U", "Leuco-U" and "leuco-u" are the same analyte (and aliases such as Plaq -> Plq)
+const categoryKey = (abbr: string): string => abbreviationKey(abbr).replace(/[-\s.]/g, '');
+
+export interface AnalytePlacement {
+  category: string;
+  categoryIndex: number; // Unknown abbreviations come after every category, as OUTROS
+  position: number; // Place inside the category
+}
+
+export const locateAnalyte = (abbr: string, categories: LabCategory[] = DEFAULT_LAB_CATEGORIES): AnalytePlacement => {
+  const key = categoryKey(abbr);
+  for (let categoryIndex = 0; categoryIndex < categories.length; categoryIndex++) {
+    const position = categories[categoryIndex].abbreviations.findIndex(item => categoryKey(item) === key);
+    if (position >= 0) return { category: categories[categoryIndex].name, categoryIndex, position };
+  }
+  return { category: OTHER_CATEGORY, categoryIndex: categories.length, position: Number.MAX_SAFE_INTEGER };
+};
+
+// Helper to determine category for an abbreviation
+export const getCategory = (abbr: string, categories: LabCategory[] = DEFAULT_LAB_CATEGORIES): string =>
+  locateAnalyte(abbr, categories).category;
+
+/** Category order, then the analyte's place inside it; ties (e.g. two OUTROS) keep their order. */
+export const compareAnalytes = (categories: LabCategory[]) => (a: string, b: string): number => {
+  const placeA = locateAnalyte(a, categories);
+  const placeB = locateAnalyte(b, categories);
+  return placeA.categoryIndex - placeB.categoryIndex || placeA.position - placeB.position;
+};
+
+/** Adds an abbreviation to a category, taking it out of any other: an analyte has one place. */
+export const assignAnalyte = (categories: LabCategory[], categoryId: string, abbr: string): LabCategory[] => {
+  const key = categoryKey(abbr);
+  return categories.map(category => {
+    const kept = category.abbreviations.filter(item => categoryKey(item) !== key);
+    return category.id === categoryId ? { ...category, abbreviations: [...kept, abbr] } : { ...category, abbreviations: kept };
+  });
+};
@@ -0,0 +1,170 @@
+import { AnalyzedExam, LabResultItem, COMMON_ABBREVIATIONS } from "../types";
+import { abbreviationKey } from "./labValues";
+
+export type Specimen = 'serum' | 'urine';
+
+export interface LabCodes {
+  loinc: string;
+  tuss?: string; // Brazilian billing (TUSS, ANS): only where the analyte is billed on its own or with its panel
+}
+
+const { HEMOGLOBIN, HEMATOCRIT, LEUKOCYTES, PLATELETS, GLUCOSE, UREA, CREATININE, SODIUM, POTASSIUM,
+  CHOLESTEROL_TOTAL, HDL, LDL, TRIGLYCERIDES, TSH, T4_FREE, PCR, VHS, TGO, TGP, GGT, FERRITIN,
+  VITAMIN_B12, VITAMIN_D } = COMMON_ABBREVIATIONS;
+
+// Hemogram components are billed together as "Hemograma com contagem de plaquetas"
+const HEMOGRAM_TUSS = '40304361';
+
+/*
+ * Serum/plasma (or whole blood, where that is the usual specimen) codes per canonical
+ * abbreviation, as produced by abbreviationSynonyms. Blood gases assume an arterial sample;
+ * differential counts are the absolute (#/volume) codes.
+ */
+const SERUM_CODES: Record<string, LabCodes> = {
+  // HEMOGRAMA
+  [HEMOGLOBIN]: { loinc: '718-7', tuss: HEMOGRAM_TUSS },
+  [HEMATOCRIT]: { loinc: '4544-3', tuss: HEMOGRAM_TUSS },
+  'VCM': { loinc: '787-2', tuss: HEMOGRAM_TUSS },
+  'HCM': { loinc: '785-6', tuss: HEMOGRAM_TUSS },
+  'CHCM': { loinc: '786-4', tuss: HEMOGRAM_TUSS },
+  'RDW': { loinc: '788-0', tuss: HEMOGRAM_TUSS },
+  [LEUKOCYTES]: { loinc: '6690-2', tuss: HEMOGRAM_TUSS },
+  'Neutro': { loinc: '751-8', tuss: HEMOGRAM_TUSS },
+  'Linfo': { loinc: '731-0', tuss: HEMOGRAM_TUSS },
+  'Mono': { loinc: '742-7', tuss: HEMOGRAM_TUSS },
+  'Eosi': { loinc: '711-2', tuss: HEMOGRAM_TUSS },
+  'Baso': { loinc: '704-7', tuss: HEMOGRAM_TUSS },
+  [PLATELETS]: { loinc: '777-3', tuss: HEMOGRAM_TUSS },
+  'MPV': { loinc: '32623-1', tuss: HEMOGRAM_TUSS },
+  // RENAL
+  [UREA]: { loinc: '3091-6', tuss: '40302580' },
+  [CREATININE]: { loinc: '2160-0', tuss: '40301630' },
+  'Cist-C': { loinc: '33863-2' },
+  // ELETRÓLITOS
+  [SODIUM]: { loinc: '2951-2', tuss: '40302423' },
+  [POTASSIUM]: { loinc: '2823-3', tuss: '40302318' },
+  'Cl': { loinc: '2075-0' },
+  'Ca': { loinc: '17861-6' },
+  'Cálcio Ion': { loinc: '1994-3' },
+  'Mg': { loinc: '19123-9' },
+  'P': { loinc: '2777-1' },
+  // METABÓLICO
+  [GLUCOSE]: { loinc: '2345-7', tuss: '40302040' },
+  'HbA1c': { loinc: '4548-4', tuss: '40302075' },
+  'Insul': { loinc: '20448-7' },
+  'Lac': { loinc: '2524-7' },
+  'Lactato': { loinc: '2524-7' },
+  // LIPIDOGRAMA
+  [CHOLESTEROL_TOTAL]: { loinc: '2093-3', tuss: '40301605' },
+  [HDL]: { loinc: '2085-9', tuss: '40301583' },
+  [LDL]: { loinc: '13457-7', tuss: '40301591' },
+  'VLDL': { loinc: '13458-5' },
+  [TRIGLYCERIDES]: { loinc: '2571-8', tuss: '40302547' },
+  // HEPÁTICO
+  [TGO]: { loinc: '1920-8', tuss: '40302504' },
+  [TGP]: { loinc: '1742-6', tuss: '40302512' },
+  [GGT]: { loinc: '2324-2' },
+  'FA': { loinc: '6768-6' },
+  'Bil-T': { loinc: '1975-2' },
+  'Bil-D': { loinc: '1968-7' },
+  'Bil-I': { loinc: '1971-1' },
+  'Albumina': { loinc: '1751-7' },
+  'Proteínas': { loinc: '2885-2' },
+  // HORMONAL
+  [TSH]: { loinc: '3016-3', tuss: '40316521' },
+  [T4_FREE]: { loinc: '3024-7' },
+  'T3': { loinc: '3053-6' },
+  [VITAMIN_D]: { loinc: '62292-8', tuss: '40302830' },
+  [VITAMIN_B12]: { loinc: '2132-9', tuss: '40316572' },
+  'PTH': { loinc: '2731-8' },
+  'Cortisol': { loinc: '2143-6' },
+  // INFLAMATÓRIO
+  [PCR]: { loinc: '1988-5', tuss: '40308391' },
+  [VHS]: { loinc: '30341-2' },
+  [FERRITIN]: { loinc: '2276-4', tuss: '40316270' },
+  'Fibrin': { loinc: '3255-7' },
+  'Proc': { loinc: '33959-8' },
+  // CARDÍACO
+  'CK': { loinc: '2157-6' },
+  'CK-MB': { loinc: '13969-1' },
+  'BNP': { loinc: '30934-4' },
+  // GASOMETRIA
+  'pH': { loinc: '2744-1' },
+  'pCO2': { loinc: '2019-8' },
+  'pO2': { loinc: '2703-7' },
+  'HCO3': { loinc: '1960-4' },
+  'BE': { loinc: '1925-7' },
+  'SatO2': { loinc: '2708-6' },
+  // IMUNOSSUPRESSORES (whole blood)
+  'Fk': { loinc: '11253-2' },
+  'Csa': { loinc: '3520-4' },
+  'Srl': { loinc: '29247-4' },
+  'Evr': { loinc: '50544-6' },
+};
+
+// Urine codes: "<abbr> U" per the prompt's suffix rule, plus the ratio and the panel itself
+const URINE_CODES: Record<string, LabCodes> = {
+  'EAS': { loinc: '24356-8', tuss: '40311210' },
+  [LEUKOCYTES]: { loinc: '5821-4', tuss: '40311210' },
+  'H': { loinc: '13945-1', tuss: '40311210' },
+  'Hem': { loinc: '13945-1', tuss: '40311210' },
+  'Prot': { loinc: '20454-5', tuss: '40311210' },
+  [GLUCOSE]: { loinc: '5792-7', tuss: '40311210' },
+  [CREATININE]: { loinc: '2161-8' },
+  [SODIUM]: { loinc: '2955-3' },
+  [POTASSIUM]: { loinc: '2828-2' },
+  'P/CrU': { loinc: '2890-2' },
+};
+
+const keyed = (codes: Record<string, LabCodes>) =>
+  new Map(Object.entries(codes).map(([abbreviation, entry]) => [abbreviationKey(abbreviation), entry]));
+
+const CODES: Record<Specimen, Map<string, LabCodes>> = {
+  serum: keyed(SERUM_CODES),
+  urine: keyed(URINE_CODES),
+};
+
+const URINE_SUFFIX = /[-\s]+U$/i;
+
+/** "Leuco U" -> urine Leuco; "P/CrU" and "EAS" are urine as a whole. */
+export const specimenOf = (abbreviation: string): { specimen: Specimen; analyte: string } => {
+  const trimmed = abbreviation.trim();
+  if (URINE_SUFFIX.test(trimmed)) return { specimen: 'urine', analyte: trimmed.replace(URINE_SUFFIX, '') };
+  if (CODES.urine.has(abbreviationKey(trimmed)) && !CODES.serum.has(abbreviationKey(trimmed))) {
+    return { specimen: 'urine', analyte: trimmed };
+  }
+  return { specimen: 'serum', analyte: trimmed };
+};
+
+export const findLabCodes = (abbreviation: string): LabCodes | null => {
+  const { specimen, analyte } = specimenOf(abbreviation);
+  return CODES[specimen].get(abbreviationKey(analyte)) ?? null;
+};
+
+// Reverse lookup for structured sources (HL7 OBX-3): first abbreviation listed for the code,
+// urine analytes with the " U" suffix unless the code is urine as a whole
+const BY_LOINC = new Map<string, string>();
+Object.entries(SERUM_CODES).forEach(([abbreviation, { loinc }]) => {
+  if (!BY_LOINC.has(loinc)) BY_LOINC.set(loinc, abbreviation);
+});
+Object.entries(URINE_CODES).forEach(([abbreviation, { loinc }]) => {
+  if (BY_LOINC.has(loinc)) return;
+  BY_LOINC.set(loinc, specimenOf(abbreviation).specimen === 'urine' ? abbreviation : `${abbreviation} U`);
+});
+
+export const abbreviationForLoinc = (code: string): string | null => BY_LOINC.get(code.trim()) ?? null;
+
+// Always derived from the abbreviation, like parsedValue from the value
+export const withLabCodes = (item: LabResultItem): LabResultItem => {
+  const codes = findLabCodes(item.abbreviation);
+  return { ...item, loinc: codes?.loinc, tuss: codes?.tuss };
+};
+
+export const attachLabCodes = (exam: AnalyzedExam): AnalyzedExam => {
+  if (exam.category !== 'LAB') return exam;
+  return { ...exam, results: exam.results.map(withLabCodes) };
+};
+
+// Hover text of a result: "LOINC 2160-0 · TUSS 40301630"
+export const describeLabCodes = (item: Pick<LabResultItem, 'loinc' | 'tuss'>): string | undefined =>
+  item.loinc ? [`LOINC ${item.loinc}`, item.tuss && `TUSS ${item.tuss}`].filter(Boolean).join(' · ') : undefined;
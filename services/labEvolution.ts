@@ -0,0 +1,82 @@
+import { AnalyzedExam, LabResultItem } from '../types';
+import { resolveCollectionDate } from './collectionDate';
+import { abnormalityArrow } from './referenceRanges';
+import { formatLabValue } from './labValues';
+
+export interface EvolutionPoint {
+  date: string; // dd/mm
+  item: LabResultItem;
+}
+
+export interface PatientEvolution {
+  patientInitials: string;
+  examIds: string[];
+  dates: string[]; // dd/mm, oldest first
+  series: Record<string, EvolutionPoint[]>; // abbreviation -> points, oldest first
+  latest: AnalyzedExam;
+}
+
+const shortDate = (exam: AnalyzedExam): string => {
+  const date = resolveCollectionDate(exam.collectionDate);
+  if (!date) return exam.collectionDate || '';
+  return `${String(date.getDate()).padStart(2, '0')}/${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const sortKey = (exam: AnalyzedExam): number =>
+  resolveCollectionDate(exam.collectionDate)?.getTime() ?? Number.MAX_SAFE_INTEGER;
+
+/**
+ * Agrupa exames LAB do mesmo paciente em uma evolução por data.
+ * Só retorna grupos com mais de uma data de coleta; o resto continua como card simples.
+ */
+export const buildEvolutions = (exams: AnalyzedExam[]): PatientEvolution[] => {
+  const byPatient: Record<string, AnalyzedExam[]> = {};
+
+  exams
+    .filter((exam) => exam.category === 'LAB' && exam.results.length > 0)
+    .forEach((exam) => {
+      const key = exam.patientInitials.trim().toUpperCase();
+      if (!byPatient[key]) byPatient[key] = [];
+      byPatient[key].push(exam);
+    });
+
+  const evolutions: PatientEvolution[] = [];
+
+  Object.values(byPatient).forEach((group) => {
+    const sorted = [...group].sort((a, b) => sortKey(a) - sortKey(b));
+    const dates = Array.from(new Set(sorted.map(shortDate)));
+    if (dates.length < 2) return;
+
+    const series: Record<string, EvolutionPoint[]> = {};
+    sorted.forEach((exam) => {
+      const date = shortDate(exam);
+      exam.results.forEach((item) => {
+        if (!series[item.abbreviation]) series[item.abbreviation] = [];
+        const points = series[item.abbreviation];
+        // Same abbreviation on the same date: keep the latest occurrence only
+        const existing = points.findIndex((p) => p.date === date);
+        if (existing >= 0) points[existing] = { date, item };
+        else points.push({ date, item });
+      });
+    });
+
+    evolutions.push({
+      patientInitials: sorted[0].patientInitials,
+      examIds: sorted.map((exam) => exam.id),
+      dates,
+      series,
+      latest: sorted[sorted.length - 1],
+    });
+  });
+
+  return evolutions;
+};
+
+/** "1,2 (01/03) → 1,5 (05/03)"; com a seta de cada valor alterado quando `withArrows` */
+export const formatEvolutionValues = (points: EvolutionPoint[], withArrows = false): string =>
+  points
+    .map(({ date, item }) => {
+      const arrow = withArrows && item.abnormality !== 'NORMAL' ? ` ${abnormalityArrow(item.abnormality)}` : '';
+      return `${formatLabValue(item.value)}${arrow} (${date})`;
+    })
+    .join(' → ');
@@ -0,0 +1,13 @@
+import { readFileSync } from 'node:fs';
+import type { ReportPage } from '../types';
+
+// Text layers as the PDF reader returns them: columns two spaces apart, pages split by a
+// form feed. Names, record numbers and dates are made up.
+export const readFixture = (name: string): string =>
+  readFileSync(new URL(`./${name}`, import.meta.url), 'utf8');
+
+export const fixturePages = (name: string): ReportPage[] =>
+  readFixture(name).split('\f').map((text, index) => ({
+    page: index + 1,
+    lines: text.split(/\r?\n/).map(line => ({ text: line.trim() })).filter(line => line.text),
+  }));
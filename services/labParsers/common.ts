@@ -0,0 +1,182 @@
+import { COMMON_ABBREVIATIONS, CustomAbbreviation } from '../../types';
+import type { AnalyteResolver, ParsedReport, ParsedResult, ReportHeader, ReportLine, ReportPage } from './types';
+
+// A layout only counts as recognised with at least this many rows; fewer means
+// the lab changed its template (or this is another document) and the model takes over
+export const MIN_PARSED_RESULTS = 3;
+
+const {
+  HEMOGLOBIN, HEMATOCRIT, LEUKOCYTES, PLATELETS, GLUCOSE, UREA, CREATININE, SODIUM, POTASSIUM,
+  CHOLESTEROL_TOTAL, HDL, LDL, TRIGLYCERIDES, TSH, T4_FREE, PCR, VHS, TGO, TGP, GGT, FERRITIN,
+  VITAMIN_B12, VITAMIN_D,
+} = COMMON_ABBREVIATIONS;
+
+// Printed names (accents stripped, lowercase) -> abbreviations from the extraction prompt.
+// Order matters: the more specific name comes first ("hemoglobina glicada" before "hemoglobina").
+const ANALYTE_NAMES: [RegExp, string][] = [
+  [/^hemoglobina glicada|^hba1c/, 'HbA1c'],
+  [/^hemoglobina corpuscular media$|^hcm$/, 'HCM'],
+  [/^concentracao de hemoglobina corpuscular media|^chcm$/, 'CHCM'],
+  [/^hemoglobina$/, HEMOGLOBIN],
+  [/^hematocrito$/, HEMATOCRIT],
+  [/^volume corpuscular medio$|^vcm$/, 'VCM'],
+  [/^rdw/, 'RDW'],
+  [/^leucocitos$|^leucocitos totais$/, LEUKOCYTES],
+  [/^neutrofilos$/, 'Neutro'],
+  [/^bastoes$|^bastonetes$/, 'Bast'],
+  [/^segmentados$/, 'Segmentados'],
+  [/^eosinofilos$/, 'Eosi'],
+  [/^basofilos$/, 'Baso'],
+  [/^linfocitos$|^linfocitos tipicos$/, 'Linfo'],
+  [/^monocitos$/, 'Mono'],
+  [/^plaquetas$|^contagem de plaquetas$/, PLATELETS],
+  [/^glicose$|^glicemia( de jejum)?$/, GLUCOSE],
+  [/^ureia$/, UREA],
+  [/^creatinina$/, CREATININE],
+  [/^sodio$/, SODIUM],
+  [/^potassio$/, POTASSIUM],
+  [/^calcio ionico|^calcio ionizado/, 'Cálcio Ion'],
+  [/^calcio( total)?$/, 'Ca'],
+  [/^magnesio$/, 'Mg'],
+  [/^fosforo$/, 'P'],
+  [/^cloro$|^cloreto$/, 'Cl'],
+  [/^colesterol total$/, CHOLESTEROL_TOTAL],
+  [/^(colesterol )?hdl/, HDL],
+  [/^(colesterol )?ldl/, LDL],
+  [/^(colesterol )?vldl/, 'VLDL'],
+  [/^triglicer[ií]deos$|^triglicerides$/, TRIGLYCERIDES],
+  [/^tsh|^hormonio tireoestimulante/, TSH],
+  [/^t4 livre$|^tiroxina livre$/, T4_FREE],
+  [/^proteina c reativa/, PCR],
+  [/^vhs$|^velocidade de hemossedimentacao/, VHS],
+  [/^tgo$|^ast$|^aspartato aminotransferase|^transaminase oxalacetica/, TGO],
+  [/^tgp$|^alt$|^alanina aminotransferase|^transaminase piruvica/, TGP],
+  [/^gama[ -]?gt$|^gama glutamil/, GGT],
+  [/^fosfatase alcalina$/, 'FA'],
+  [/^bilirrubina total$/, 'Bil-T'],
+  [/^bilirrubina direta$/, 'Bil-D'],
+  [/^bilirrubina indireta$/, 'Bil-I'],
+  [/^albumina$/, 'Albumina'],
+  [/^ferritina$/, FERRITIN],
+  [/^vitamina b12$/, VITAMIN_B12],
+  [/^(25[ -]?oh )?vitamina d|^25[ -]?hidroxivitamina d/, VITAMIN_D],
+  [/^troponina/, 'Trop'],
+  [/^creatinofosfoquinase$|^cpk$|^ck$/, 'CK'],
+  [/^lactato$/, 'Lactato'],
+  [/^relacao proteina\/creatinina|^proteinuria\/creatininuria/, 'P/CrU'],
+  [/^tacrolimus|^tacrolimo/, 'Fk'],
+  [/^sirolimus|^sirolimo/, 'Srl'],
+  [/^ciclosporina/, 'Csa'],
+  [/^everolimus|^everolimo/, 'Evr'],
+];
+
+export const normalizeName = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[.:*]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// The user's own abbreviations win, as in the extraction prompt
+export const createAnalyteResolver = (customAbbreviations: CustomAbbreviation[] = []): AnalyteResolver => {
+  const custom = new Map(customAbbreviations.map(ca => [normalizeName(ca.examName), ca.abbreviation]));
+  return (printedName: string) => {
+    const name = normalizeName(printedName);
+    if (!name) return null;
+    const customMatch = custom.get(name);
+    if (customMatch) return customMatch;
+    const entry = ANALYTE_NAMES.find(([pattern]) => pattern.test(name));
+    return entry ? entry[1] : null;
+  };
+};
+
+const QUALITATIVE = String.raw`n[aã]o reagente|reagente|negativo|positivo|ausentes?|presentes?|indetect[aá]vel|detect[aá]vel`;
+const VALUE = String.raw`(?:[<>]=?\s*)?\d+(?:[.,]\d+)*|${QUALITATIVE}`;
+// Units either carry a slash ("mg/dL", "/mm³", "x10³/µL") or come from a short list;
+// a bare word would swallow the first word of the reference ("De 12 a 16")
+const UNIT = String.raw`[^\s/]*\/[^\s]+|%|fL|fl|pg|seg|mm`;
+const VALUE_TAIL = new RegExp(`^(${VALUE})(?:\\s+(${UNIT}))?(?:\\s+(.*))?$`, 'i');
+const REFERENCE_PREFIX = /^(?:VR|V\.R\.|Ref\.?|Refer[êe]ncia|Valor(?:es)? de refer[êe]ncia(?: \(adulto\))?)\s*:?\s*/i;
+
+export const cleanReference = (text: string | undefined): string | undefined => {
+  const reference = text?.replace(REFERENCE_PREFIX, '').trim();
+  return reference ? reference : undefined;
+};
+
+/** "13,5 g/dL 12,0 a 16,0" -> value, unit and reference; null when it does not start with a value */
+export const readValueTail = (text: string): Pick<ParsedResult, 'value' | 'unit' | 'referenceRange'> | null => {
+  const match = VALUE_TAIL.exec(text.replace(/\s+/g, ' ').trim());
+  if (!match) return null;
+  return {
+    value: match[1].replace(/\s+/g, ''),
+    unit: match[2] || undefined,
+    referenceRange: cleanReference(match[3]),
+  };
+};
+
+// Columns in text layers are joined by two spaces; pasted tables use tabs or pipes
+export const splitColumns = (text: string): string[] =>
+  text.split(/\s{2,}|\t|\s*\|\s*/).map(column => column.trim()).filter(Boolean);
+
+/** "Hemoglobina  13,5  g/dL  12,0 a 16,0": first column is the name, the rest the value tail */
+export const readColumnRow = (line: ReportLine, page: number, resolveAnalyte: AnalyteResolver): ParsedResult | null => {
+  const [name, ...rest] = splitColumns(line.text);
+  const abbreviation = name ? resolveAnalyte(name) : null;
+  if (!abbreviation || rest.length === 0) return null;
+  const tail = readValueTail(rest.join(' '));
+  return tail ? { abbreviation, ...tail, page, box: line.box } : null;
+};
+
+export interface NumberedLine extends ReportLine {
+  page: number;
+}
+
+export const allLines = (pages: ReportPage[]): NumberedLine[] =>
+  pages.flatMap(page => page.lines.map(line => ({ ...line, page: page.page })));
+
+export const pagesText = (pages: ReportPage[]): string =>
+  allLines(pages).map(line => line.text).join('\n');
+
+const NAME_CONNECTORS = new Set(['da', 'de', 'do', 'das', 'dos', 'e']);
+
+// Same anonymization as the prompt: the name never leaves this function
+export const toInitials = (name: string): string =>
+  name
+    .split(/\s+/)
+    .filter(word => word && !NAME_CONNECTORS.has(word.toLowerCase()))
+    .map(word => word[0].toUpperCase())
+    .join('') || 'N/A';
+
+const PATIENT_NAME = /(?:Paciente|Cliente|Nome)\s*:\s*([A-Za-zÀ-ú][A-Za-zÀ-ú' .]+?)(?:\s{2,}|\t|\s*\||$)/m;
+const PATIENT_AGE = /Idade\s*:\s*(\d+\s*(?:anos?|a|meses|m|dias|d)\b)/i;
+const PATIENT_SEX = /Sexo\s*:\s*(M|F|Masculino|Feminino)\b/i;
+const COLLECTION_DATE = /(?:Data d[ae] coleta|Coletado em|Coleta|Data do material|Data de entrada)\s*:?\s*(\d{2}\/\d{2}(?:\/\d{2,4})?)/i;
+
+export const readHeader = (text: string): ReportHeader => {
+  const name = PATIENT_NAME.exec(text)?.[1];
+  const sex = PATIENT_SEX.exec(text)?.[1]?.[0].toUpperCase();
+  return {
+    patientInitials: name ? toInitials(name) : 'N/A',
+    patientAge: PATIENT_AGE.exec(text)?.[1].replace(/\s*a$/i, ' anos') || '',
+    patientSex: sex === 'M' || sex === 'F' ? sex : undefined,
+    collectionDate: COLLECTION_DATE.exec(text)?.[1] || '',
+  };
+};
+
+// Repeated analytes (cumulative reports, page headers) keep the first occurrence only,
+// matching the prompt's anti-duplication rule
+export const dedupeResults = (results: ParsedResult[]): ParsedResult[] => {
+  const seen = new Set<string>();
+  return results.filter(result => {
+    if (seen.has(result.abbreviation)) return false;
+    seen.add(result.abbreviation);
+    return true;
+  });
+};
+
+export const toReport = (pages: ReportPage[], results: ParsedResult[]): ParsedReport | null => {
+  const unique = dedupeResults(results);
+  return unique.length >= MIN_PARSED_RESULTS ? { ...readHeader(pagesText(pages)), results: unique } : null;
+};
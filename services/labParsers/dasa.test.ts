@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { createAnalyteResolver } from './common';
+import { dasaParser } from './dasa';
+import { fixturePages, readFixture } from './__fixtures__';
+
+describe('dasaParser', () => {
+  it('detects the layout by brand', () => {
+    expect(dasaParser.detect(readFixture('dasa.txt'))).toBe(true);
+  });
+
+  it('reads the four-column table and skips rows that are not analytes', () => {
+    expect(dasaParser.parse(fixturePages('dasa.txt'), createAnalyteResolver())).toEqual({
+      patientInitials: 'CEL',
+      patientAge: '45 anos',
+      patientSex: 'M',
+      collectionDate: '11/10/2026',
+      results: [
+        { abbreviation: 'Col-T', value: '212', unit: 'mg/dL', referenceRange: 'Desejável: inferior a 190', page: 1 },
+        { abbreviation: 'HDL', value: '48', unit: 'mg/dL', referenceRange: 'Superior a 40', page: 1 },
+        { abbreviation: 'LDL', value: '131', unit: 'mg/dL', referenceRange: 'Inferior a 130', page: 1 },
+        { abbreviation: 'TG', value: '165', unit: 'mg/dL', referenceRange: 'Inferior a 150', page: 1 },
+      ],
+    });
+  });
+});
@@ -0,0 +1,20 @@
+import type { LabReportParser, ParsedResult } from './types';
+import { allLines, readColumnRow, toReport } from './common';
+
+// DASA brands share one template: a four-column table
+// (Exame | Resultado | Unidade | Valores de referência)
+const DASA_BRANDS = /\bdasa\b|delboni|lavoisier|s[ée]rgio franco|alta excel[êe]ncia|bronstein|cdpi|exame laborat[óo]rios/i;
+
+export const dasaParser: LabReportParser = {
+  id: 'dasa',
+  name: 'DASA',
+
+  detect: (text) => DASA_BRANDS.test(text),
+
+  parse(pages, resolveAnalyte) {
+    const results = allLines(pages)
+      .map(line => readColumnRow(line, line.page, resolveAnalyte))
+      .filter((result): result is ParsedResult => result !== null);
+    return toReport(pages, results);
+  },
+};
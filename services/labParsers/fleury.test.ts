@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { createAnalyteResolver } from './common';
+import { fleuryParser } from './fleury';
+import { fixturePages, readFixture } from './__fixtures__';
+
+describe('fleuryParser', () => {
+  it('detects the layout', () => {
+    expect(fleuryParser.detect(readFixture('fleury.txt'))).toBe(true);
+  });
+
+  it('reads the dotted-leader rows, keeping the first of repeated analytes', () => {
+    expect(fleuryParser.parse(fixturePages('fleury.txt'), createAnalyteResolver())).toEqual({
+      patientInitials: 'MSS',
+      patientAge: '54 anos',
+      patientSex: 'F',
+      collectionDate: '14/10/2026',
+      results: [
+        { abbreviation: 'Hb', value: '13,5', unit: 'g/dL', referenceRange: '12,0 a 15,5 g/dL', page: 1 },
+        { abbreviation: 'Ht', value: '40,1', unit: '%', referenceRange: '35,0 a 45,0 %', page: 1 },
+        { abbreviation: 'Leuco', value: '6.800', unit: '/mm³', referenceRange: '3.500 a 10.500 /mm³', page: 1 },
+        { abbreviation: 'Plq', value: '245.000', unit: '/mm³', referenceRange: '150.000 a 450.000 /mm³', page: 1 },
+        { abbreviation: 'Cr', value: '0,92', unit: 'mg/dL', referenceRange: '0,50 a 1,10 mg/dL', page: 2 },
+      ],
+    });
+  });
+});
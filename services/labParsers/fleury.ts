@@ -0,0 +1,23 @@
+import type { LabReportParser, ParsedResult } from './types';
+import { allLines, readValueTail, toReport } from './common';
+
+// "HEMOGLOBINA.............: 13,5 g/dL   12,0 a 15,5 g/dL" (dotted leaders up to the result)
+const LEADER_ROW = /^(.+?)\s*\.{3,}\s*:?\s*(.+)$/;
+
+export const fleuryParser: LabReportParser = {
+  id: 'fleury',
+  name: 'Fleury',
+
+  detect: (text) => /fleury/i.test(text),
+
+  parse(pages, resolveAnalyte) {
+    const results: ParsedResult[] = [];
+    allLines(pages).forEach(line => {
+      const match = LEADER_ROW.exec(line.text);
+      const abbreviation = match ? resolveAnalyte(match[1]) : null;
+      const tail = match && abbreviation ? readValueTail(match[2]) : null;
+      if (abbreviation && tail) results.push({ abbreviation, ...tail, page: line.page, box: line.box });
+    });
+    return toReport(pages, results);
+  },
+};
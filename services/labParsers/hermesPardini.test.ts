@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { createAnalyteResolver } from './common';
+import { hermesPardiniParser } from './hermesPardini';
+import { fixturePages, readFixture } from './__fixtures__';
+
+describe('hermesPardiniParser', () => {
+  it('detects the layout', () => {
+    expect(hermesPardiniParser.detect(readFixture('hermesPardini.txt'))).toBe(true);
+  });
+
+  it('takes the reference from the next line when the row has none', () => {
+    expect(hermesPardiniParser.parse(fixturePages('hermesPardini.txt'), createAnalyteResolver())).toEqual({
+      patientInitials: 'JPR',
+      patientAge: '67 anos',
+      patientSex: 'M',
+      collectionDate: '02/10/2026',
+      results: [
+        { abbreviation: 'Glic', value: '98', unit: 'mg/dL', referenceRange: '70 a 99 mg/dL', page: 1 },
+        { abbreviation: 'Ur', value: '42', unit: 'mg/dL', referenceRange: '15 a 45 mg/dL', page: 1 },
+        { abbreviation: 'Cr', value: '1,18', unit: 'mg/dL', referenceRange: '0,70 a 1,30 mg/dL', page: 1 },
+        { abbreviation: 'K', value: '4,6', unit: 'mEq/L', referenceRange: '3,5 a 5,1 mEq/L', page: 1 },
+      ],
+    });
+  });
+});
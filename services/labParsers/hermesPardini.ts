@@ -0,0 +1,31 @@
+import type { LabReportParser, ParsedResult } from './types';
+import { allLines, cleanReference, readValueTail, toReport } from './common';
+
+// "HEMOGLOBINA: 13,5 g/dL" with the reference on the next line:
+// "Valores de referência: 12,0 a 15,5 g/dL"
+const RESULT_ROW = /^([^:]+?)\s*:\s*(.+)$/;
+const REFERENCE_ROW = /^(?:VR|Valor(?:es)? de refer[êe]ncia)/i;
+
+export const hermesPardiniParser: LabReportParser = {
+  id: 'hermes-pardini',
+  name: 'Hermes Pardini',
+
+  detect: (text) => /hermes pardini|grupo pardini/i.test(text),
+
+  parse(pages, resolveAnalyte) {
+    const lines = allLines(pages);
+    const results: ParsedResult[] = [];
+    lines.forEach((line, index) => {
+      const match = RESULT_ROW.exec(line.text);
+      const abbreviation = match ? resolveAnalyte(match[1]) : null;
+      const tail = match && abbreviation ? readValueTail(match[2]) : null;
+      if (!abbreviation || !tail) return;
+
+      const next = lines[index + 1];
+      const referenceRange = tail.referenceRange
+        ?? (next && REFERENCE_ROW.test(next.text) ? cleanReference(next.text) : undefined);
+      results.push({ abbreviation, ...tail, referenceRange, page: line.page, box: line.box });
+    });
+    return toReport(pages, results);
+  },
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import type { AnalyzedExam } from '../../types';
+import { buildOruR01 } from '../hl7Export';
+import { applyReferenceEngine } from '../referenceRanges';
+import { parseKnownLayouts } from '.';
+import { createAnalyteResolver } from './common';
+import { isHl7Message, parseHl7Messages } from './hl7';
+import { readFixture } from './__fixtures__';
+
+const exam = (id: string, collectionDate: string, results: AnalyzedExam['results']): AnalyzedExam => ({
+  id,
+  patientInitials: 'MSS',
+  patientAge: '54 anos',
+  patientSex: 'F',
+  collectionDate,
+  category: 'LAB',
+  results,
+  rawSummary: '',
+});
+
+describe('parseHl7Messages', () => {
+  it('reads a LIS message into one report per patient', () => {
+    const text = readFixture('hospitalLis.hl7');
+    expect(isHl7Message(text)).toBe(true);
+    expect(parseHl7Messages(text, createAnalyteResolver())).toEqual([
+      {
+        patientInitials: 'RAN',
+        patientSex: 'M',
+        patientAge: '72 anos',
+        collectionDate: '18/10/2026',
+        results: [
+          { abbreviation: 'Na', value: '131', unit: 'mmol/L', referenceRange: '136 - 145', abnormality: 'LOW', page: 1 },
+          { abbreviation: 'K', value: '5,8', unit: 'mmol/L', referenceRange: '3,5 - 5,1', abnormality: 'HIGH', page: 1 },
+          { abbreviation: 'PCR', value: '<0,5', unit: 'mg/dL', referenceRange: '<0,5', abnormality: 'NORMAL', page: 1 },
+        ],
+      },
+      {
+        patientInitials: 'ABC',
+        patientSex: 'F',
+        patientAge: '31 anos',
+        collectionDate: '17/10/2026',
+        results: [
+          { abbreviation: 'Hb', value: '12,4', unit: 'g/dL', referenceRange: '12,0 - 16,0', abnormality: 'NORMAL', page: 1 },
+        ],
+      },
+    ]);
+  });
+
+  it('reads back what buildOruR01 writes', () => {
+    const message = buildOruR01([
+      exam('e1', '02/10/2026', [
+        { abbreviation: 'Hb', value: '13,5', unit: 'g/dL', referenceRange: '12,0 a 16,0', abnormality: 'NORMAL' },
+        { abbreviation: 'K', value: '5,6', unit: 'mEq/L', referenceRange: '3,5 a 5,1', abnormality: 'HIGH' },
+        { abbreviation: 'PCR', value: '<0,5', unit: 'mg/dL', abnormality: 'NORMAL' },
+      ]),
+      exam('e2', '16/10/2026', [
+        { abbreviation: 'Hb', value: '11,8', unit: 'g/dL', referenceRange: '12,0 a 16,0', abnormality: 'LOW' },
+        { abbreviation: 'FAN', value: 'Reagente 1^160', abnormality: 'HIGH' },
+      ]),
+    ], new Date(2026, 9, 19, 8, 30));
+
+    expect(isHl7Message(message)).toBe(true);
+    const reports = parseHl7Messages(message, createAnalyteResolver());
+    expect(reports.map(report => [report.patientInitials, report.patientSex, report.collectionDate])).toEqual([
+      ['MSS', 'F', '02/10/2026'],
+      ['MSS', 'F', '16/10/2026'],
+    ]);
+    expect(reports[0].results).toEqual([
+      { abbreviation: 'Hb', value: '13,5', unit: 'g/dL', referenceRange: '12 - 16', abnormality: 'NORMAL', page: 1 },
+      { abbreviation: 'K', value: '5,6', unit: 'mEq/L', referenceRange: '3,5 - 5,1', abnormality: 'HIGH', page: 1 },
+      { abbreviation: 'PCR', value: '<0,5', unit: 'mg/dL', abnormality: 'NORMAL', page: 1 },
+    ]);
+    // Delimiters inside a value travel escaped and come back as typed
+    expect(reports[1].results).toEqual([
+      { abbreviation: 'Hb', value: '11,8', unit: 'g/dL', referenceRange: '12 - 16', abnormality: 'LOW', page: 1 },
+      { abbreviation: 'FAN', value: 'Reagente 1^160', abnormality: 'HIGH', page: 1 },
+    ]);
+  });
+});
+
+describe('HL7 flags', () => {
+  it('keeps the flag the LIS sent, and the range, through the range engine', () => {
+    const message = [
+      'MSH|^~\\&|LIS|HOSPITAL|IZI-LAB||202610180712||ORU^R01|000001|P|2.5.1',
+      'PID|1||000000^^^HOSP||NUNES^ROBERTO^ALVES||19540301|M',
+      'OBR|1||000000|LAB^Bioquímica^L|||202610180630',
+      'OBX|1|NM|2823-3^Potássio^LN||6.1|mmol/L|3.5-5.1|HH|||F',
+    ].join('\r');
+    const [exam] = parseKnownLayouts(message, [], []).exams;
+    const [potassium] = applyReferenceEngine(exam).results;
+    expect(potassium).toMatchObject({ abbreviation: 'K', referenceRange: '3,5 - 5,1', abnormality: 'CRITICAL_HIGH', abnormalitySource: 'lis' });
+  });
+});
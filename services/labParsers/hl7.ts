@@ -0,0 +1,188 @@
+import type { LabResultItem } from '../../types';
+import { abbreviationForLoinc } from '../labCodes';
+import { dedupeResults, toInitials } from './common';
+import type { AnalyteResolver, ParsedReport, ParsedResult } from './types';
+
+// HL7 v2 (ER7 encoding) as sent by hospital LIS: MSH, PID, OBR and OBX segments of ORU^R01 results
+
+// LIS exports come as .hl7, or as .txt from systems that only save text
+export const HL7_FILE_EXTENSIONS = '.hl7,.txt';
+
+export const isHl7File = (file: File): boolean =>
+  /\.(hl7|txt)$/i.test(file.name) || file.type === 'x-application/hl7-v2+er7';
+
+export const isHl7Message = (text: string): boolean => /^\s*MSH\|/.test(text);
+
+// Text of the .hl7/.txt files by position; other files are null
+export const readHl7Messages = (files: File[]): Promise<(string | null)[]> =>
+  Promise.all(files.map(file => (isHl7File(file) ? file.text() : null)));
+
+interface Encoding {
+  field: string;
+  component: string;
+  repetition: string;
+  escape: string;
+  subcomponent: string;
+}
+
+// \F\ \S\ \T\ \R\ \E\ stand for the delimiters inside a value; other escapes (formatting, hex) are dropped
+const unescape = (text: string, encoding: Encoding): string => {
+  if (!encoding.escape || !text.includes(encoding.escape)) return text;
+  const escape = encoding.escape.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const delimiters: Record<string, string> = {
+    F: encoding.field, S: encoding.component, T: encoding.subcomponent, R: encoding.repetition, E: encoding.escape,
+  };
+  return text.replace(new RegExp(`${escape}([^${escape}]*)${escape}`, 'g'), (_, code: string) => delimiters[code] ?? '');
+};
+
+// Segment fields with the HL7 numbering: fields[3] is PID-3. MSH counts its field separator as MSH-1.
+const readSegment = (line: string, encoding: Encoding): string[] => {
+  const fields = line.split(encoding.field);
+  return fields[0] === 'MSH' ? ['MSH', encoding.field, ...fields.slice(1)] : fields;
+};
+
+// First repetition, split in components, escapes resolved
+const components = (field: string | undefined, encoding: Encoding): string[] =>
+  (field || '').split(encoding.repetition)[0].split(encoding.component).map(component => unescape(component, encoding).trim());
+
+// "20261019", "202610190730" (TS/DTM) -> "19/10/2026"
+const toCollectionDate = (timestamp: string | undefined): string => {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(timestamp || '');
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : '';
+};
+
+const ageAt = (birth: string | undefined, timestamp: string | undefined): string => {
+  const born = /^(\d{4})(\d{2})(\d{2})/.exec(birth || '');
+  if (!born) return '';
+  const at = /^(\d{4})(\d{2})(\d{2})/.exec(timestamp || '');
+  const [year, month, day] = at ? at.slice(1).map(Number) : [new Date().getFullYear(), new Date().getMonth() + 1, new Date().getDate()];
+  let months = (year - Number(born[1])) * 12 + (month - Number(born[2]));
+  if (day < Number(born[3])) months -= 1;
+  if (months < 0) return '';
+  return months < 12 ? `${months} meses` : `${Math.floor(months / 12)} anos`;
+};
+
+// HL7 numbers use "." as the decimal mark; the app reads values the Brazilian way
+const decimalComma = (text: string): string => text.replace(/(\d)\.(\d)/g, '$1,$2');
+
+/** OBX-5 by value type (OBX-2): numbers, structured numerics ("<^0.5", "^1^:^40") and coded text */
+const readValue = (type: string, field: string | undefined, encoding: Encoding): string => {
+  const parts = components(field, encoding);
+  if (type === 'SN') {
+    const [comparator, first, separator, second] = parts;
+    const value = separator && second ? `${first}${separator === '/' ? '/' : ':'}${second}` : first;
+    return decimalComma(`${comparator === '=' ? '' : comparator}${value}`);
+  }
+  if (type === 'CE' || type === 'CWE' || type === 'CNE') return parts[1] || parts[0];
+  if (type === 'NM') return decimalComma(parts[0]);
+  return unescape((field || '').split(encoding.repetition)[0], encoding).trim();
+};
+
+// "12.0-16.0" -> "12,0 - 16,0"; "<5" and free text are kept as sent
+const readReference = (field: string | undefined, encoding: Encoding): string | undefined => {
+  const text = unescape(field || '', encoding).trim();
+  if (!text) return undefined;
+  return decimalComma(text.replace(/^(-?[\d.]+)\s*-\s*(-?[\d.]+)$/, '$1 - $2'));
+};
+
+const FLAGS: Record<string, LabResultItem['abnormality']> = {
+  N: 'NORMAL', H: 'HIGH', L: 'LOW', HH: 'CRITICAL_HIGH', LL: 'CRITICAL_LOW',
+};
+
+// Results the LIS withdrew or never produced
+const SKIPPED_STATUSES = new Set(['D', 'W', 'X', 'I']);
+const NARRATIVE_TYPES = new Set(['TX', 'FT']);
+
+/** OBX-3 is code^text^system: the user's name for the text wins, then the LOINC code, then the text itself. */
+const readAnalyte = (field: string | undefined, encoding: Encoding, resolveAnalyte: AnalyteResolver): string | null => {
+  const [code, text, system, altCode, altText, altSystem] = components(field, encoding);
+  const loinc = system === 'LN' ? code : altSystem === 'LN' ? altCode : '';
+  return resolveAnalyte(text) ?? resolveAnalyte(altText || '') ?? (loinc ? abbreviationForLoinc(loinc) : null) ?? (text || code || null);
+};
+
+interface PatientHeader {
+  patientInitials: string;
+  patientSex?: 'M' | 'F';
+  birthDate?: string;
+}
+
+const readPatient = (pid: string[], encoding: Encoding): PatientHeader => {
+  const [family, given, middle] = components(pid[5], encoding);
+  const name = [given, middle, family].filter(Boolean).join(' ');
+  // Our own export carries only the initials, as PID-3 under the IZI-LAB authority
+  const [identifier, , , authority] = components(pid[3], encoding);
+  const sex = components(pid[8], encoding)[0].toUpperCase();
+  return {
+    patientInitials: name ? toInitials(name) : authority === 'IZI-LAB' && identifier ? identifier : 'N/A',
+    patientSex: sex === 'M' || sex === 'F' ? sex : undefined,
+    birthDate: components(pid[7], encoding)[0],
+  };
+};
+
+/**
+ * Reads ORU^R01 messages (one or several per file) into one report per patient and
+ * collection date. Structured input needs no layout heuristics: every OBX with a value
+ * becomes a result, with the LIS's own units, range and flag.
+ */
+export const parseHl7Messages = (text: string, resolveAnalyte: AnalyteResolver): ParsedReport[] => {
+  const reports = new Map<string, ParsedReport>();
+  let encoding: Encoding | null = null;
+  let patient: PatientHeader = { patientInitials: 'N/A' };
+  let patientIndex = 0;
+  let orderTimestamp = '';
+
+  text.split(/\r\n|\r|\n/).map(line => line.trim()).filter(Boolean).forEach(line => {
+    if (line.startsWith('MSH')) {
+      const [component = '^', repetition = '~', escape = '\\', subcomponent = '&'] = line.slice(4, 8).split('');
+      encoding = { field: line[3], component, repetition, escape, subcomponent };
+    }
+    if (!encoding) return;
+    const fields = readSegment(line, encoding);
+
+    switch (fields[0]) {
+      case 'PID':
+        patient = readPatient(fields, encoding);
+        patientIndex += 1;
+        orderTimestamp = '';
+        break;
+      case 'OBR':
+        orderTimestamp = components(fields[7], encoding)[0];
+        break;
+      case 'OBX': {
+        const type = components(fields[2], encoding)[0];
+        // Narrative (report text, comments) is not a result
+        if (NARRATIVE_TYPES.has(type) || SKIPPED_STATUSES.has(components(fields[11], encoding)[0])) return;
+        const abbreviation = readAnalyte(fields[3], encoding, resolveAnalyte);
+        const value = readValue(type, fields[5], encoding);
+        if (!abbreviation || !value) return;
+
+        const timestamp = components(fields[14], encoding)[0] || orderTimestamp;
+        const collectionDate = toCollectionDate(timestamp);
+        const key = `${patientIndex}|${collectionDate}`;
+        if (!reports.has(key)) {
+          reports.set(key, {
+            patientInitials: patient.patientInitials,
+            patientSex: patient.patientSex,
+            patientAge: ageAt(patient.birthDate, timestamp),
+            collectionDate,
+            results: [],
+          });
+        }
+        const [unitCode, unitText] = components(fields[6], encoding);
+        const flag = components(fields[8], encoding)[0].toUpperCase();
+        const result: ParsedResult = {
+          abbreviation,
+          value,
+          unit: unitCode || unitText || undefined,
+          referenceRange: readReference(fields[7], encoding),
+          abnormality: FLAGS[flag],
+          page: 1,
+        };
+        reports.get(key)!.results.push(result);
+        break;
+      }
+    }
+  });
+
+  return Array.from(reports.values()).map(report => ({ ...report, results: dedupeResults(report.results) }));
+};
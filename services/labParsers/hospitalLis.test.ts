@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { createAnalyteResolver } from './common';
+import { hospitalLisParser } from './hospitalLis';
+import { parseKnownLayout } from '.';
+import { fixturePages, readFixture } from './__fixtures__';
+
+describe('hospitalLisParser', () => {
+  it('detects the layout by its admission fields, and only there', () => {
+    expect(hospitalLisParser.detect(readFixture('hospitalLis.txt'))).toBe(true);
+    ['fleury.txt', 'dasa.txt', 'hermesPardini.txt', 'sabin.txt'].forEach(name => {
+      expect(hospitalLisParser.detect(readFixture(name))).toBe(false);
+    });
+  });
+
+  it('reads the pipe-separated rows', () => {
+    expect(hospitalLisParser.parse(fixturePages('hospitalLis.txt'), createAnalyteResolver())).toEqual({
+      patientInitials: 'RAN',
+      patientAge: '72 anos',
+      patientSex: 'M',
+      collectionDate: '18/10/2026',
+      results: [
+        { abbreviation: 'Na', value: '131', unit: 'mmol/L', referenceRange: '136 a 145', page: 1 },
+        { abbreviation: 'K', value: '5,8', unit: 'mmol/L', referenceRange: '3,5 a 5,1', page: 1 },
+        { abbreviation: 'Cr', value: '2,41', unit: 'mg/dL', referenceRange: '0,70 a 1,30', page: 1 },
+        { abbreviation: 'Hb', value: '8,9', unit: 'g/dL', referenceRange: '13,0 a 17,0', page: 1 },
+      ],
+    });
+  });
+
+  it('is tried after the branded layouts', () => {
+    expect(parseKnownLayout(fixturePages('hospitalLis.txt'))?.parser.id).toBe('hospital-lis');
+    expect(parseKnownLayout(fixturePages('dasa.txt'))?.parser.id).toBe('dasa');
+  });
+});
@@ -0,0 +1,21 @@
+import type { LabReportParser, ParsedResult } from './types';
+import { allLines, readColumnRow, toReport } from './common';
+
+// Hospital LIS printouts have no brand to look for, but always carry admission
+// fields; two of them are required so outpatient reports do not match
+const ADMISSION_FIELDS = [/prontu[áa]rio\s*:/i, /leito\s*:/i, /atendimento\s*:/i, /(?:setor|unidade de interna[çc][ãa]o|ala)\s*:/i];
+
+export const hospitalLisParser: LabReportParser = {
+  id: 'hospital-lis',
+  name: 'LIS hospitalar',
+
+  detect: (text) => ADMISSION_FIELDS.filter(field => field.test(text)).length >= 2,
+
+  // Pipe- or tab-separated rows: Exame | Resultado | Unidade | Referência
+  parse(pages, resolveAnalyte) {
+    const results = allLines(pages)
+      .map(line => readColumnRow(line, line.page, resolveAnalyte))
+      .filter((result): result is ParsedResult => result !== null);
+    return toReport(pages, results);
+  },
+};
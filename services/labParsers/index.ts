@@ -0,0 +1,132 @@
+import type { AnalyzedExam, CustomAbbreviation } from '../../types';
+import { evaluateResult, getPatientContext } from '../referenceRanges';
+import { createAnalyteResolver, pagesText } from './common';
+import { fleuryParser } from './fleury';
+import { dasaParser } from './dasa';
+import { hermesPardiniParser } from './hermesPardini';
+import { sabinParser } from './sabin';
+import { hospitalLisParser } from './hospitalLis';
+import { isHl7Message, parseHl7Messages } from './hl7';
+import type { LabReportParser, ParsedReport, ReportPage } from './types';
+
+export type { LabReportParser, ParsedReport, ReportPage } from './types';
+export { HL7_FILE_EXTENSIONS, isHl7File, readHl7Messages } from './hl7';
+
+// Tried in order; the hospital LIS matcher is the loosest, so it goes last
+export const LAB_PARSERS: LabReportParser[] = [
+  fleuryParser,
+  dasaParser,
+  hermesPardiniParser,
+  sabinParser,
+  hospitalLisParser,
+];
+
+export const parseKnownLayout = (
+  pages: ReportPage[],
+  customAbbreviations: CustomAbbreviation[] = []
+): { parser: LabReportParser; report: ParsedReport } | null => {
+  const text = pagesText(pages);
+  const resolveAnalyte = createAnalyteResolver(customAbbreviations);
+  for (const parser of LAB_PARSERS) {
+    if (!parser.detect(text)) continue;
+    const report = parser.parse(pages, resolveAnalyte);
+    if (report) return { parser, report };
+  }
+  return null;
+};
+
+// Pasted text from a lab portal: one page, no boxes
+const textToPages = (text: string): ReportPage[] => [{
+  page: 1,
+  lines: text.split(/\r?\n/).map(line => ({ text: line.trim() })).filter(line => line.text),
+}];
+
+/**
+ * Same shape the model path produces, so both go through the same validation and range
+ * engine. The starting flag comes from the printed range already, so the engine does not
+ * report it as a disagreement. Ranges are always kept (the flags depend on them); the
+ * "LAB REFS" preference hides them on screen.
+ */
+const reportToExam = (report: ParsedReport, fileIndex: number | null): AnalyzedExam => {
+  const exam: AnalyzedExam = {
+    id: crypto.randomUUID(),
+    patientInitials: report.patientInitials,
+    patientAge: report.patientAge,
+    patientSex: report.patientSex,
+    collectionDate: report.collectionDate,
+    category: 'LAB',
+    results: report.results.map(({ page, box, ...result }) => ({
+      ...result,
+      abnormality: 'NORMAL',
+      source: fileIndex === null ? undefined : { fileIndex, page, box },
+    })),
+    source: fileIndex === null ? undefined : { fileIndex, page: report.results[0].page },
+    rawSummary: report.results.map(result => `${result.abbreviation} ${result.value}`).join(' / '),
+  };
+
+  const context = getPatientContext(exam);
+  return {
+    ...exam,
+    results: exam.results.map((item, index) => {
+      // The LIS's own flag (HL7 OBX-8) stands, critical ones included; printed layouts are
+      // flagged from their range
+      const sent = report.results[index].abnormality;
+      return sent
+        ? { ...item, abnormality: sent, abnormalitySource: 'lis' as const }
+        : { ...item, abnormality: evaluateResult(item, context).abnormality };
+    }),
+  };
+};
+
+export interface LocalParseResult {
+  exams: AnalyzedExam[];
+  parsedFiles: boolean[]; // By file position; these are left out of the model request
+  complete: boolean; // Nothing left for the model
+}
+
+// HL7 results carry no pages to point at, so their exams have no source location
+const hl7Exams = (text: string, customAbbreviations: CustomAbbreviation[]): AnalyzedExam[] =>
+  parseHl7Messages(text, createAnalyteResolver(customAbbreviations))
+    .filter(report => report.results.length > 0)
+    .map(report => reportToExam(report, null));
+
+/**
+ * Deterministic pass before the model: HL7 messages, PDFs with a usable text layer (and
+ * pasted text) from a known lab are parsed locally. Scans, images, audio and unknown
+ * layouts return unparsed and go to the model as before.
+ */
+export const parseKnownLayouts = (
+  input: File[] | Blob | string,
+  textLayers: (ReportPage[] | null)[],
+  customAbbreviations: CustomAbbreviation[],
+  hl7Messages: (string | null)[] = []
+): LocalParseResult => {
+  if (typeof input === 'string' && isHl7Message(input)) {
+    const exams = hl7Exams(input, customAbbreviations);
+    return { exams, parsedFiles: [], complete: exams.length > 0 };
+  }
+  if (typeof input === 'string') {
+    const match = parseKnownLayout(textToPages(input), customAbbreviations);
+    return {
+      exams: match ? [reportToExam(match.report, null)] : [],
+      parsedFiles: [],
+      complete: !!match,
+    };
+  }
+  if (!Array.isArray(input)) return { exams: [], parsedFiles: [], complete: false };
+
+  const exams: AnalyzedExam[] = [];
+  const parsedFiles = input.map((_, index) => {
+    const message = hl7Messages[index];
+    if (message) {
+      const parsed = hl7Exams(message, customAbbreviations);
+      exams.push(...parsed);
+      return parsed.length > 0;
+    }
+    const pages = textLayers[index];
+    const match = pages ? parseKnownLayout(pages, customAbbreviations) : null;
+    if (match) exams.push(reportToExam(match.report, index));
+    return !!match;
+  });
+  return { exams, parsedFiles, complete: parsedFiles.length > 0 && parsedFiles.every(Boolean) };
+};
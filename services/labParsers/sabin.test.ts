@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { createAnalyteResolver } from './common';
+import { sabinParser } from './sabin';
+import { fixturePages, readFixture } from './__fixtures__';
+
+describe('sabinParser', () => {
+  it('detects the layout', () => {
+    expect(sabinParser.detect(readFixture('sabin.txt'))).toBe(true);
+  });
+
+  it('reads each exam block, across pages', () => {
+    expect(sabinParser.parse(fixturePages('sabin.txt'), createAnalyteResolver())).toEqual({
+      patientInitials: 'ABC',
+      patientAge: '31 anos',
+      patientSex: 'F',
+      collectionDate: '09/10/2026',
+      results: [
+        { abbreviation: 'TSH', value: '2,35', unit: 'µUI/mL', referenceRange: '0,45 a 4,50 µUI/mL', page: 1 },
+        { abbreviation: 'T4L', value: '1,12', unit: 'ng/dL', referenceRange: '0,70 a 1,80 ng/dL', page: 1 },
+        { abbreviation: 'Ferr', value: '85', unit: 'ng/mL', referenceRange: '15 a 150 ng/mL', page: 2 },
+      ],
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import type { LabReportParser, ParsedResult } from './types';
+import { allLines, cleanReference, readValueTail, toReport } from './common';
+
+// One block per exam: the exam name alone on a line, then within a few lines
+// "Resultado: 13,5 g/dL" and "Valor de referência: 12,0 a 15,5"
+const RESULT_ROW = /^Resultado\s*:?\s*(.+)$/i;
+const REFERENCE_ROW = /^Valor(?:es)? de refer[êe]ncia/i;
+const BLOCK_LINES = 4;
+
+export const sabinParser: LabReportParser = {
+  id: 'sabin',
+  name: 'Sabin',
+
+  detect: (text) => /sabin/i.test(text),
+
+  parse(pages, resolveAnalyte) {
+    const lines = allLines(pages);
+    const results: ParsedResult[] = [];
+    lines.forEach((line, index) => {
+      const abbreviation = resolveAnalyte(line.text);
+      if (!abbreviation) return;
+
+      const block = lines.slice(index + 1, index + 1 + BLOCK_LINES);
+      const resultLine = block.find(candidate => RESULT_ROW.test(candidate.text));
+      const tail = resultLine ? readValueTail(RESULT_ROW.exec(resultLine.text)![1]) : null;
+      if (!resultLine || !tail) return;
+
+      const referenceLine = block.find(candidate => REFERENCE_ROW.test(candidate.text));
+      results.push({
+        abbreviation,
+        ...tail,
+        referenceRange: tail.referenceRange ?? cleanReference(referenceLine?.text),
+        page: resultLine.page,
+        box: resultLine.box,
+      });
+    });
+    return toReport(pages, results);
+  },
+};
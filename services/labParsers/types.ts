@@ -0,0 +1,38 @@
+import type { AnalyzedExam, LabResultItem, SourceLocation } from '../../types';
+
+// Text of a report, page by page: a PDF text layer or pasted text (no boxes)
+export interface ReportLine {
+  text: string;
+  box?: SourceLocation['box'];
+}
+
+export interface ReportPage {
+  page: number; // 1-based
+  lines: ReportLine[];
+}
+
+export interface ParsedResult extends Pick<LabResultItem, 'abbreviation' | 'value' | 'unit' | 'referenceRange'> {
+  page: number;
+  box?: SourceLocation['box'];
+  abnormality?: LabResultItem['abnormality']; // Flag sent by a structured source (HL7 OBX-8)
+}
+
+export type ReportHeader = Pick<AnalyzedExam, 'patientInitials' | 'patientAge' | 'patientSex' | 'collectionDate'>;
+
+export interface ParsedReport extends ReportHeader {
+  results: ParsedResult[];
+}
+
+/**
+ * A known laboratory layout. `detect` only looks for the lab's signature; `parse` returns
+ * null when the rows do not come out as expected, so the report falls back to the model.
+ */
+export interface LabReportParser {
+  readonly id: string;
+  readonly name: string;
+  detect(text: string): boolean;
+  parse(pages: ReportPage[], resolveAnalyte: AnalyteResolver): ParsedReport | null;
+}
+
+// Printed exam name -> standard abbreviation (null = not an analyte we extract)
+export type AnalyteResolver = (printedName: string) => string | null;
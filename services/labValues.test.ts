@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { parseLabValue, parseReferenceRange } from './labValues';
+import { evaluateResult } from './referenceRanges';
+
+describe('parseLabValue', () => {
+  it('reads colon dilutions as titers', () => {
+    expect(parseLabValue('1:160')).toEqual({ kind: 'titer', dilution: 160 });
+    expect(parseLabValue('1:2')).toEqual({ kind: 'titer', dilution: 2 });
+  });
+
+  it('reads a slash as a titer only from 1/10 up or with titer context', () => {
+    expect(parseLabValue('1/80')).toEqual({ kind: 'titer', dilution: 80 });
+    expect(parseLabValue('Título 1/4')).toEqual({ kind: 'titer', dilution: 4 });
+    expect(parseLabValue('1/4', 'título')).toEqual({ kind: 'titer', dilution: 4 });
+  });
+
+  it('keeps small slashed values as ratios', () => {
+    expect(parseLabValue('1/2')).toEqual({ kind: 'ratio', numerator: 1, denominator: 2, value: 0.5 });
+    expect(parseLabValue('3/1')).toEqual({ kind: 'ratio', numerator: 3, denominator: 1, value: 3 });
+  });
+});
+
+describe('parseReferenceRange', () => {
+  const perSex = 'Homens: 13,5 a 17,5 g/dL Mulheres: 12,0 a 15,5 g/dL';
+
+  it('picks the range printed for the patient\'s sex', () => {
+    expect(parseReferenceRange(perSex, 'M')).toEqual({ min: 13.5, max: 17.5 });
+    expect(parseReferenceRange(perSex, 'F')).toEqual({ min: 12, max: 15.5 });
+  });
+
+  it('marks per-sex ranges ambiguous when the sex is unknown, and the engine does not flag them', () => {
+    expect(parseReferenceRange(perSex)).toEqual({ min: null, max: null, ambiguous: true });
+    const item = { abbreviation: 'Hb', value: '13,0', unit: 'g/dL', referenceRange: perSex, abnormality: 'LOW' as const };
+    expect(evaluateResult(item, { ageYears: 40 }).abnormality).toBe('NORMAL');
+    expect(evaluateResult(item, { ageYears: 40, sex: 'M' }).abnormality).toBe('LOW');
+  });
+});
@@ -0,0 +1,197 @@
+import { AnalyzedExam, LabResultItem, LabValue, COMMON_ABBREVIATIONS } from "../types";
+
+export interface NumericRange {
+  min: number | null;
+  max: number | null;
+  // Printed per sex ("Homens: … Mulheres: …") without a known sex to pick one by
+  ambiguous?: boolean;
+}
+
+// Spellings the model commonly uses for the same analyte (keys lowercase, without accents,
+// spaces, dots or hyphens); values are the prompt's abbreviations
+const ALIASES: Record<string, string> = {
+  'plaq': COMMON_ABBREVIATIONS.PLATELETS,
+  'plt': COMMON_ABBREVIATIONS.PLATELETS,
+  'leuc': COMMON_ABBREVIATIONS.LEUKOCYTES,
+  'leu': COMMON_ABBREVIATIONS.LEUKOCYTES,
+  'wbc': COMMON_ABBREVIATIONS.LEUKOCYTES,
+  'hgb': COMMON_ABBREVIATIONS.HEMOGLOBIN,
+  'hct': COMMON_ABBREVIATIONS.HEMATOCRIT,
+  'hto': COMMON_ABBREVIATIONS.HEMATOCRIT,
+  'neut': 'Neutro',
+  'linf': 'Linfo',
+  'eos': 'Eosi',
+  'ureia': COMMON_ABBREVIATIONS.UREA,
+  'urea': COMMON_ABBREVIATIONS.UREA,
+  'creat': COMMON_ABBREVIATIONS.CREATININE,
+  'crea': COMMON_ABBREVIATIONS.CREATININE,
+  'cre': COMMON_ABBREVIATIONS.CREATININE,
+  'glicose': COMMON_ABBREVIATIONS.GLUCOSE,
+  'glicemia': COMMON_ABBREVIATIONS.GLUCOSE,
+  'glu': COMMON_ABBREVIATIONS.GLUCOSE,
+  'ct': COMMON_ABBREVIATIONS.CHOLESTEROL_TOTAL,
+  'trig': COMMON_ABBREVIATIONS.TRIGLYCERIDES,
+  'tgl': COMMON_ABBREVIATIONS.TRIGLYCERIDES,
+  'gamagt': COMMON_ABBREVIATIONS.GGT,
+  'vitd': COMMON_ABBREVIATIONS.VITAMIN_D,
+  '25ohd': COMMON_ABBREVIATIONS.VITAMIN_D,
+  'vitb12': COMMON_ABBREVIATIONS.VITAMIN_B12,
+  'b12': COMMON_ABBREVIATIONS.VITAMIN_B12,
+  'tac': 'Fk',
+  'fk506': 'Fk',
+};
+
+const aliasKey = (normalized: string): string =>
+  normalized.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[-\s.]/g, '');
+
+// Lookup key shared by the range and unit tables: "Plaq", "plq " -> "plq"
+export const abbreviationKey = (abbreviation: string): string => {
+  const normalized = abbreviation.trim().toLowerCase();
+  const alias = ALIASES[aliasKey(normalized)];
+  return alias ? alias.toLowerCase() : normalized;
+};
+
+// Brazilian number: "7.800" and "150.000" are thousands, "1,5" is a decimal
+export const parseLocaleNumber = (raw: string): number | null => {
+  const text = raw.trim();
+  const normalized = /^-?\d{1,3}(\.\d{3})+(,\d+)?$/.test(text)
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(',', '.');
+  const num = parseFloat(normalized);
+  return isNaN(num) ? null : num;
+};
+
+// 106.08 -> "106", 1.2345 -> "1,23": precision follows magnitude, comma as decimal separator
+export const formatLocaleNumber = (value: number): string => {
+  const abs = Math.abs(value);
+  const decimals = abs >= 100 ? 0 : abs >= 10 ? 1 : 2;
+  return String(Number(value.toFixed(decimals))).replace('.', ',');
+};
+
+export const NUMBER_PATTERN = '-?\\d+(?:[.,]\\d+)*';
+const UNSIGNED_PATTERN = '\\d+(?:[.,]\\d+)*';
+
+const CENSORED_BELOW = new RegExp(`^(?:<=?|≤|inferior a|menor que)\\s*(${UNSIGNED_PATTERN})`, 'i');
+const CENSORED_ABOVE = new RegExp(`^(?:>=?|≥|superior a|maior que|acima de)\\s*(${UNSIGNED_PATTERN})`, 'i');
+// "1/2" alone is a ratio; a slash reads as a titer only from 1/10 up or with a titer word nearby
+const TITER_WORDS = 't[íi]tulo|dilui[çc][ãa]o|titer';
+const TITER = new RegExp(`^(?:(${TITER_WORDS})\\s*:?\\s*)?1\\s*([:/])\\s*(${UNSIGNED_PATTERN})$`, 'i');
+const TITER_CONTEXT = new RegExp(TITER_WORDS, 'i');
+const MIN_SLASH_TITER = 10;
+const RATIO = new RegExp(`^(${UNSIGNED_PATTERN})\\s*[:/]\\s*(${UNSIGNED_PATTERN})$`);
+const LEADING_NUMBER = new RegExp(`^\\+?(${NUMBER_PATTERN})(?![\\d.,]|\\s*[:/]\\s*\\d)`);
+
+// Negative wording is checked first: "Não reagente" also contains "reagente"
+const NEGATIVE_PATTERN = /negativ|n[ãa]o\s*(reagente|detectad)|ausente|indetect/i;
+const POSITIVE_PATTERN = /positiv|reagente|detectad|presente|tra[cç]os|\+/i;
+
+/**
+ * Reads a result string into the typed value model:
+ * "<0,5" censored-below, "> 90" censored-above, "1:160" / "1/80" / "título 1/4" titer,
+ * "3/1" or "1/2" ratio, "7.800" numeric, anything else ("Reagente", "traços",
+ * "Amarelo citrino") qualitative. The unit counts as titer context ("título", "diluição").
+ */
+export const parseLabValue = (raw: string, unit?: string): LabValue => {
+  const text = raw.trim().replace(/^=\s*/, '');
+
+  const below = text.match(CENSORED_BELOW);
+  const belowLimit = below ? parseLocaleNumber(below[1]) : null;
+  if (belowLimit !== null) return { kind: 'censored-below', limit: belowLimit };
+
+  const above = text.match(CENSORED_ABOVE);
+  const aboveLimit = above ? parseLocaleNumber(above[1]) : null;
+  if (aboveLimit !== null) return { kind: 'censored-above', limit: aboveLimit };
+
+  const titer = text.match(TITER);
+  const dilution = titer ? parseLocaleNumber(titer[3]) : null;
+  const titerContext = titer !== null && (titer[2] === ':' || !!titer[1] || TITER_CONTEXT.test(unit ?? ''));
+  if (dilution !== null && dilution > 1 && (titerContext || dilution >= MIN_SLASH_TITER)) {
+    return { kind: 'titer', dilution };
+  }
+
+  const ratio = text.match(RATIO);
+  if (ratio) {
+    const numerator = parseLocaleNumber(ratio[1]);
+    const denominator = parseLocaleNumber(ratio[2]);
+    if (numerator !== null && denominator) {
+      return { kind: 'ratio', numerator, denominator, value: numerator / denominator };
+    }
+  }
+
+  const numeric = text.match(LEADING_NUMBER);
+  const value = numeric ? parseLocaleNumber(numeric[1]) : null;
+  if (value !== null) return { kind: 'numeric', value };
+
+  const positive = NEGATIVE_PATTERN.test(text) ? false : POSITIVE_PATTERN.test(text) ? true : null;
+  return { kind: 'qualitative', text, positive };
+};
+
+export const getLabValue = (item: LabResultItem): LabValue => item.parsedValue ?? parseLabValue(item.value, item.unit);
+
+// Runs once after extraction so every consumer reads the same interpretation
+export const attachLabValues = (exam: AnalyzedExam): AnalyzedExam => {
+  if (exam.category !== 'LAB') return exam;
+  return { ...exam, results: exam.results.map(item => ({ ...item, parsedValue: parseLabValue(item.value, item.unit) })) };
+};
+
+// Number to plot: censored results sit at their bound, qualitative results and titers are not plotted
+export const chartableNumber = (labValue: LabValue): number | null => {
+  switch (labValue.kind) {
+    case 'numeric':
+    case 'ratio':
+      return labValue.value;
+    case 'censored-below':
+    case 'censored-above':
+      return labValue.limit;
+    default:
+      return null;
+  }
+};
+
+// Parse numeric values from results ("< 0,5" keeps its bound, "Reagente" is null)
+export const parseNumericValue = (value: string): number | null => chartableNumber(parseLabValue(value));
+
+// Display form for clipboard/cards: decimal comma, thousands groups ("150.000") kept as printed
+export const formatLabValue = (value: string): string =>
+  value.trim().replace(/\d+(?:[.,]\d+)*/g, match => (/^\d{1,3}(\.\d{3})+$/.test(match) ? match : match.replace('.', ',')));
+
+const SEX_LABEL = /\b(homem|homens|masculino|mulher|mulheres|feminino)\b/gi;
+
+// Parse reference range to get min/max
+const parseSingleRange = (ref: string): NumericRange => {
+  // Handle ranges like "3.5 - 5.5", "3,5 a 5,5" or "-2 até +2"
+  const rangeMatch = ref.match(new RegExp(`(${NUMBER_PATTERN})\\s*(?:-|–|a|até)\\s*\\+?(${NUMBER_PATTERN})`, 'i'));
+  if (rangeMatch) {
+    return { min: parseLocaleNumber(rangeMatch[1]), max: parseLocaleNumber(rangeMatch[2]) };
+  }
+
+  // Handle "< 5", "até 190", "inferior a 150"
+  const lessThanMatch = ref.match(new RegExp(`(?:<|≤|até|inferior a|menor que)\\s*(${NUMBER_PATTERN})`, 'i'));
+  if (lessThanMatch) {
+    return { min: null, max: parseLocaleNumber(lessThanMatch[1]) };
+  }
+
+  // Handle "> 3", "superior a 40", "acima de 30"
+  const greaterThanMatch = ref.match(new RegExp(`(?:>|≥|superior a|maior que|acima de)\\s*(${NUMBER_PATTERN})`, 'i'));
+  if (greaterThanMatch) {
+    return { min: parseLocaleNumber(greaterThanMatch[1]), max: null };
+  }
+
+  return { min: null, max: null };
+};
+
+/**
+ * Numeric bounds of a printed range. "Homens: 13,5 a 17,5 Mulheres: 12,0 a 15,5" gives
+ * the part labelled with the patient's sex; without one it is ambiguous and has no bounds.
+ */
+export const parseReferenceRange = (ref: string | undefined, sex?: AnalyzedExam['patientSex']): NumericRange => {
+  if (!ref) return { min: null, max: null };
+
+  const labels = [...ref.matchAll(SEX_LABEL)];
+  if (labels.length === 0) return parseSingleRange(ref);
+
+  const index = labels.findIndex(label => (/^(homem|homens|masculino)$/i.test(label[1]) ? 'M' : 'F') === sex);
+  if (index === -1) return { min: null, max: null, ambiguous: true };
+  const start = labels[index].index! + labels[index][0].length;
+  return parseSingleRange(ref.slice(start, labels[index + 1]?.index ?? ref.length));
+};
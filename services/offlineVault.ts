@@ -0,0 +1,243 @@
+import { AnalyzedExam } from '../types';
+import { supabase } from './supabaseClient';
+
+// Device-local storage for poor ward Wi-Fi: the last analyses (to reopen without the network)
+// and camera photos taken offline (sent when the connection returns). Everything is
+// encrypted with a per-user key; nothing here is ever synced to the server as-is.
+
+const DB_NAME = 'izi-lab-offline';
+const DB_VERSION = 2; // 2: keys no longer stored on the device
+const LEGACY_KEYS = 'keys';
+const SESSIONS = 'sessions';
+const PENDING = 'pending';
+
+// Recent analyses kept per user; older ones are dropped on save
+export const MAX_STORED_SESSIONS = 10;
+
+interface EncryptedRecord {
+  id: string;
+  userId: string;
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+interface SessionRecord extends EncryptedRecord {
+  savedAt: string;
+}
+
+interface PendingRecord extends EncryptedRecord {
+  createdAt: string;
+  name: string;
+  type: string;
+}
+
+export interface StoredSession {
+  id: string;
+  savedAt: string;
+  exams: AnalyzedExam[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion === 0) {
+          db.createObjectStore(SESSIONS, { keyPath: 'id' }).createIndex('userId', 'userId');
+          db.createObjectStore(PENDING, { keyPath: 'id' }).createIndex('userId', 'userId');
+        }
+        // Version 1 kept the key next to the data; what it encrypted goes with it
+        if (db.objectStoreNames.contains(LEGACY_KEYS)) {
+          db.deleteObjectStore(LEGACY_KEYS);
+          request.transaction!.objectStore(SESSIONS).clear();
+          request.transaction!.objectStore(PENDING).clear();
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const allForUser = <T>(storeName: string, userId: string): Promise<T[]> =>
+  run<T[]>(storeName, 'readonly', store => store.index('userId').getAll(userId));
+
+const encoder = new TextEncoder();
+
+/**
+ * AES-GCM key derived (HKDF) from a secret the server gives the signed-in user, salted with
+ * the user id. The secret is never written to the device: the key lives in this tab's memory
+ * for the session, so a copy of the browser profile only holds ciphertext. A tab opened
+ * without a connection has no key until it reaches the server.
+ */
+const deriveUserKey = async (userId: string): Promise<CryptoKey> => {
+  const { data: secret, error } = await supabase.rpc('get_offline_vault_secret');
+  if (error || typeof secret !== 'string') {
+    throw new Error(`Offline vault key unavailable: ${error?.message ?? 'no secret'}`);
+  }
+  const material = await crypto.subtle.importKey('raw', Uint8Array.from(atob(secret), char => char.charCodeAt(0)), 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: encoder.encode(userId), info: encoder.encode('izi-lab/offline-vault') },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const userKeys = new Map<string, Promise<CryptoKey>>();
+
+const getUserKey = (userId: string): Promise<CryptoKey> => {
+  let key = userKeys.get(userId);
+  if (!key) {
+    key = deriveUserKey(userId);
+    // A failed fetch (offline) is tried again on the next use
+    key.catch(() => userKeys.delete(userId));
+    userKeys.set(userId, key);
+  }
+  return key;
+};
+
+// Every record of the other users (all of them for `keepUserId` null)
+const deleteRecordsExcept = async (keepUserId: string | null): Promise<void> => {
+  const [sessions, pending] = await Promise.all([
+    run<SessionRecord[]>(SESSIONS, 'readonly', store => store.getAll()),
+    run<PendingRecord[]>(PENDING, 'readonly', store => store.getAll()),
+  ]);
+  await Promise.all([
+    ...sessions.filter(record => record.userId !== keepUserId).map(record => run(SESSIONS, 'readwrite', store => store.delete(record.id))),
+    ...pending.filter(record => record.userId !== keepUserId).map(record => run(PENDING, 'readwrite', store => store.delete(record.id))),
+  ]);
+};
+
+// The user id is bound as additional data: a record moved to another user's key fails to open
+const encrypt = async (userId: string, plain: ArrayBuffer | Uint8Array) => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: encoder.encode(userId) }, await getUserKey(userId), plain);
+  return { iv, data };
+};
+
+const decrypt = async (record: EncryptedRecord): Promise<ArrayBuffer> =>
+  crypto.subtle.decrypt({ name: 'AES-GCM', iv: record.iv, additionalData: encoder.encode(record.userId) }, await getUserKey(record.userId), record.data);
+
+// Uploaded files stay in memory only (see AnalyzedExam.sourceFiles)
+const toStorable = (exams: AnalyzedExam[]): AnalyzedExam[] =>
+  exams.map(({ sourceFiles, ...exam }) => exam);
+
+export const offlineVault = {
+  async saveSession(userId: string, id: string, exams: AnalyzedExam[]): Promise<void> {
+    const { iv, data } = await encrypt(userId, encoder.encode(JSON.stringify(toStorable(exams))));
+    const record: SessionRecord = { id, userId, savedAt: new Date().toISOString(), iv, data };
+    await run(SESSIONS, 'readwrite', store => store.put(record));
+
+    const stored = await allForUser<SessionRecord>(SESSIONS, userId);
+    const stale = stored.sort((a, b) => b.savedAt.localeCompare(a.savedAt)).slice(MAX_STORED_SESSIONS);
+    await Promise.all(stale.map(session => run(SESSIONS, 'readwrite', store => store.delete(session.id))));
+  },
+
+  /** Newest first; a record that no longer decrypts (key wiped) is skipped. */
+  async listSessions(userId: string): Promise<StoredSession[]> {
+    const stored = await allForUser<SessionRecord>(SESSIONS, userId);
+    const sessions = await Promise.all(stored.map(async (record): Promise<StoredSession | null> => {
+      try {
+        const exams = JSON.parse(new TextDecoder().decode(await decrypt(record)));
+        return { id: record.id, savedAt: record.savedAt, exams };
+      } catch (error) {
+        console.warn('Stored analysis could not be opened:', error);
+        return null;
+      }
+    }));
+    return sessions
+      .filter((session): session is StoredSession => session !== null)
+      .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  },
+
+  async deleteSession(id: string): Promise<void> {
+    await run(SESSIONS, 'readwrite', store => store.delete(id));
+  },
+
+  async addPendingUpload(userId: string, file: File): Promise<void> {
+    const { iv, data } = await encrypt(userId, await file.arrayBuffer());
+    const record: PendingRecord = {
+      id: crypto.randomUUID(),
+      userId,
+      createdAt: new Date().toISOString(),
+      name: file.name,
+      type: file.type,
+      iv,
+      data,
+    };
+    await run(PENDING, 'readwrite', store => store.put(record));
+  },
+
+  async countPendingUploads(userId: string): Promise<number> {
+    return run<number>(PENDING, 'readonly', store => store.index('userId').count(userId));
+  },
+
+  /**
+   * Oldest first, decrypted back into files; ids are needed to remove them once sent.
+   * Captures made under a secret that was since reset never open again, so they are dropped.
+   */
+  async getPendingUploads(userId: string): Promise<{ ids: string[]; files: File[] }> {
+    await getUserKey(userId);
+    const stored = (await allForUser<PendingRecord>(PENDING, userId)).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const opened = await Promise.all(stored.map(async record => {
+      try {
+        return { id: record.id, file: new File([await decrypt(record)], record.name, { type: record.type }) };
+      } catch (error) {
+        console.warn('Offline capture could not be opened:', error);
+        await run(PENDING, 'readwrite', store => store.delete(record.id));
+        return null;
+      }
+    }));
+    const readable = opened.filter((entry): entry is { id: string; file: File } => entry !== null);
+    return { ids: readable.map(entry => entry.id), files: readable.map(entry => entry.file) };
+  },
+
+  async removePendingUploads(ids: string[]): Promise<void> {
+    await Promise.all(ids.map(id => run(PENDING, 'readwrite', store => store.delete(id))));
+  },
+
+  /**
+   * Sign-out, while the session still works: the server secret goes first, so anything a
+   * failed delete leaves behind (here or on another device) is unreadable.
+   */
+  async clearUser(userId: string): Promise<void> {
+    userKeys.delete(userId);
+    const { error } = await supabase.rpc('reset_offline_vault_secret');
+    if (error) console.warn('Offline vault secret not reset:', error);
+    const [sessions, pending] = await Promise.all([
+      allForUser<SessionRecord>(SESSIONS, userId),
+      allForUser<PendingRecord>(PENDING, userId),
+    ]);
+    await Promise.all([
+      ...sessions.map(session => run(SESSIONS, 'readwrite', store => store.delete(session.id))),
+      ...pending.map(upload => run(PENDING, 'readwrite', store => store.delete(upload.id))),
+    ]);
+  },
+
+  /**
+   * Session ended without a sign-out (expired, revoked) or another user signed in: only the
+   * current user's records stay on the device (none when nobody is signed in).
+   */
+  async keepOnly(userId: string | null): Promise<void> {
+    Array.from(userKeys.keys()).filter(id => id !== userId).forEach(id => userKeys.delete(id));
+    await deleteRecordsExcept(userId);
+  },
+};
@@ -0,0 +1,212 @@
+import { AnalyzedExam, DEFAULT_OUTPUT_TEMPLATE, LabCategory, OutputTemplate } from '../types';
+import { AnalytePlacement, locateAnalyte, OTHER_CATEGORY } from './labCategories';
+import { formatEvolutionValues, PatientEvolution } from './labEvolution';
+import { formatLabValue } from './labValues';
+import { findLabCodes } from './labCodes';
+import { abnormalityArrow, isCritical } from './referenceRanges';
+
+/*
+ * Template language of the copied text:
+ *   {placeholder}  replaced by its value ('' when missing for that result)
+ *   [ ... ]        optional section, dropped unless every placeholder inside has a value
+ *                  (e.g. "[ (Ref: {reference})]" disappears for results without a range)
+ * Placeholders per field are listed in TEMPLATE_PLACEHOLDERS; unknown ones are kept as typed.
+ */
+
+export const TEMPLATE_PLACEHOLDERS: Record<'header' | 'line' | 'item', { key: string; description: string }[]> = {
+  header: [
+    { key: 'patient', description: 'iniciais do paciente' },
+    { key: 'age', description: 'idade' },
+    { key: 'date', description: 'data da coleta (ou período na evolução)' },
+  ],
+  line: [
+    { key: 'category', description: 'sistema (HEMOGRAMA, RENAL...); vazio em OUTROS e sem agrupamento' },
+    { key: 'items', description: 'resultados do sistema, com o separador de itens' },
+  ],
+  item: [
+    { key: 'item', description: 'sigla' },
+    { key: 'value', description: 'valor (na evolução, todas as datas)' },
+    { key: 'unit', description: 'unidade' },
+    { key: 'arrow', description: '↑ ↓ quando alterado (na evolução, junto de cada valor)' },
+    { key: 'reference', description: 'valor de referência' },
+    { key: 'critical', description: '"CRÍTICO" quando crítico' },
+    { key: 'loinc', description: 'código LOINC' },
+    { key: 'tuss', description: 'código TUSS, quando houver' },
+  ],
+};
+
+export const OUTPUT_TEMPLATE_PRESETS: { label: string; template: OutputTemplate }[] = [
+  { label: 'Padrão', template: DEFAULT_OUTPUT_TEMPLATE },
+  {
+    label: 'Sem sistemas',
+    template: { ...DEFAULT_OUTPUT_TEMPLATE, line: '{items}' },
+  },
+  {
+    label: 'Linha única',
+    template: {
+      ...DEFAULT_OUTPUT_TEMPLATE,
+      header: '{patient} ({date}):',
+      line: '{items}',
+      item: '{item} {value}[ {arrow}]',
+      itemSeparator: ', ',
+      lineSeparator: ' ',
+      groupByCategory: false,
+    },
+  },
+  {
+    label: 'SOAP',
+    template: {
+      ...DEFAULT_OUTPUT_TEMPLATE,
+      header: 'O: Exames laboratoriais ({date})',
+      line: '- [{category}: ]{items}',
+      item: '{item} {value}[ {unit}][ {arrow}]',
+      itemSeparator: '; ',
+      abnormalHeader: 'A: Alterações laboratoriais ({date}): ',
+      abnormalItem: '{item} {value}[ {unit}][ {arrow}][ ({critical})]',
+      ordering: 'abnormal_first',
+    },
+  },
+];
+
+type TemplateValues = Record<string, string>;
+
+const TOKEN = /\[([^[\]]*)\]|\{(\w+)\}/g;
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+const fill = (text: string, values: TemplateValues): string =>
+  text.replace(PLACEHOLDER, (match, key: string) => (key in values ? values[key] : match));
+
+export const renderTemplate = (template: string, values: TemplateValues): string =>
+  template.replace(TOKEN, (match, section: string | undefined, key: string | undefined) => {
+    if (key !== undefined) return key in values ? values[key] : match;
+    const keys = Array.from(section!.matchAll(PLACEHOLDER), ([, name]) => name);
+    return keys.every(name => values[name]) ? fill(section!, values) : '';
+  });
+
+// Separators are typed in a single-line input, so "\n" stands for a line break
+const separator = (value: string): string => value.replace(/\\n/g, '\n');
+
+/** Stored templates may predate newer fields; missing ones come from the default. */
+export const normalizeOutputTemplate = (stored: Partial<OutputTemplate> | null | undefined): OutputTemplate =>
+  ({ ...DEFAULT_OUTPUT_TEMPLATE, ...(stored || {}) });
+
+interface SummaryEntry {
+  placement: AnalytePlacement;
+  abnormal: boolean;
+  critical: boolean;
+  values: TemplateValues;
+  abnormalValues: TemplateValues; // Evolution entries show each date's arrow here
+}
+
+const codeValues = (abbreviation: string) => {
+  const codes = findLabCodes(abbreviation);
+  return { loinc: codes?.loinc || '', tuss: codes?.tuss || '' };
+};
+
+const examEntries = (exam: AnalyzedExam, categories: LabCategory[]): SummaryEntry[] =>
+  exam.results.map(item => {
+    const critical = isCritical(item.abnormality);
+    const values = {
+      item: item.abbreviation,
+      value: formatLabValue(item.value),
+      unit: item.unit || '',
+      arrow: item.abnormality !== 'NORMAL' ? abnormalityArrow(item.abnormality) : '',
+      reference: item.referenceRange || '',
+      critical: critical ? 'CRÍTICO' : '',
+      ...codeValues(item.abbreviation),
+    };
+    return { placement: locateAnalyte(item.abbreviation, categories), abnormal: item.abnormality !== 'NORMAL', critical, values, abnormalValues: values };
+  });
+
+// One entry per analyte across all dates; references differ between dates, so none is shown
+const evolutionEntries = (evolution: PatientEvolution, categories: LabCategory[]): SummaryEntry[] =>
+  Object.entries(evolution.series).map(([abbreviation, points]) => {
+    const critical = points.some(({ item }) => isCritical(item.abnormality));
+    const values = {
+      item: abbreviation,
+      value: formatEvolutionValues(points),
+      unit: points[points.length - 1].item.unit || '',
+      arrow: '',
+      reference: '',
+      critical: critical ? 'CRÍTICO' : '',
+      ...codeValues(abbreviation),
+    };
+    return {
+      placement: locateAnalyte(abbreviation, categories),
+      abnormal: points.some(({ item }) => item.abnormality !== 'NORMAL'),
+      critical,
+      values,
+      abnormalValues: { ...values, value: formatEvolutionValues(points, true) },
+    };
+  });
+
+// Stable sort: critical, then altered, then the rest
+const bySeverity = (a: SummaryEntry, b: SummaryEntry) =>
+  Number(b.critical) - Number(a.critical) || Number(b.abnormal) - Number(a.abnormal);
+
+// The user's categories and the order of analytes inside them
+const byCategory = (a: SummaryEntry, b: SummaryEntry) =>
+  a.placement.categoryIndex - b.placement.categoryIndex || a.placement.position - b.placement.position;
+
+/** Lines of [category, entries], in the template's order ('report' keeps first appearance). */
+const groupLines = (entries: SummaryEntry[], template: OutputTemplate): [string, SummaryEntry[]][] => {
+  const sorted = template.ordering === 'report' ? entries : [...entries].sort(byCategory);
+  const ordered = template.ordering === 'abnormal_first' ? [...sorted].sort(bySeverity) : sorted;
+  if (!template.groupByCategory) return [['', ordered]];
+
+  const groups = new Map<string, SummaryEntry[]>();
+  ordered.forEach(entry => {
+    const category = entry.placement.category === OTHER_CATEGORY ? '' : entry.placement.category;
+    groups.set(category, [...(groups.get(category) || []), entry]);
+  });
+  return Array.from(groups.entries());
+};
+
+export interface LabSummary {
+  text: string; // Header and body: the "copiar" text
+  body: string; // Without the header (lean mode, PDF)
+  abnormalText: string;
+  abnormalBody: string;
+  hasAbnormal: boolean;
+}
+
+/**
+ * The text of a lab card under the user's template: a single exam, or an evolution card
+ * (one entry per analyte with every date). Altered results always lead with critical ones.
+ */
+export const formatLabSummary = (
+  exam: AnalyzedExam,
+  dateLabel: string,
+  template: OutputTemplate,
+  categories: LabCategory[],
+  evolution?: PatientEvolution
+): LabSummary => {
+  const entries = evolution ? evolutionEntries(evolution, categories) : examEntries(exam, categories);
+  const headerValues = { patient: exam.patientInitials, age: exam.patientAge || '', date: dateLabel };
+  const itemSeparator = separator(template.itemSeparator);
+  const lineSeparator = separator(template.lineSeparator);
+
+  const body = groupLines(entries, template)
+    .map(([category, lineEntries]) => renderTemplate(template.line, {
+      category,
+      items: lineEntries.map(entry => renderTemplate(template.item, entry.values)).join(itemSeparator),
+    }))
+    .join(lineSeparator);
+  const header = renderTemplate(template.header, headerValues);
+
+  // Report order, critical first, whatever the ordering of the full text
+  const abnormalEntries = entries
+    .filter(entry => entry.abnormal)
+    .sort((a, b) => Number(b.critical) - Number(a.critical));
+  const abnormalBody = abnormalEntries
+    .map(entry => renderTemplate(template.abnormalItem, entry.abnormalValues))
+    .join(itemSeparator);
+
+  return {
+    text: header ? `${header}${lineSeparator}${body}` : body,
+    body,
+    abnormalText: `${renderTemplate(template.abnormalHeader, headerValues)}${abnormalBody}`,
+    abnormalBody,
+    hasAbnormal: abnormalEntries.length > 0,
+  };
+};
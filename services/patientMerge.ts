@@ -0,0 +1,222 @@
+import { AnalyzedExam, ExamEdit, LabResultItem, MergedExamRecord, PatientIdentity, SourceLocation } from '../types';
+import { resolveCollectionDate } from './collectionDate';
+import { abbreviationKey } from './labValues';
+import { parsePatientAge } from './referenceRanges';
+
+// "M.J.R." and "mjr" are the same initials; "N/A" never matches anything
+const initialsKey = (initials: string): string =>
+  initials.normalize('NFD').replace(/[^A-Za-z]/g, '').toUpperCase();
+
+/**
+ * Same patient when the initials match and age and sex do not contradict each other
+ * (a year apart is allowed: the second report may be after a birthday).
+ */
+export const isSamePatient = (a: PatientIdentity, b: PatientIdentity): boolean => {
+  const key = initialsKey(a.patientInitials);
+  if (!key || key === 'NA' || key !== initialsKey(b.patientInitials)) return false;
+
+  const ageA = parsePatientAge(a.patientAge);
+  const ageB = parsePatientAge(b.patientAge);
+  if (ageA !== null && ageB !== null && Math.abs(ageA - ageB) > 1) return false;
+  return !(a.patientSex && b.patientSex && a.patientSex !== b.patientSex);
+};
+
+const isSameDate = (a: string | undefined, b: string | undefined): boolean => {
+  if (!a || !b) return false;
+  const dateA = resolveCollectionDate(a);
+  const dateB = resolveCollectionDate(b);
+  return dateA && dateB ? dateA.getTime() === dateB.getTime() : a.trim() === b.trim();
+};
+
+const identityOf = (exam: AnalyzedExam): PatientIdentity => ({
+  patientInitials: exam.patientInitials,
+  patientAge: exam.patientAge,
+  patientSex: exam.patientSex,
+});
+
+/** Takes another card's identity, remembering the original so a split can give it back. */
+const renamePatient = (exam: AnalyzedExam, identity: PatientIdentity): AnalyzedExam => {
+  if (exam.patientInitials === identity.patientInitials && exam.patientAge === identity.patientAge && exam.patientSex === identity.patientSex) {
+    return exam;
+  }
+  return { ...exam, ...identity, originalPatient: exam.originalPatient ?? identityOf(exam) };
+};
+
+const shiftSource = (source: SourceLocation | undefined, offset: number): SourceLocation | undefined =>
+  source ? { ...source, fileIndex: source.fileIndex + offset } : undefined;
+
+const shiftItem = (item: LabResultItem, offset: number): LabResultItem =>
+  offset === 0 ? item : { ...item, source: shiftSource(item.source, offset) };
+
+/**
+ * Whose edit it is on a merged exam: the report that brought it (re-edits keep `original`),
+ * else the report the edited result came from (fields start with the analyte, "Hb · valor"),
+ * else the card itself.
+ */
+const editOwner = (exam: AnalyzedExam, edit: ExamEdit): string => {
+  const records = exam.mergedExams || [];
+  const broughtBy = records.find(record => record.edits?.some(own => own.field === edit.field && own.original === edit.original));
+  if (broughtBy) return broughtBy.id;
+  const key = abbreviationKey(edit.field.split(' · ')[0]);
+  const from = exam.results.find(item => abbreviationKey(item.abbreviation) === key)?.mergedFrom;
+  return from && records.some(record => record.id === from) ? from : exam.id;
+};
+
+const editsOf = (exam: AnalyzedExam, ownerId: string): ExamEdit[] | undefined => {
+  const edits = (exam.edits || []).filter(edit => editOwner(exam, edit) === ownerId);
+  return edits.length > 0 ? edits : undefined;
+};
+
+/**
+ * Joins two lab reports of the same patient and date. Following the prompt's rule of one
+ * abbreviation per date, the card keeps the result it already had (it may have been reviewed);
+ * the other one is set aside on the merge record. Files are appended, so provenance is shifted.
+ */
+const absorbExam = (target: AnalyzedExam, incoming: AnalyzedExam): AnalyzedExam => {
+  const offset = target.sourceFiles?.length ?? 0;
+  const files = incoming.sourceFiles ?? [];
+  const present = new Set(target.results.map(item => abbreviationKey(item.abbreviation)));
+
+  const records: MergedExamRecord[] = [
+    ...(incoming.mergedExams || []).map(record => ({
+      ...record,
+      edits: editsOf(incoming, record.id),
+      fileOffset: record.fileOffset + offset,
+      source: shiftSource(record.source, offset),
+      droppedResults: record.droppedResults.map(item => shiftItem(item, offset)),
+    })),
+    {
+      id: incoming.id,
+      ...(incoming.originalPatient ?? identityOf(incoming)),
+      collectionDate: incoming.collectionDate,
+      rawSummary: incoming.originalSummary ?? incoming.rawSummary,
+      edits: editsOf(incoming, incoming.id),
+      source: shiftSource(incoming.source, offset),
+      fileOffset: offset,
+      fileCount: files.length,
+      droppedResults: [],
+    },
+  ];
+
+  const kept: LabResultItem[] = [];
+  incoming.results.forEach(raw => {
+    const item = { ...shiftItem(raw, offset), mergedFrom: raw.mergedFrom ?? incoming.id };
+    const key = abbreviationKey(item.abbreviation);
+    if (present.has(key)) {
+      records.find(record => record.id === item.mergedFrom)?.droppedResults.push(item);
+    } else {
+      present.add(key);
+      kept.push(item);
+    }
+  });
+
+  const sourceFiles = [...(target.sourceFiles || []), ...files];
+  // Gaps in the card's identity are filled from the absorbed report (and restored on split)
+  const patientAge = target.patientAge || incoming.patientAge;
+  const patientSex = target.patientSex ?? incoming.patientSex;
+  const identityChanged = patientAge !== target.patientAge || patientSex !== target.patientSex;
+  return {
+    ...target,
+    patientAge,
+    patientSex,
+    originalPatient: target.originalPatient ?? (identityChanged ? identityOf(target) : undefined),
+    results: [...target.results, ...kept],
+    rawSummary: [target.rawSummary, incoming.rawSummary].filter(Boolean).join(' / '),
+    originalSummary: target.originalSummary ?? target.rawSummary,
+    edits: target.edits || incoming.edits ? [...(target.edits || []), ...(incoming.edits || [])] : undefined,
+    sourceFiles: sourceFiles.length > 0 ? sourceFiles : undefined,
+    mergedExams: [...(target.mergedExams || []), ...records],
+  };
+};
+
+const canAbsorb = (target: AnalyzedExam, incoming: AnalyzedExam): boolean =>
+  target.category === 'LAB' && incoming.category === 'LAB' && isSameDate(target.collectionDate, incoming.collectionDate);
+
+/**
+ * Adds a new analysis to what is on screen: a known patient keeps one identity (so evolution
+ * cards group them) and a report of a date already shown is joined into that card.
+ */
+export const mergePatients = (existing: AnalyzedExam[], incoming: AnalyzedExam[]): AnalyzedExam[] => {
+  const result = [...existing];
+
+  incoming.forEach(exam => {
+    const match = result.find(candidate => isSamePatient(candidate, exam));
+    if (!match) {
+      result.push(exam);
+      return;
+    }
+
+    const renamed = renamePatient(exam, {
+      patientInitials: match.patientInitials,
+      patientAge: match.patientAge || exam.patientAge,
+      patientSex: match.patientSex ?? exam.patientSex,
+    });
+    const sameDate = result.findIndex(candidate => isSamePatient(candidate, renamed) && canAbsorb(candidate, renamed));
+    if (sameDate >= 0) result[sameDate] = absorbExam(result[sameDate], renamed);
+    else result.push(renamed);
+  });
+
+  return result;
+};
+
+/** Manual merge: the source card's exams become the target patient's, whatever the heuristic says. */
+export const mergeCards = (exams: AnalyzedExam[], sourceIds: string[], targetIds: string[]): AnalyzedExam[] => {
+  const target = exams.find(exam => exam.id === targetIds[0]);
+  if (!target) return exams;
+
+  const result = exams.filter(exam => !sourceIds.includes(exam.id));
+  exams.filter(exam => sourceIds.includes(exam.id)).forEach(exam => {
+    const renamed = renamePatient(exam, identityOf(target));
+    const sameDate = result.findIndex(candidate => targetIds.includes(candidate.id) && canAbsorb(candidate, renamed));
+    if (sameDate >= 0) result[sameDate] = absorbExam(result[sameDate], renamed);
+    else result.push(renamed);
+  });
+  return result;
+};
+
+export const isMergedExam = (exam: AnalyzedExam): boolean =>
+  !!exam.originalPatient || (exam.mergedExams?.length ?? 0) > 0;
+
+// Undoes every merge on one exam: absorbed reports come back as their own exams, each with
+// its own summary and edits
+const splitExam = (exam: AnalyzedExam): AnalyzedExam[] => {
+  const records = exam.mergedExams || [];
+  const absorbedIds = new Set(records.map(record => record.id));
+  const ownFileCount = records.length > 0 ? Math.min(...records.map(record => record.fileOffset)) : exam.sourceFiles?.length ?? 0;
+  const filesOf = (offset: number, count: number) => {
+    const files = exam.sourceFiles?.slice(offset, offset + count);
+    return files && files.length > 0 ? files : undefined;
+  };
+
+  const own: AnalyzedExam = {
+    ...exam,
+    ...exam.originalPatient,
+    originalPatient: undefined,
+    rawSummary: exam.originalSummary ?? exam.rawSummary,
+    originalSummary: undefined,
+    edits: editsOf(exam, exam.id),
+    mergedExams: undefined,
+    results: exam.results.filter(item => !item.mergedFrom || !absorbedIds.has(item.mergedFrom)),
+    sourceFiles: filesOf(0, ownFileCount),
+  };
+
+  const restored = records.map((record): AnalyzedExam => {
+    const { id, fileOffset, fileCount, droppedResults, source, ...identity } = record;
+    const results = [...exam.results.filter(item => item.mergedFrom === id), ...droppedResults]
+      .map(({ mergedFrom, ...item }) => shiftItem(item, -fileOffset));
+    return {
+      ...identity,
+      id,
+      category: 'LAB',
+      results,
+      edits: editsOf(exam, id),
+      source: shiftSource(source, -fileOffset),
+      sourceFiles: filesOf(fileOffset, fileCount),
+    };
+  });
+
+  return [own, ...restored];
+};
+
+export const splitCards = (exams: AnalyzedExam[], examIds: string[]): AnalyzedExam[] =>
+  exams.flatMap(exam => (examIds.includes(exam.id) && isMergedExam(exam) ? splitExam(exam) : [exam]));
@@ -0,0 +1,155 @@
+import { supabase } from './supabaseClient';
+import type { AuthError } from './authService';
+import type { AnalyzedExam, LabResultItem } from '../types';
+import { resolveCollectionDate, toIsoDate } from './collectionDate';
+import { withLabCodes } from './labCodes';
+
+export interface PatientRecord {
+  id: string;
+  user_id: string;
+  pseudonym: string;
+  initials: string;
+  age: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PatientLabEntry {
+  id: string;
+  patient_id: string;
+  user_id: string;
+  exam_id: string;
+  abbreviation: string;
+  value: string;
+  unit: string | null;
+  reference_range: string | null;
+  abnormality: LabResultItem['abnormality'];
+  loinc_code: string | null;
+  tuss_code: string | null;
+  collected_on: string;
+  created_at: string;
+}
+
+export const patientService = {
+  /**
+   * Lista os pacientes do usuário, mais recentes primeiro
+   */
+  async listPatients(userId: string): Promise<{ patients: PatientRecord[]; error: AuthError | null }> {
+    const { data, error } = await supabase
+      .from('patients')
+      .select('*')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false });
+
+    return {
+      patients: data || [],
+      error: error ? { message: error.message } : null,
+    };
+  },
+
+  async getPatient(patientId: string): Promise<{ patient: PatientRecord | null; error: AuthError | null }> {
+    const { data, error } = await supabase
+      .from('patients')
+      .select('*')
+      .eq('id', patientId)
+      .maybeSingle();
+
+    return {
+      patient: data,
+      error: error ? { message: error.message } : null,
+    };
+  },
+
+  async createPatient(
+    userId: string,
+    pseudonym: string,
+    initials: string,
+    age?: string
+  ): Promise<{ patient: PatientRecord | null; error: AuthError | null }> {
+    const { data, error } = await supabase
+      .from('patients')
+      .insert({
+        user_id: userId,
+        pseudonym,
+        initials,
+        age: age || null,
+      })
+      .select()
+      .single();
+
+    return {
+      patient: data,
+      error: error ? { message: error.message } : null,
+    };
+  },
+
+  /**
+   * Busca a linha do tempo completa (todas as coletas) de um paciente
+   */
+  async getTimeline(patientId: string): Promise<{ entries: PatientLabEntry[]; error: AuthError | null }> {
+    const { data, error } = await supabase
+      .from('patient_lab_results')
+      .select('*')
+      .eq('patient_id', patientId)
+      .order('collected_on', { ascending: true });
+
+    return {
+      entries: data || [],
+      error: error ? { message: error.message } : null,
+    };
+  },
+
+  /**
+   * Anexa os resultados de um exame LAB à linha do tempo do paciente.
+   * A mesma sigla na mesma data substitui o valor anterior (regra anti-duplicação).
+   * Sem data de coleta legível nada é gravado: a data de hoje poria o exame no lugar errado.
+   */
+  async appendExam(userId: string, patientId: string, exam: AnalyzedExam): Promise<{ error: AuthError | null }> {
+    const collectionDate = resolveCollectionDate(exam.collectionDate);
+    if (!collectionDate) return { error: { message: 'Informe a data da coleta antes de salvar na linha do tempo.' } };
+    const collectedOn = toIsoDate(collectionDate);
+
+    const rows = exam.results.map(withLabCodes).map((item) => ({
+      patient_id: patientId,
+      user_id: userId,
+      exam_id: exam.id,
+      abbreviation: item.abbreviation,
+      value: item.value,
+      unit: item.unit || null,
+      reference_range: item.referenceRange || null,
+      abnormality: item.abnormality,
+      loinc_code: item.loinc || null,
+      tuss_code: item.tuss || null,
+      collected_on: collectedOn,
+    }));
+
+    if (rows.length === 0) return { error: null };
+
+    const { error } = await supabase
+      .from('patient_lab_results')
+      .upsert(rows, { onConflict: 'patient_id,abbreviation,collected_on' });
+
+    if (error) return { error: { message: error.message } };
+
+    // An exam without age keeps the one already on file
+    const { error: patientError } = await supabase
+      .from('patients')
+      .update({ ...(exam.patientAge ? { age: exam.patientAge } : {}), updated_at: new Date().toISOString() })
+      .eq('id', patientId);
+
+    return {
+      error: patientError ? { message: patientError.message } : null,
+    };
+  },
+
+  async deletePatient(patientId: string): Promise<{ error: AuthError | null }> {
+    const { error } = await supabase
+      .from('patients')
+      .delete()
+      .eq('id', patientId);
+
+    return {
+      error: error ? { message: error.message } : null,
+    };
+  },
+};
@@ -0,0 +1,165 @@
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import type { AnalyzedExam, SourceLocation } from '../types';
+
+type PdfJs = typeof import('pdfjs-dist');
+
+let pdfjsPromise: Promise<PdfJs> | null = null;
+
+// pdf.js (and its worker) is only downloaded the first time a PDF is opened
+const loadPdfjs = (): Promise<PdfJs> => {
+  if (!pdfjsPromise) {
+    pdfjsPromise = Promise.all([
+      import('pdfjs-dist'),
+      import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+    ]).then(([pdfjs, worker]) => {
+      pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+      return pdfjs;
+    });
+  }
+  return pdfjsPromise;
+};
+
+export const isPdfFile = (file: File): boolean =>
+  file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+// Parsed locally: the file never leaves the browser for this
+export const openPdf = async (file: File): Promise<PDFDocumentProxy> => {
+  const pdfjs = await loadPdfjs();
+  const data = new Uint8Array(await file.arrayBuffer());
+  return pdfjs.getDocument({ data }).promise;
+};
+
+/**
+ * Draws one page (1-based) scaled to `width` CSS pixels, at device resolution.
+ * The returned task can be cancelled when the viewer moves to another page.
+ */
+export const renderPdfPage = async (
+  pdf: PDFDocumentProxy,
+  pageNumber: number,
+  canvas: HTMLCanvasElement,
+  width: number
+): Promise<RenderTask> => {
+  const page = await pdf.getPage(pageNumber);
+  const scale = width / page.getViewport({ scale: 1 }).width;
+  const viewport = page.getViewport({ scale: scale * (window.devicePixelRatio || 1) });
+
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+  canvas.style.width = `${width}px`;
+  canvas.style.height = `${viewport.height / (window.devicePixelRatio || 1)}px`;
+
+  return page.render({ canvas, viewport });
+};
+
+export interface PdfTextLine {
+  text: string;
+  box: NonNullable<SourceLocation['box']>; // Same normalization the model uses for provenance
+}
+
+export interface PdfTextPage {
+  page: number; // 1-based
+  lines: PdfTextLine[];
+}
+
+// Below this a page is treated as scanned (no text layer, or just a header/footer stamp)
+const MIN_CHARS_PER_PAGE = 200;
+// Broken font encodings come out as U+FFFD or control characters
+const MAX_GARBAGE_RATIO = 0.05;
+
+const isTextItem = (item: object): item is TextItem => 'str' in item;
+
+// Rebuilds reading order: items sharing a baseline become one line, left to right
+const readPageLines = async (pdf: PDFDocumentProxy, pageNumber: number): Promise<PdfTextLine[]> => {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: 1 });
+  const content = await page.getTextContent();
+
+  const items = content.items.filter(isTextItem).filter(item => item.str.trim()).map(item => {
+    const [x, y] = viewport.convertToViewportPoint(item.transform[4], item.transform[5]) as number[];
+    return { str: item.str, x, y, width: item.width, height: item.height || 8 };
+  }).sort((a, b) => a.y - b.y || a.x - b.x);
+
+  const lines: (typeof items)[] = [];
+  items.forEach(item => {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line[0].y - item.y) <= line[0].height / 2) line.push(item);
+    else lines.push([item]);
+  });
+
+  const toUnit = (value: number, total: number) => Math.round(Math.min(Math.max(value / total, 0), 1) * 1000);
+  return lines.map(line => {
+    line.sort((a, b) => a.x - b.x);
+    const top = Math.min(...line.map(item => item.y - item.height));
+    const bottom = Math.max(...line.map(item => item.y));
+    const left = Math.min(...line.map(item => item.x));
+    const right = Math.max(...line.map(item => item.x + item.width));
+    return {
+      text: line.map(item => item.str.trim()).join('  '),
+      box: [toUnit(top, viewport.height), toUnit(left, viewport.width), toUnit(bottom, viewport.height), toUnit(right, viewport.width)],
+    };
+  });
+};
+
+export const extractTextLayer = async (file: File): Promise<PdfTextPage[]> => {
+  const pdf = await openPdf(file);
+  try {
+    const pages: PdfTextPage[] = [];
+    for (let page = 1; page <= pdf.numPages; page++) {
+      pages.push({ page, lines: await readPageLines(pdf, page) });
+    }
+    return pages;
+  } finally {
+    pdf.destroy();
+  }
+};
+
+// Digitally generated reports pass; scans (or PDFs with a broken font encoding) do not
+export const isUsableTextLayer = (pages: PdfTextPage[]): boolean => {
+  if (pages.length === 0) return false;
+  const text = pages.flatMap(page => page.lines.map(line => line.text)).join('');
+  if (text.length / pages.length < MIN_CHARS_PER_PAGE || !/\d/.test(text)) return false;
+  const garbage = (text.match(/[\uFFFD\u0000-\u0008\u000E-\u001F]/g) || []).length;
+  return garbage / text.length <= MAX_GARBAGE_RATIO;
+};
+
+/**
+ * Text layer of every PDF that has a good one, by file position; `null` for images,
+ * scans and PDFs that fail to parse (those keep going to the model as files).
+ */
+export const readUsableTextLayers = (files: File[]): Promise<(PdfTextPage[] | null)[]> =>
+  Promise.all(files.map(async file => {
+    if (!isPdfFile(file)) return null;
+    try {
+      const pages = await extractTextLayer(file);
+      return isUsableTextLayer(pages) ? pages : null;
+    } catch (error) {
+      console.warn(`Text layer unavailable for ${file.name}:`, error);
+      return null;
+    }
+  }));
+
+// Page markers let the model still report source.page for text input
+export const formatTextLayer = (pages: PdfTextPage[]): string =>
+  pages.map(page => `--- PAGE ${page.page} ---\n${page.lines.map(line => line.text).join('\n')}`).join('\n\n');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Text input has no pixels for the model to box, so the value is looked up on the reported
+ * page instead: the first line printing it as a standalone token (with either decimal mark).
+ */
+export const attachTextLayerBoxes = (exam: AnalyzedExam, textLayers: (PdfTextPage[] | null)[]): AnalyzedExam => ({
+  ...exam,
+  results: exam.results.map(item => {
+    const source = item.source;
+    const pages = source ? textLayers[source.fileIndex] : null;
+    if (!source || source.box || !pages) return item;
+
+    const variants = Array.from(new Set([item.value, item.value.replace(',', '.'), item.value.replace('.', ',')]))
+      .map(escapeRegExp).join('|');
+    const pattern = new RegExp(`(^|[\\s:(])(${variants})(?=$|[\\s)*])`);
+    const line = pages.find(page => page.page === source.page)?.lines.find(candidate => pattern.test(candidate.text));
+    return line ? { ...item, source: { ...source, box: line.box } } : item;
+  }),
+});
@@ -0,0 +1,26 @@
+import { createServerProvider } from './serverProvider';
+import { createMockProvider } from './mockProvider';
+import type { ExtractionProvider } from './types';
+
+export type { AnalysisBatch, ExtractionProvider, ExtractionRequest } from './types';
+
+// Which model answers (Gemini or an on-prem OpenAI-compatible endpoint) is the edge function's choice
+export type ExtractionProviderName = 'server' | 'mock';
+
+/**
+ * Resolve o provedor de extração a partir de VITE_EXTRACTION_PROVIDER (padrão: server)
+ */
+export const getExtractionProvider = (): ExtractionProvider => {
+  const name = (import.meta.env.VITE_EXTRACTION_PROVIDER || 'server') as ExtractionProviderName;
+
+  switch (name) {
+    case 'mock':
+      return createMockProvider();
+
+    case 'server':
+      return createServerProvider();
+
+    default:
+      throw new Error(`Provedor de extração desconhecido: ${name}`);
+  }
+};
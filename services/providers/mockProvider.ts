@@ -0,0 +1,58 @@
+import { AnalyzedExam } from "../../types";
+import { parseExtractionResponse } from "../extractionPrompt";
+import type { ExtractionProvider } from "./types";
+
+// Fixed model output used for offline development and demos. Same JSON the real
+// providers receive, so it exercises the full mapping pipeline. The 05/03 creatinine
+// comes from an outside lab in µmol/L to exercise unit conversion.
+const MOCK_RESPONSE = [
+  {
+    patientInitials: 'MJR',
+    patientAge: '58 anos',
+    collectionDate: '01/03',
+    category: 'LAB',
+    labResults: [
+      { abbreviation: 'Hb', value: '11,2', unit: 'g/dL', referenceRange: '12,0 - 16,0', abnormality: 'LOW' },
+      { abbreviation: 'Ht', value: '34', unit: '%', referenceRange: '36 - 46', abnormality: 'LOW' },
+      { abbreviation: 'Leuco', value: '7.800', unit: '/mm³', referenceRange: '4.000 - 11.000', abnormality: 'NORMAL' },
+      { abbreviation: 'Plq', value: '210.000', unit: '/mm³', referenceRange: '150.000 - 450.000', abnormality: 'NORMAL' },
+      { abbreviation: 'Ur', value: '68', unit: 'mg/dL', referenceRange: '15 - 45', abnormality: 'HIGH' },
+      { abbreviation: 'Cr', value: '1,9', unit: 'mg/dL', referenceRange: '0,6 - 1,2', abnormality: 'HIGH' },
+      { abbreviation: 'Na', value: '138', unit: 'mEq/L', referenceRange: '135 - 145', abnormality: 'NORMAL' },
+      { abbreviation: 'K', value: '5,4', unit: 'mEq/L', referenceRange: '3,5 - 5,1', abnormality: 'HIGH' },
+    ],
+  },
+  {
+    patientInitials: 'MJR',
+    patientAge: '58 anos',
+    collectionDate: '05/03',
+    category: 'LAB',
+    labResults: [
+      { abbreviation: 'Hb', value: '11,0', unit: 'g/dL', referenceRange: '12,0 - 16,0', abnormality: 'LOW' },
+      { abbreviation: 'Ur', value: '55', unit: 'mg/dL', referenceRange: '15 - 45', abnormality: 'HIGH' },
+      { abbreviation: 'Cr', value: '133', unit: 'µmol/L', referenceRange: '53 - 106', abnormality: 'HIGH' },
+      { abbreviation: 'K', value: '4,8', unit: 'mEq/L', referenceRange: '3,5 - 5,1', abnormality: 'NORMAL' },
+    ],
+  },
+  {
+    patientInitials: 'ACS',
+    patientAge: '34 anos',
+    collectionDate: '02/03',
+    category: 'NON_LAB',
+    labResults: [],
+    nonLabData: {
+      examTitle: 'Ultrassom de Rins e Vias Urinárias',
+      mainFindings: ['Rins de dimensões normais', 'Sem sinais de hidronefrose'],
+      impression: 'Exame dentro dos limites da normalidade.',
+    },
+  },
+];
+
+export const createMockProvider = (): ExtractionProvider => ({
+  name: 'mock',
+
+  async extract(): Promise<AnalyzedExam[]> {
+    let counter = 0;
+    return parseExtractionResponse(JSON.stringify(MOCK_RESPONSE), () => `mock-${++counter}`);
+  },
+});
@@ -0,0 +1,64 @@
+import { supabase } from "../supabaseClient";
+import { AnalyzedExam } from "../../types";
+import { parseExtractionResponse } from "../extractionPrompt";
+import { QuotaExceededError } from "../usageService";
+import { fromHttpError } from "../analysisErrors";
+import type { AnalysisBatch, ExtractionProvider, ExtractionRequest } from "./types";
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+// Authenticated POST to analyze-exam; plan limits come back as QuotaExceededError
+const callAnalyzeExam = async (body: Record<string, unknown>): Promise<Response> => {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  if (!session?.access_token) {
+    throw new Error('User not authenticated');
+  }
+
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/analyze-exam`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+      'apikey': SUPABASE_ANON_KEY,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    if (error.code === 'quota_exceeded' || error.code === 'file_limit_exceeded') {
+      throw new QuotaExceededError(error.error, error.code);
+    }
+    throw fromHttpError(response.status, error.code, response.headers.get('Retry-After'));
+  }
+
+  return response;
+};
+
+/**
+ * Calls the analyze-exam edge function, which holds the model keys and enforces the plan.
+ * The system prompt is rebuilt server-side from the same rules, so only the rule inputs travel.
+ */
+export const createServerProvider = (): ExtractionProvider => ({
+  name: 'server',
+
+  async extract({ parts, customAbbreviations, preferences, batchId }: ExtractionRequest): Promise<AnalyzedExam[]> {
+    const response = await callAnalyzeExam({
+      parts,
+      customAbbreviations: customAbbreviations.map(({ examName, abbreviation }) => ({ examName, abbreviation })),
+      preferences,
+      batchId,
+    });
+
+    return parseExtractionResponse(await response.text());
+  },
+
+  // The server checks the whole upload against the plan's file limit and bounds the batch
+  async startBatch(fileCount: number): Promise<AnalysisBatch> {
+    const response = await callAnalyzeExam({ action: 'start_batch', fileCount });
+    const { batchId, expiresAt } = await response.json();
+    return { id: batchId, expiresAt };
+  },
+});
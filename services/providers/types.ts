@@ -0,0 +1,28 @@
+import type { AnalyzedExam, CustomAbbreviation, AnalysisPreferences } from '../../types';
+import type { ExtractionPart } from '../extractionPrompt';
+
+export interface ExtractionRequest {
+  parts: ExtractionPart[];
+  systemInstruction: string;
+  // Rule inputs, for providers that rebuild the prompt elsewhere (the server proxy)
+  customAbbreviations: CustomAbbreviation[];
+  preferences: AnalysisPreferences;
+  batchId?: string; // Issued by startBatch; chunks of one upload share it, so the server charges a single credit
+}
+
+// A chunked upload's batch, issued by the server for a declared number of files
+export interface AnalysisBatch {
+  id: string;
+  expiresAt: string; // ISO; retries of failed files reuse the batch until then
+}
+
+/**
+ * A model backend able to turn document parts into AnalyzedExam[].
+ * Every implementation must go through parseExtractionResponse so the shape is identical.
+ */
+export interface ExtractionProvider {
+  readonly name: string;
+  extract(request: ExtractionRequest): Promise<AnalyzedExam[]>;
+  // Providers that charge per analysis open a batch before a chunked upload
+  startBatch?(fileCount: number): Promise<AnalysisBatch>;
+}
@@ -0,0 +1,357 @@
+import { AnalyzedExam, LabResultItem, LabValue, CriticalThreshold, COMMON_ABBREVIATIONS } from "../types";
+import { NumericRange, abbreviationKey, getLabValue, parseReferenceRange } from "./labValues";
+import { toConventionalNumber } from "./unitConversion";
+
+export type Abnormality = LabResultItem['abnormality'];
+// HIGH/LOW/NORMAL, what the model and the range tables can express
+export type BaseAbnormality = NonNullable<LabResultItem['modelAbnormality']>;
+export type PatientSex = 'M' | 'F';
+
+interface RangeRule extends NumericRange {
+  population?: 'adult' | 'pediatric';
+  sex?: PatientSex;
+}
+
+interface CuratedEntry {
+  rules: RangeRule[];
+  // Counts reported in thousands (e.g. Leuco "7,8" meaning 7.800/mm³)
+  thousands?: boolean;
+}
+
+export interface PatientContext {
+  ageYears: number | null;
+  sex?: PatientSex;
+}
+
+const PEDIATRIC_AGE_LIMIT = 18;
+
+const { HEMOGLOBIN, HEMATOCRIT, LEUKOCYTES, PLATELETS, GLUCOSE, UREA, CREATININE, SODIUM, POTASSIUM,
+  CHOLESTEROL_TOTAL, HDL, LDL, TRIGLYCERIDES, TSH, T4_FREE, VHS, TGO, TGP, GGT, FERRITIN,
+  VITAMIN_B12, VITAMIN_D } = COMMON_ABBREVIATIONS;
+
+// Curated defaults, used when the document has no (parseable) reference range.
+// Written in conventional units; SI values are converted first (see unitConversion). Only analytes whose unit is unambiguous in Brazilian reports are listed; PCR, troponin
+// and lactate vary between mg/dL-mg/L or assay generations and are left to the document.
+const CURATED_RANGES: Record<string, CuratedEntry> = {
+  // HEMOGRAMA
+  [HEMOGLOBIN]: { rules: [
+    { population: 'pediatric', min: 11.0, max: 14.5 },
+    { sex: 'M', min: 13.5, max: 17.5 },
+    { sex: 'F', min: 12.0, max: 15.5 },
+    { min: 12.0, max: 17.5 },
+  ] },
+  [HEMATOCRIT]: { rules: [
+    { population: 'pediatric', min: 33, max: 43 },
+    { sex: 'M', min: 40, max: 52 },
+    { sex: 'F', min: 36, max: 46 },
+    { min: 36, max: 52 },
+  ] },
+  'VCM': { rules: [{ min: 80, max: 100 }] },
+  'HCM': { rules: [{ min: 27, max: 33 }] },
+  'CHCM': { rules: [{ min: 32, max: 36 }] },
+  'RDW': { rules: [{ min: 11.5, max: 14.5 }] },
+  [LEUKOCYTES]: { thousands: true, rules: [
+    { population: 'pediatric', min: 5000, max: 15000 },
+    { min: 4000, max: 11000 },
+  ] },
+  [PLATELETS]: { thousands: true, rules: [{ min: 150000, max: 450000 }] },
+  // RENAL
+  [UREA]: { rules: [
+    { population: 'pediatric', min: 10, max: 40 },
+    { min: 15, max: 45 },
+  ] },
+  [CREATININE]: { rules: [
+    { population: 'pediatric', min: 0.3, max: 0.7 },
+    { sex: 'M', min: 0.7, max: 1.3 },
+    { sex: 'F', min: 0.6, max: 1.1 },
+    { min: 0.6, max: 1.3 },
+  ] },
+  // ELETRÓLITOS
+  [SODIUM]: { rules: [{ min: 135, max: 145 }] },
+  [POTASSIUM]: { rules: [{ min: 3.5, max: 5.1 }] },
+  'Ca': { rules: [{ min: 8.5, max: 10.5 }] },
+  'Mg': { rules: [{ min: 1.6, max: 2.6 }] },
+  'P': { rules: [
+    { population: 'pediatric', min: 4.0, max: 7.0 },
+    { min: 2.5, max: 4.5 },
+  ] },
+  'Cl': { rules: [{ min: 98, max: 107 }] },
+  // METABÓLICO
+  [GLUCOSE]: { rules: [{ min: 70, max: 99 }] },
+  'HbA1c': { rules: [{ min: null, max: 5.6 }] },
+  // LIPIDOGRAMA
+  [CHOLESTEROL_TOTAL]: { rules: [
+    { population: 'pediatric', min: null, max: 170 },
+    { min: null, max: 190 },
+  ] },
+  [HDL]: { rules: [{ min: 40, max: null }] },
+  [LDL]: { rules: [
+    { population: 'pediatric', min: null, max: 110 },
+    { min: null, max: 130 },
+  ] },
+  [TRIGLYCERIDES]: { rules: [
+    { population: 'pediatric', min: null, max: 90 },
+    { min: null, max: 150 },
+  ] },
+  // HEPÁTICO
+  [TGO]: { rules: [{ min: null, max: 40 }] },
+  [TGP]: { rules: [{ min: null, max: 41 }] },
+  [GGT]: { rules: [
+    { sex: 'M', min: null, max: 60 },
+    { sex: 'F', min: null, max: 40 },
+    { min: null, max: 60 },
+  ] },
+  'FA': { rules: [{ min: 40, max: 129 }] },
+  'Bil-T': { rules: [{ min: null, max: 1.2 }] },
+  'Albumina': { rules: [{ min: 3.5, max: 5.2 }] },
+  // HORMONAL
+  [TSH]: { rules: [{ min: 0.4, max: 4.5 }] },
+  [T4_FREE]: { rules: [{ min: 0.7, max: 1.8 }] },
+  [VITAMIN_D]: { rules: [{ min: 30, max: 100 }] },
+  [VITAMIN_B12]: { rules: [{ min: 200, max: 900 }] },
+  // INFLAMATÓRIO
+  [VHS]: { rules: [
+    { sex: 'M', min: null, max: 15 },
+    { sex: 'F', min: null, max: 20 },
+    { min: null, max: 20 },
+  ] },
+  [FERRITIN]: { rules: [
+    { sex: 'M', min: 30, max: 400 },
+    { sex: 'F', min: 13, max: 150 },
+    { min: 13, max: 400 },
+  ] },
+  // GASOMETRIA
+  'pH': { rules: [{ min: 7.35, max: 7.45 }] },
+  'pCO2': { rules: [{ min: 35, max: 45 }] },
+  'pO2': { rules: [{ min: 80, max: 100 }] },
+  'HCO3': { rules: [{ min: 22, max: 26 }] },
+  'BE': { rules: [{ min: -2, max: 2 }] },
+  'SatO2': { rules: [{ min: 95, max: null }] },
+};
+
+const CURATED_KEYS = new Map(Object.keys(CURATED_RANGES).map(key => [key.toLowerCase(), key]));
+
+// Curated spelling when known ("plaq" -> "Plq"), otherwise the lookup key
+const canonicalAbbreviation = (abbreviation: string): string => {
+  const key = abbreviationKey(abbreviation);
+  return CURATED_KEYS.get(key) ?? key;
+};
+
+const findCuratedEntry = (abbreviation: string): CuratedEntry | null =>
+  CURATED_RANGES[canonicalAbbreviation(abbreviation)] ?? null;
+
+// "45 anos" -> 45, "3 meses" -> 0.25, "10 dias" -> ~0.03
+export const parsePatientAge = (age: string | undefined): number | null => {
+  if (!age) return null;
+  const match = age.match(/(\d+(?:[.,]\d+)?)\s*(anos?|a\b|m[eê]s(?:es)?|m\b|dias?|d\b)?/i);
+  if (!match) return null;
+
+  const amount = parseFloat(match[1].replace(',', '.'));
+  const unit = (match[2] || 'anos').toLowerCase();
+  if (unit.startsWith('m')) return amount / 12;
+  if (unit.startsWith('d')) return amount / 365;
+  return amount;
+};
+
+export const getPatientContext = (exam: AnalyzedExam): PatientContext => ({
+  ageYears: parsePatientAge(exam.patientAge),
+  sex: exam.patientSex,
+});
+
+// Most specific rule wins: population + sex, then population, then sex, then generic
+export const findCuratedRange = (abbreviation: string, context: PatientContext): NumericRange | null => {
+  const entry = findCuratedEntry(abbreviation);
+  if (!entry) return null;
+
+  const population = context.ageYears !== null && context.ageYears < PEDIATRIC_AGE_LIMIT ? 'pediatric' : 'adult';
+  const score = (rule: RangeRule): number => {
+    if (rule.population && rule.population !== population) return -1;
+    if (rule.sex && rule.sex !== context.sex) return -1;
+    return (rule.population ? 2 : 0) + (rule.sex ? 1 : 0);
+  };
+
+  const best = entry.rules
+    .map(rule => ({ rule, score: score(rule) }))
+    .filter(candidate => candidate.score >= 0)
+    .sort((a, b) => b.score - a.score)[0];
+
+  return best ? { min: best.rule.min, max: best.rule.max } : null;
+};
+
+export const classifyValue = (value: number, range: NumericRange): BaseAbnormality => {
+  if (range.min !== null && value < range.min) return 'LOW';
+  if (range.max !== null && value > range.max) return 'HIGH';
+  return 'NORMAL';
+};
+
+// Leuco "7,8" against 4.000 - 11.000: the value was reported in thousands
+const scaleToRange = (abbreviation: string, value: number, range: NumericRange): number => {
+  const bound = range.max ?? range.min;
+  const inThousands = findCuratedEntry(abbreviation)?.thousands && value < 1000 && bound !== null && bound >= 1000;
+  return inThousands ? value * 1000 : value;
+};
+
+// Censored results only classify when their bound settles it: "<0,5" against max 5 is
+// NORMAL, "<10" against min 12 is LOW, "<10" against max 5 is undecidable (null).
+// Qualitative results and titers have no numeric range and return null as well.
+export const classifyLabValue = (
+  labValue: LabValue,
+  range: NumericRange,
+  toComparable: (value: number) => number
+): BaseAbnormality | null => {
+  switch (labValue.kind) {
+    case 'numeric':
+    case 'ratio':
+      return classifyValue(toComparable(labValue.value), range);
+    case 'censored-below': {
+      const limit = toComparable(labValue.limit);
+      if (range.min !== null && limit <= range.min) return 'LOW';
+      if (range.max !== null && limit > range.max) return null;
+      return 'NORMAL';
+    }
+    case 'censored-above': {
+      const limit = toComparable(labValue.limit);
+      if (range.max !== null && limit >= range.max) return 'HIGH';
+      if (range.min !== null && limit < range.min) return null;
+      return 'NORMAL';
+    }
+    default:
+      return null;
+  }
+};
+
+export const isCritical = (abnormality: Abnormality): boolean =>
+  abnormality === 'CRITICAL_HIGH' || abnormality === 'CRITICAL_LOW';
+
+export const toBaseAbnormality = (abnormality: Abnormality): BaseAbnormality =>
+  abnormality === 'CRITICAL_HIGH' ? 'HIGH' : abnormality === 'CRITICAL_LOW' ? 'LOW' : abnormality;
+
+export const isHighAbnormality = (abnormality: Abnormality): boolean => toBaseAbnormality(abnormality) === 'HIGH';
+
+const ARROWS: Record<Abnormality, string> = {
+  HIGH: '↑',
+  LOW: '↓',
+  CRITICAL_HIGH: '↑↑',
+  CRITICAL_LOW: '↓↓',
+  NORMAL: '',
+};
+
+export const abnormalityArrow = (abnormality: Abnormality): string => ARROWS[abnormality];
+
+export const ABNORMALITY_LABELS: Record<Abnormality, string> = {
+  HIGH: '↑ elevado',
+  LOW: '↓ baixo',
+  CRITICAL_HIGH: '↑↑ crítico',
+  CRITICAL_LOW: '↓↓ crítico',
+  NORMAL: 'normal',
+};
+
+// Panic tier: numeric thresholds (Leuco/Plq in thousands are scaled) or a positive qualitative result
+export const checkCritical = (item: LabResultItem, thresholds: CriticalThreshold[]): Abnormality | null => {
+  const key = canonicalAbbreviation(item.abbreviation);
+  const threshold = thresholds.find(candidate => canonicalAbbreviation(candidate.abbreviation) === key);
+  if (!threshold) return null;
+
+  const labValue = getLabValue(item);
+  if (labValue.kind === 'qualitative') {
+    return threshold.criticalIfPositive && labValue.positive ? 'CRITICAL_HIGH' : null;
+  }
+
+  // Thresholds are written in conventional units (mg/dL, mEq/L...)
+  const range = { min: threshold.criticalBelow, max: threshold.criticalAbove };
+  const comparable = (value: number) => scaleToRange(item.abbreviation, toConventionalNumber(item, value), range);
+  switch (labValue.kind) {
+    case 'numeric':
+    case 'ratio': {
+      const value = comparable(labValue.value);
+      if (range.min !== null && value < range.min) return 'CRITICAL_LOW';
+      if (range.max !== null && value > range.max) return 'CRITICAL_HIGH';
+      return null;
+    }
+    // A censored value is only critical when its bound is already past the threshold
+    case 'censored-below':
+      return range.min !== null && comparable(labValue.limit) <= range.min ? 'CRITICAL_LOW' : null;
+    case 'censored-above':
+      return range.max !== null && comparable(labValue.limit) >= range.max ? 'CRITICAL_HIGH' : null;
+    default:
+      return null;
+  }
+};
+
+export interface ReferenceEvaluation {
+  abnormality: Abnormality;
+  source: NonNullable<LabResultItem['abnormalitySource']>;
+  disagreesWithModel: boolean;
+}
+
+// Recomputes the flag from the value: the document's own range first, the curated
+// table second. Falls back to the model when neither range can settle the value.
+const evaluateBaseResult = (item: LabResultItem, context: PatientContext, modelAbnormality: BaseAbnormality): ReferenceEvaluation => {
+  const fallback: ReferenceEvaluation = { abnormality: modelAbnormality, source: 'model', disagreesWithModel: false };
+
+  const labValue = getLabValue(item);
+
+  const documentRange = parseReferenceRange(item.referenceRange, context.sex);
+  // Per-sex printed ranges with no sex to choose by: no flag rather than a guessed one
+  if (documentRange.ambiguous) return { abnormality: 'NORMAL', source: 'document', disagreesWithModel: false };
+  if (documentRange.min !== null || documentRange.max !== null) {
+    const abnormality = classifyLabValue(labValue, documentRange, value => scaleToRange(item.abbreviation, value, documentRange));
+    if (abnormality === null) return fallback;
+    return { abnormality, source: 'document', disagreesWithModel: abnormality !== modelAbnormality };
+  }
+
+  const curatedRange = findCuratedRange(item.abbreviation, context);
+  if (!curatedRange) return fallback;
+
+  const abnormality = classifyLabValue(
+    labValue,
+    curatedRange,
+    value => scaleToRange(item.abbreviation, toConventionalNumber(item, value), curatedRange)
+  );
+  if (abnormality === null) return fallback;
+  return { abnormality, source: 'curated', disagreesWithModel: abnormality !== modelAbnormality };
+};
+
+// Critical thresholds only escalate the flag; disagreement is judged on HIGH/LOW/NORMAL
+export const evaluateResult = (
+  item: LabResultItem,
+  context: PatientContext,
+  thresholds: CriticalThreshold[] = []
+): ReferenceEvaluation => {
+  // A flag set by hand in the result editor wins over every range
+  if (item.abnormalitySource === 'manual') {
+    return { abnormality: item.abnormality, source: 'manual', disagreesWithModel: false };
+  }
+  // So does the lab system's own flag; the user's thresholds can still escalate it
+  if (item.abnormalitySource === 'lis') {
+    const critical = isCritical(item.abnormality) ? null : checkCritical(item, thresholds);
+    return { abnormality: critical ?? item.abnormality, source: 'lis', disagreesWithModel: false };
+  }
+  const modelAbnormality = item.modelAbnormality ?? toBaseAbnormality(item.abnormality);
+  const evaluation = evaluateBaseResult(item, context, modelAbnormality);
+  const critical = checkCritical(item, thresholds);
+  return critical ? { ...evaluation, abnormality: critical } : evaluation;
+};
+
+export const applyReferenceEngine = (exam: AnalyzedExam, thresholds: CriticalThreshold[] = []): AnalyzedExam => {
+  if (exam.category !== 'LAB') return exam;
+
+  const context = getPatientContext(exam);
+  return {
+    ...exam,
+    results: exam.results.map(item => {
+      const evaluation = evaluateResult(item, context, thresholds);
+      const modelAbnormality = item.modelAbnormality ?? toBaseAbnormality(item.abnormality);
+      return {
+        ...item,
+        abnormality: evaluation.abnormality,
+        abnormalitySource: evaluation.source,
+        modelAbnormality: evaluation.disagreesWithModel ? modelAbnormality : undefined,
+      };
+    }),
+  };
+};
+
+// Result whose flag was changed by the engine, for review in the UI
+export const hasModelDisagreement = (item: LabResultItem): boolean =>
+  !!item.modelAbnormality && item.modelAbnormality !== toBaseAbnormality(item.abnormality);
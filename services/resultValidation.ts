@@ -0,0 +1,219 @@
+import { AnalyzedExam, LabResultItem, SourceLocation, ValidationIssue, CustomAbbreviation, COMMON_ABBREVIATIONS } from "../types";
+import { SYSTEM_CATEGORIES } from "./labCategories";
+import { PROMPT_ABBREVIATIONS } from "./abbreviationSynonyms";
+import { abbreviationKey, getLabValue } from "./labValues";
+import { hasModelDisagreement } from "./referenceRanges";
+import { toConventionalNumber } from "./unitConversion";
+
+// Items scoring below this go to the review queue in PatientCard
+export const REVIEW_THRESHOLD = 0.7;
+
+const PENALTIES: Record<ValidationIssue['code'], number> = {
+  'schema': 0.3,
+  'duplicate': 0.4,
+  'implausible': 0.6,
+  'unknown-abbreviation': 0.35,
+  'range-disagreement': 0.2,
+};
+
+const ABNORMALITIES: LabResultItem['abnormality'][] = ['HIGH', 'LOW', 'NORMAL'];
+
+const KNOWN_ABBREVIATIONS = new Set(
+  [...Object.values(SYSTEM_CATEGORIES).flat(), ...Object.values(COMMON_ABBREVIATIONS), ...PROMPT_ABBREVIATIONS]
+    .map(abbreviationKey)
+);
+
+interface PlausibleRange {
+  min: number;
+  max: number;
+  thousands?: boolean; // Leuco/Plq may come as "7,8" (x10³)
+}
+
+// Physiologically possible values (conventional units), far wider than reference ranges:
+// anything outside is almost certainly a misread digit, decimal or unit (e.g. Hb 140).
+const PLAUSIBLE_RANGES: Record<string, PlausibleRange> = {
+  [COMMON_ABBREVIATIONS.HEMOGLOBIN]: { min: 2, max: 25 },
+  [COMMON_ABBREVIATIONS.HEMATOCRIT]: { min: 5, max: 75 },
+  'VCM': { min: 40, max: 150 },
+  [COMMON_ABBREVIATIONS.LEUKOCYTES]: { min: 100, max: 500000, thousands: true },
+  [COMMON_ABBREVIATIONS.PLATELETS]: { min: 1000, max: 3000000, thousands: true },
+  [COMMON_ABBREVIATIONS.GLUCOSE]: { min: 5, max: 3000 },
+  'HbA1c': { min: 2, max: 25 },
+  [COMMON_ABBREVIATIONS.UREA]: { min: 1, max: 600 },
+  [COMMON_ABBREVIATIONS.CREATININE]: { min: 0.05, max: 30 },
+  [COMMON_ABBREVIATIONS.SODIUM]: { min: 90, max: 200 },
+  [COMMON_ABBREVIATIONS.POTASSIUM]: { min: 1, max: 12 },
+  'Ca': { min: 2, max: 25 },
+  'Mg': { min: 0.2, max: 12 },
+  'P': { min: 0.3, max: 20 },
+  'Cl': { min: 50, max: 160 },
+  [COMMON_ABBREVIATIONS.CHOLESTEROL_TOTAL]: { min: 30, max: 1500 },
+  [COMMON_ABBREVIATIONS.HDL]: { min: 5, max: 200 },
+  [COMMON_ABBREVIATIONS.LDL]: { min: 5, max: 1000 },
+  [COMMON_ABBREVIATIONS.TRIGLYCERIDES]: { min: 10, max: 10000 },
+  [COMMON_ABBREVIATIONS.TSH]: { min: 0, max: 500 },
+  [COMMON_ABBREVIATIONS.T4_FREE]: { min: 0, max: 10 },
+  [COMMON_ABBREVIATIONS.TGO]: { min: 1, max: 20000 },
+  [COMMON_ABBREVIATIONS.TGP]: { min: 1, max: 20000 },
+  'Albumina': { min: 0.5, max: 7 },
+  'Bil-T': { min: 0, max: 60 },
+  'pH': { min: 6.5, max: 8 },
+  'pCO2': { min: 5, max: 200 },
+  'HCO3': { min: 2, max: 70 },
+  'SatO2': { min: 10, max: 100 },
+};
+
+const PLAUSIBLE_KEYS = new Map(Object.keys(PLAUSIBLE_RANGES).map(key => [key.toLowerCase(), key]));
+
+const checkPlausibility = (item: LabResultItem): ValidationIssue | null => {
+  const key = PLAUSIBLE_KEYS.get(abbreviationKey(item.abbreviation));
+  if (!key) return null;
+
+  const labValue = getLabValue(item);
+  const raw = labValue.kind === 'numeric' ? labValue.value
+    : labValue.kind === 'censored-below' || labValue.kind === 'censored-above' ? labValue.limit
+    : null;
+  if (raw === null) return null;
+
+  const range = PLAUSIBLE_RANGES[key];
+  const converted = toConventionalNumber(item, raw);
+  const value = range.thousands && converted < 1000 ? converted * 1000 : converted;
+  if (value >= range.min && value <= range.max) return null;
+
+  return { code: 'implausible', message: `Valor improvável para ${item.abbreviation} (${item.value}${item.unit ? ` ${item.unit}` : ''})` };
+};
+
+const isKnownAbbreviation = (abbreviation: string, custom: Set<string>): boolean => {
+  // Urine suffix rule from the prompt: "Leuco U", "Glic U"...
+  const key = abbreviationKey(abbreviation.replace(/\s+U$/i, ''));
+  return KNOWN_ABBREVIATIONS.has(key) || custom.has(abbreviationKey(abbreviation)) || custom.has(key);
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Provenance is best-effort: anything pointing outside the uploaded files is dropped, a bad box only loses the box
+const sanitizeSource = (raw: unknown, fileCount: number): SourceLocation | undefined => {
+  const source = (raw ?? {}) as Record<string, unknown>;
+  const fileIndex = source.fileIndex;
+  if (!isFiniteNumber(fileIndex) || !Number.isInteger(fileIndex) || fileIndex < 0 || fileIndex >= fileCount) return undefined;
+  const page = isFiniteNumber(source.page) && source.page >= 1 ? Math.floor(source.page) : 1;
+
+  const box = Array.isArray(source.box) ? source.box : [];
+  const validBox = box.length === 4 && box.every(n => isFiniteNumber(n) && n >= 0 && n <= 1000)
+    && box[0] < box[2] && box[1] < box[3];
+  return validBox ? { fileIndex, page, box: box as SourceLocation['box'] } : { fileIndex, page };
+};
+
+const sanitizeItem = (raw: unknown, fileCount: number): LabResultItem | null => {
+  const item = (raw ?? {}) as Record<string, unknown>;
+  const issues: ValidationIssue[] = [];
+
+  const abbreviation = typeof item.abbreviation === 'string' ? item.abbreviation.trim() : '';
+  const value = typeof item.value === 'string' ? item.value.trim()
+    : typeof item.value === 'number' ? String(item.value).replace('.', ',')
+    : '';
+  // Nothing the doctor could confirm: drop instead of showing an empty row
+  if (!abbreviation || !value) return null;
+
+  if (typeof item.value !== 'string') {
+    issues.push({ code: 'schema', message: 'Valor retornado fora do formato esperado' });
+  }
+
+  let abnormality = item.abnormality as LabResultItem['abnormality'];
+  if (!ABNORMALITIES.includes(abnormality)) {
+    issues.push({ code: 'schema', message: 'Classificação ausente ou inválida' });
+    abnormality = 'NORMAL';
+  }
+
+  return {
+    abbreviation,
+    value,
+    referenceRange: typeof item.referenceRange === 'string' && item.referenceRange.trim() ? item.referenceRange.trim() : undefined,
+    unit: typeof item.unit === 'string' && item.unit.trim() ? item.unit.trim() : undefined,
+    abnormality,
+    issues,
+    source: sanitizeSource(item.source, fileCount),
+  };
+};
+
+/**
+ * Schema pass, right after the model JSON is mapped: coerces types, drops rows without
+ * abbreviation or value and records what had to be fixed. `fileCount` bounds the provenance
+ * indexes (0 for text or audio input, which has no document to point at).
+ */
+export const sanitizeExtraction = (exams: AnalyzedExam[], fileCount = 0): AnalyzedExam[] =>
+  exams.map(exam => {
+    const rawResults: unknown[] = Array.isArray(exam.results) ? exam.results : [];
+    const results = rawResults
+      .map(raw => sanitizeItem(raw, fileCount))
+      .filter((item): item is LabResultItem => item !== null);
+    if (results.length < rawResults.length) {
+      console.warn(`Validation: ${rawResults.length - results.length} result(s) without abbreviation/value dropped`);
+    }
+    return {
+      ...exam,
+      category: exam.category === 'NON_LAB' ? 'NON_LAB' : 'LAB',
+      results,
+      source: sanitizeSource(exam.source, fileCount),
+    };
+  });
+
+/**
+ * Content pass, after typed values and the range engine: duplicated abbreviation/date
+ * pairs (the prompt's anti-duplication rule), implausible values, unknown abbreviations
+ * and range disagreements each lower the item's confidence.
+ */
+export const scoreExtraction = (exams: AnalyzedExam[], customAbbreviations: CustomAbbreviation[] = []): AnalyzedExam[] => {
+  const custom = new Set(customAbbreviations.map(ca => abbreviationKey(ca.abbreviation)));
+
+  const pairKey = (exam: AnalyzedExam, item: LabResultItem) =>
+    `${exam.patientInitials.trim().toUpperCase()}|${exam.collectionDate || ''}|${abbreviationKey(item.abbreviation)}`;
+  const pairCounts = new Map<string, number>();
+  exams.forEach(exam => exam.results.forEach(item => {
+    const key = pairKey(exam, item);
+    pairCounts.set(key, (pairCounts.get(key) || 0) + 1);
+  }));
+
+  return exams.map(exam => {
+    if (exam.category !== 'LAB') return exam;
+
+    return {
+      ...exam,
+      results: exam.results.map(item => {
+        const issues: ValidationIssue[] = [...(item.issues || []).filter(issue => issue.code === 'schema')];
+
+        if ((pairCounts.get(pairKey(exam, item)) || 0) > 1) {
+          issues.push({ code: 'duplicate', message: `${item.abbreviation} aparece mais de uma vez na mesma data` });
+        }
+        const implausible = checkPlausibility(item);
+        if (implausible) issues.push(implausible);
+        if (!isKnownAbbreviation(item.abbreviation, custom)) {
+          issues.push({ code: 'unknown-abbreviation', message: `Sigla não reconhecida: ${item.abbreviation}` });
+        }
+        if (hasModelDisagreement(item)) {
+          issues.push({ code: 'range-disagreement', message: 'Classificação da IA diverge da faixa de referência' });
+        }
+
+        const confidence = Math.max(0, issues.reduce((score, issue) => score - PENALTIES[issue.code], 1));
+        return { ...item, issues, confidence: Number(confidence.toFixed(2)) };
+      }),
+    };
+  });
+};
+
+export const needsReview = (item: LabResultItem): boolean =>
+  !item.reviewed && (item.confidence ?? 1) < REVIEW_THRESHOLD;
+
+export interface ReviewItem {
+  examId: string;
+  index: number; // Position in exam.results
+  collectionDate?: string;
+  item: LabResultItem;
+}
+
+export const collectReviewItems = (exams: AnalyzedExam[]): ReviewItem[] =>
+  exams.flatMap(exam =>
+    exam.results
+      .map((item, index) => ({ examId: exam.id, index, collectionDate: exam.collectionDate, item }))
+      .filter(entry => needsReview(entry.item))
+  );
@@ -1,4 +1,5 @@
 import { supabase } from './supabaseClient';
+import type { PlanType } from '../shared/plans';
 
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
 const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -9,7 +10,7 @@ export const STRIPE_PRICES = {
   PRO: 'price_1StrGv1d9SPexqgf7IAils8y',
 } as const;
 
-export type PlanType = 'free' | 'pro';
+export type { PlanType };
 
 export interface Subscription {
   id: string;
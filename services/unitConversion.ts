@@ -0,0 +1,108 @@
+import { AnalyzedExam, LabResultItem, UnitSystem, COMMON_ABBREVIATIONS } from "../types";
+import { abbreviationKey, formatLocaleNumber, parseLabValue, parseLocaleNumber } from "./labValues";
+
+interface UnitConversion {
+  conventional: string;
+  si: string;
+  factor: number; // SI = conventional × factor
+}
+
+const { HEMOGLOBIN, GLUCOSE, UREA, CREATININE, SODIUM, POTASSIUM, CHOLESTEROL_TOTAL, HDL, LDL,
+  TRIGLYCERIDES, T4_FREE, FERRITIN, VITAMIN_B12, VITAMIN_D } = COMMON_ABBREVIATIONS;
+
+// Conventional units are the ones Brazilian labs print (and the curated ranges use)
+const CONVERSIONS: Record<string, UnitConversion> = {
+  [HEMOGLOBIN]: { conventional: 'g/dL', si: 'g/L', factor: 10 },
+  [GLUCOSE]: { conventional: 'mg/dL', si: 'mmol/L', factor: 0.0555 },
+  [UREA]: { conventional: 'mg/dL', si: 'mmol/L', factor: 0.1665 },
+  [CREATININE]: { conventional: 'mg/dL', si: 'µmol/L', factor: 88.4 },
+  [SODIUM]: { conventional: 'mEq/L', si: 'mmol/L', factor: 1 },
+  [POTASSIUM]: { conventional: 'mEq/L', si: 'mmol/L', factor: 1 },
+  'Cl': { conventional: 'mEq/L', si: 'mmol/L', factor: 1 },
+  'Ca': { conventional: 'mg/dL', si: 'mmol/L', factor: 0.2495 },
+  'Mg': { conventional: 'mg/dL', si: 'mmol/L', factor: 0.4114 },
+  'P': { conventional: 'mg/dL', si: 'mmol/L', factor: 0.3229 },
+  [CHOLESTEROL_TOTAL]: { conventional: 'mg/dL', si: 'mmol/L', factor: 0.02586 },
+  [HDL]: { conventional: 'mg/dL', si: 'mmol/L', factor: 0.02586 },
+  [LDL]: { conventional: 'mg/dL', si: 'mmol/L', factor: 0.02586 },
+  [TRIGLYCERIDES]: { conventional: 'mg/dL', si: 'mmol/L', factor: 0.01129 },
+  'Bil-T': { conventional: 'mg/dL', si: 'µmol/L', factor: 17.1 },
+  'Albumina': { conventional: 'g/dL', si: 'g/L', factor: 10 },
+  [T4_FREE]: { conventional: 'ng/dL', si: 'pmol/L', factor: 12.87 },
+  [FERRITIN]: { conventional: 'ng/mL', si: 'µg/L', factor: 1 },
+  [VITAMIN_B12]: { conventional: 'pg/mL', si: 'pmol/L', factor: 0.738 },
+  [VITAMIN_D]: { conventional: 'ng/mL', si: 'nmol/L', factor: 2.496 },
+};
+
+const CONVERSION_KEYS = new Map(Object.keys(CONVERSIONS).map(key => [key.toLowerCase(), key]));
+
+const findConversion = (abbreviation: string): UnitConversion | null => {
+  const key = CONVERSION_KEYS.get(abbreviationKey(abbreviation));
+  return key ? CONVERSIONS[key] : null;
+};
+
+// "umol/l", "μmol/L" and "µmol/L" are the same unit; mEq/L equals mmol/L for monovalent ions
+const normalizeUnit = (unit: string): string =>
+  unit.trim().toLowerCase().replace(/\s/g, '').replace(/[μu](?=[a-z]+\/)/, 'µ').replace('meq/l', 'mmol/l');
+
+const sameUnit = (a: string, b: string) => normalizeUnit(a) === normalizeUnit(b);
+
+type UnitSide = 'conventional' | 'si';
+
+const detectSide = (conversion: UnitConversion, unit: string): UnitSide | null => {
+  if (sameUnit(unit, conversion.conventional)) return 'conventional';
+  if (sameUnit(unit, conversion.si)) return 'si';
+  return null;
+};
+
+const convertNumber = (value: number, conversion: UnitConversion, from: UnitSide): number =>
+  from === 'conventional' ? value * conversion.factor : value / conversion.factor;
+
+// Rewrites every number in a value or range string ("< 0,5", "0,6-1,2") keeping the text around it.
+// Unsigned on purpose: in "0,6-1,2" the dash is a separator, not a sign.
+const convertText = (text: string, conversion: UnitConversion, from: UnitSide): string =>
+  text.replace(/\d+(?:[.,]\d+)*/g, match => {
+    const num = parseLocaleNumber(match);
+    return num === null ? match : formatLocaleNumber(convertNumber(num, conversion, from));
+  });
+
+// Value in the unit the curated ranges and critical thresholds are written in.
+// Returns the number untouched when the unit is missing or unknown for the analyte.
+export const toConventionalNumber = (item: LabResultItem, value: number): number => {
+  const conversion = item.unit ? findConversion(item.abbreviation) : null;
+  const side = conversion && item.unit ? detectSide(conversion, item.unit) : null;
+  return conversion && side === 'si' ? convertNumber(value, conversion, 'si') : value;
+};
+
+export const convertResultUnit = (item: LabResultItem, system: UnitSystem): LabResultItem => {
+  if (system === 'original' || !item.unit) return item;
+
+  const conversion = findConversion(item.abbreviation);
+  const side = conversion ? detectSide(conversion, item.unit) : null;
+  if (!conversion || !side || side === system || conversion.factor === 1) return item;
+
+  const value = convertText(item.value, conversion, side);
+  return {
+    ...item,
+    value,
+    parsedValue: parseLabValue(value),
+    referenceRange: item.referenceRange ? convertText(item.referenceRange, conversion, side) : item.referenceRange,
+    unit: conversion[system],
+    originalValue: item.originalValue ?? item.value,
+    originalUnit: item.originalUnit ?? item.unit,
+  };
+};
+
+// A value or range typed against a converted item, back in the unit the exam stores
+export const toStoredUnit = (displayed: LabResultItem, text: string): string => {
+  if (!displayed.originalUnit || !displayed.unit) return text;
+  const conversion = findConversion(displayed.abbreviation);
+  const side = conversion ? detectSide(conversion, displayed.unit) : null;
+  return conversion && side ? convertText(text, conversion, side) : text;
+};
+
+// Applied before display, copy and export; the extracted exam itself is left untouched
+export const convertExamUnits = (exam: AnalyzedExam, system: UnitSystem): AnalyzedExam => {
+  if (system === 'original' || exam.category !== 'LAB') return exam;
+  return { ...exam, results: exam.results.map(item => convertResultUnit(item, system)) };
+};
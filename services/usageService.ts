@@ -0,0 +1,62 @@
+import { supabase } from './supabaseClient';
+import { stripeService } from './stripeService';
+import { PLAN_LIMITS, PlanType, QuotaErrorCode, currentPeriodStart } from '../shared/plans';
+
+export interface UsageQuota {
+  plan: PlanType;
+  used: number;
+  limit: number | null; // null = unlimited
+  maxFilesPerAnalysis: number | null;
+}
+
+/** Raised when the plan blocks an analysis; the UI answers with an upgrade prompt. */
+export class QuotaExceededError extends Error {
+  code: QuotaErrorCode;
+
+  constructor(message: string, code: QuotaErrorCode) {
+    super(message);
+    this.name = 'QuotaExceededError';
+    this.code = code;
+  }
+}
+
+export const usageService = {
+  /**
+   * Conta as análises do usuário no mês corrente
+   */
+  async getMonthlyUsage(userId: string): Promise<number> {
+    const { count, error } = await supabase
+      .from('analysis_usage')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .gte('created_at', currentPeriodStart().toISOString());
+
+    if (error) {
+      console.error('Error fetching usage:', error);
+      return 0;
+    }
+
+    return count ?? 0;
+  },
+
+  /**
+   * Plano, créditos usados e limites do usuário
+   */
+  async getQuota(userId: string): Promise<UsageQuota> {
+    const [plan, used] = await Promise.all([
+      stripeService.getCurrentPlan(userId),
+      this.getMonthlyUsage(userId),
+    ]);
+
+    return {
+      plan,
+      used,
+      limit: PLAN_LIMITS[plan].monthlyAnalyses,
+      maxFilesPerAnalysis: PLAN_LIMITS[plan].maxFilesPerAnalysis,
+    };
+  },
+
+  hasCreditsLeft(quota: UsageQuota): boolean {
+    return quota.limit === null || quota.used < quota.limit;
+  },
+};
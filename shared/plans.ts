@@ -0,0 +1,25 @@
+// Plan limits, shared by the browser (to warn early) and the edge functions (to enforce).
+// Plain TypeScript with no runtime imports, so both the Vite bundle and Deno can load it.
+
+export type PlanType = 'free' | 'pro';
+
+export interface PlanLimits {
+  monthlyAnalyses: number | null; // null = unlimited
+  maxFilesPerAnalysis: number | null;
+}
+
+export const PLAN_LIMITS: Record<PlanType, PlanLimits> = {
+  free: { monthlyAnalyses: 5, maxFilesPerAnalysis: 3 },
+  pro: { monthlyAnalyses: null, maxFilesPerAnalysis: null },
+};
+
+// Lifetime of a chunked upload's batch: its chunks, and retries of its failed files,
+// share one credit while it lasts
+export const ANALYSIS_BATCH_TTL_MINUTES = 30;
+
+// Error codes returned by analyze-exam when a limit blocks the request
+export type QuotaErrorCode = 'quota_exceeded' | 'file_limit_exceeded';
+
+/** Credits renew on the first day of each month (UTC). */
+export const currentPeriodStart = (now: Date = new Date()): Date =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
@@ -0,0 +1,223 @@
+// Shared between the browser bundle and the analyze-exam edge function (Deno).
+// Keep this file free of imports so both runtimes can load it as-is.
+
+// Gemini-style schema node (OpenAI-compatible providers convert it to JSON Schema)
+export interface ExtractionSchema {
+  type: 'ARRAY' | 'OBJECT' | 'STRING' | 'NUMBER' | 'BOOLEAN';
+  description?: string;
+  enum?: string[];
+  items?: ExtractionSchema;
+  properties?: Record<string, ExtractionSchema>;
+  required?: string[];
+  nullable?: boolean;
+}
+
+// Provider-neutral request pieces (Gemini "parts" shape; other providers convert it)
+export type ExtractionPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+// Each attached document is preceded by a label part; digital PDFs are sent as their text layer
+// inside the label part itself, so they count as documents without any inlineData
+const TEXT_LAYER_LABEL = /^DOCUMENT \d+ \(text layer/;
+
+export const documentLabel = (index: number, textLayer?: string): string =>
+  textLayer === undefined
+    ? `DOCUMENT ${index}`
+    : `DOCUMENT ${index} (text layer of a digital PDF):\n${textLayer}`;
+
+// Content of each file in a request (binaries plus text-layer documents), without the
+// position label, so the same file reads the same in whichever chunk it is sent
+export const documentContents = (parts: ExtractionPart[]): string[] =>
+  parts.flatMap((part) => {
+    if ('inlineData' in part) return [part.inlineData.data];
+    return TEXT_LAYER_LABEL.test(part.text) ? [part.text.replace(/^DOCUMENT \d+ /, '')] : [];
+  });
+
+// Files in a request, for plan limits
+export const countDocuments = (parts: ExtractionPart[]): number => documentContents(parts).length;
+
+// Provenance: which attached document, page and region a value was read from
+const sourceSchema: ExtractionSchema = {
+  type: 'OBJECT',
+  description: "Where this was read in the attached documents.",
+  properties: {
+    fileIndex: {
+      type: 'NUMBER',
+      description: "0-based index of the attached document (see the DOCUMENT n labels).",
+    },
+    page: {
+      type: 'NUMBER',
+      description: "1-based page number inside that document (1 for images).",
+    },
+    box: {
+      type: 'ARRAY',
+      items: { type: 'NUMBER' },
+      description: "Bounding box of the printed value as [ymin, xmin, ymax, xmax], normalized to 0-1000.",
+    },
+  },
+  required: ["fileIndex", "page"],
+  nullable: true,
+};
+
+// Updated Schema to handle both LAB and NON_LAB types
+export const responseSchema: ExtractionSchema = {
+  type: 'ARRAY',
+  items: {
+    type: 'OBJECT',
+    properties: {
+      patientInitials: {
+        type: 'STRING',
+        description: "The initials of the patient's name (e.g., MJR).",
+      },
+      patientAge: {
+        type: 'STRING',
+        description: "The age of the patient (e.g., '45 anos', '3 meses').",
+      },
+      patientSex: {
+        type: 'STRING',
+        enum: ["M", "F"],
+        description: "Biological sex if stated in the document (M or F). Omit if not stated.",
+      },
+      collectionDate: {
+        type: 'STRING',
+        description: "The date(s) of the exam.",
+      },
+      category: {
+        type: 'STRING',
+        enum: ["LAB", "NON_LAB"],
+        description: "LAB for blood/urine tests with values. NON_LAB for Imaging (MRI, CT, USG), Pathology, or Medical Reports.",
+      },
+      // Fields for LAB
+      labResults: {
+        type: 'ARRAY',
+        items: {
+          type: 'OBJECT',
+          properties: {
+            abbreviation: {
+              type: 'STRING',
+              description: "Standardized medical abbreviation.",
+            },
+            value: {
+              type: 'STRING',
+              description: "The numeric value, without the unit.",
+            },
+            unit: {
+              type: 'STRING',
+              description: "The unit exactly as printed (e.g. 'mg/dL', 'µmol/L', 'mmol/L'). Empty if none.",
+            },
+            referenceRange: {
+              type: 'STRING',
+              description: "The reference range extracted from the document. Empty if not requested.",
+            },
+            abnormality: {
+              type: 'STRING',
+              enum: ["HIGH", "LOW", "NORMAL"]
+            },
+            source: sourceSchema,
+          },
+          required: ["abbreviation", "value", "abnormality"],
+        },
+      },
+      // Fields for NON_LAB
+      nonLabData: {
+        type: 'OBJECT',
+        properties: {
+            examTitle: {
+                type: 'STRING',
+                description: "The title of the exam (e.g., 'Ressonância Magnética de Crânio', 'Ultrassom Abdominal').",
+            },
+            mainFindings: {
+                type: 'ARRAY',
+                items: { type: 'STRING' },
+                description: "A list of the most important findings summarized.",
+            },
+            impression: {
+                type: 'STRING',
+                description: "The final conclusion, impression, or diagnosis summary.",
+            }
+        },
+        nullable: true
+      },
+      source: sourceSchema,
+    },
+    required: ["patientInitials", "category"],
+  }
+};
+
+export const EXTRACTION_USER_PROMPT =
+  "Analyze these medical documents. Identify patients. Classify as LAB or NON_LAB and extract data accordingly.";
+
+export const buildSystemInstruction = (
+  customAbbreviations: { examName: string; abbreviation: string }[],
+  preferences: { showReferenceValues: boolean; groupDates: boolean }
+): string => {
+  // Format custom abbreviations
+  const customRulesText = customAbbreviations.length > 0 
+    ? `\n    - **CUSTOM USER ABBREVIATIONS (PRIORITY)**:
+       If it is a LAB EXAM, use these:
+       ${customAbbreviations.map(ca => `- "${ca.examName}" MUST be abbreviated as "${ca.abbreviation}"`).join('\n       ')}
+       ` 
+    : '';
+
+  const referenceValueRule = preferences.showReferenceValues
+    ? "- **LAB REFS**: Include reference ranges in 'referenceRange'."
+    : "- **LAB REFS**: Leave 'referenceRange' empty.";
+
+  const groupDatesRule = preferences.groupDates
+    ? "- **DATES (EVOLUTION)**: The doctor will compare dates side by side. Emit one object per patient PER collection date, with 'collectionDate' strictly as dd/mm (or dd/mm/yyyy if the year is printed). Never put more than one date in 'collectionDate'."
+    : "";
+
+  return `
+    You are an expert medical assistant designed to summarize medical documents for doctors.
+    Your goal is to classify the document type (LAB vs NON_LAB) and extract relevant data strictly following the schema.
+
+    *STRICT ANTI-DUPLICATION RULE*: 
+    - *NEVER* repeat the same abbreviation for the SAME DATE in the output.
+    - If a document contains multiple columns with different dates (historical evolution), extract ALL columns as separate objects, each with its specific 'date'.
+
+    *STRICT NO-EVOLUTION RULE*:
+    - *NEVER* combine values with arrows (->).
+    - Always extract each result as a separate entry object with its specific date. 
+    - Example: If Hemoglobin is 12 on 01/01 and 13 on 02/01, create TWO distinct objects in the array. Do not merge them into a string.
+
+    *STEP 1: CLASSIFICATION*
+    - *LAB*: Blood work, Urine tests, Biochemical profiles.
+    - *NON_LAB*: Imaging (MRI, CT, X-Ray, USG), Pathology, Medical letters.
+
+    *STEP 2: EXTRACTION RULES (LAB)*
+
+    1. *ANONYMIZATION*: Patient Name -> Initials. Age -> Extract.
+    2. *DATA*: Extract values, replacing dots with commas (decimal separator). Keep the value field free of units and put the printed unit in 'unit' (never guess a unit that is not printed).
+    3. *ABNORMALITY*: Classify HIGH/LOW based on reference or medical knowledge.
+    3.1 *SOURCE*: For each result (and each patient object), fill 'source' with the DOCUMENT index, the page and the bounding box of the printed value. For a DOCUMENT given as a text layer, take the page from its '--- PAGE n ---' markers and omit the box. Omit 'source' for pasted text or audio.
+    
+    4. *STRICT HEMOGRAM RULES*:
+       - INCLUDE ONLY: Hb, Ht, VCM, CHCM, RDW, Leuco, Neutro, Bast, Segmentados, Eosi, Baso, Linfo, Mono, Plaq.
+       - *EXCLUDE*: VPM (MPV).
+
+    5. *RENAL & ELECTROLYTES*:
+       - *MANDATORY*: "Ureia" -> "Ur".
+       - *MANDATORY*: "Creatinina" -> "Cr".
+       - "Sodium" -> "Na", "Potassium" -> "K", "Phosphorus" -> "P", "Magnesium" -> "Mg", "Calcium" -> "Ca".
+
+    6. *URINE (URINA)*:
+       - *PROTEIN/CREATININE RATIO*: Extract ONLY as "P/CrU". Do not extract Urine Prot/Creat separately.
+       - *SUFFIX RULE*: Use " U" for urine-specific blood markers (e.g., "Leuco U", "H U", "Glic U").
+       - *EXCLUDE*: Eritr (count), Bili U, Urob U, Ascorbic Acid.
+
+    7. *IMMUNOSUPPRESSANTS*: Tacrolimus (Fk), Sirolimus (Srl), Ciclosporina (Csa), Everolimus (Evr).
+
+    8. *PCR*: "Proteína C Reativa" -> "PCR".
+
+    ${referenceValueRule}
+    ${groupDatesRule}
+    ${customRulesText}
+
+    * IF "NON_LAB" *:
+    - Summarize findings in bullet points.
+    - Provide a clear 'impression' (conclusion).
+
+    *OUTPUT*: Return a JSON ARRAY of objects. Each object represents one patient's record.
+  `;
+};
@@ -0,0 +1,101 @@
+// OpenAI-compatible chat completions (vLLM, Ollama) for on-prem deployments. Only called from
+// analyze-exam: the endpoint and its key stay function secrets, and the plan is enforced as
+// for Gemini.
+
+import { responseSchema, EXTRACTION_USER_PROMPT, ExtractionPart, ExtractionSchema } from './extractionPrompt.ts';
+
+export interface OpenAiCompatibleConfig {
+  baseUrl: string; // e.g. http://vllm.hospital.local:8000/v1 or http://localhost:11434/v1 (Ollama)
+  model: string;
+  apiKey?: string;
+}
+
+/** OPENAI_BASE_URL and OPENAI_MODEL are required; OPENAI_API_KEY only if the endpoint asks for one. */
+export const readOpenAiCompatibleConfig = (): OpenAiCompatibleConfig | null => {
+  const baseUrl = Deno.env.get('OPENAI_BASE_URL');
+  const model = Deno.env.get('OPENAI_MODEL');
+  return baseUrl && model ? { baseUrl, model, apiKey: Deno.env.get('OPENAI_API_KEY') } : null;
+};
+
+// Same shape as the Gemini SDK's errors, so analyze-exam maps both the same way
+class ModelHttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ModelHttpError';
+    this.status = status;
+  }
+}
+
+// Gemini schema -> standard JSON Schema (lowercase types, nullable as a union with "null")
+const toJsonSchema = (schema: ExtractionSchema): Record<string, unknown> => {
+  const type = schema.type.toLowerCase();
+  const json: Record<string, unknown> = {
+    type: schema.nullable ? [type, 'null'] : type,
+  };
+  if (schema.description) json.description = schema.description;
+  if (schema.enum) json.enum = schema.enum;
+  if (schema.required) json.required = schema.required;
+  if (schema.items) json.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    json.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  return json;
+};
+
+// Chat completions require an object at the root, so the patient array is wrapped
+const wrappedSchema = {
+  type: 'object',
+  properties: { patients: toJsonSchema(responseSchema) },
+  required: ['patients'],
+};
+
+const toChatContent = (part: ExtractionPart) => {
+  if ('text' in part) return { type: 'text', text: part.text };
+
+  // Scanned PDFs are binary: these models read images and text only
+  if (!part.inlineData.mimeType.startsWith('image/')) {
+    throw new ModelHttpError(400, `Unsupported document type for this provider: ${part.inlineData.mimeType}`);
+  }
+  return {
+    type: 'image_url',
+    image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` },
+  };
+};
+
+/** The model's JSON answer ({ patients: [...] }), or null when it came back empty. */
+export const generateWithOpenAiCompatible = async (
+  { baseUrl, model, apiKey }: OpenAiCompatibleConfig,
+  systemInstruction: string,
+  parts: ExtractionPart[]
+): Promise<string | null> => {
+  const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model,
+      temperature: 0.1,
+      messages: [
+        { role: 'system', content: systemInstruction },
+        { role: 'user', content: [...parts.map(toChatContent), { type: 'text', text: EXTRACTION_USER_PROMPT }] },
+      ],
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'lab_extraction', schema: wrappedSchema },
+      },
+    }),
+  });
+
+  if (!response.ok) {
+    throw new ModelHttpError(response.status, await response.text());
+  }
+
+  const data = await response.json();
+  return data?.choices?.[0]?.message?.content || null;
+};
@@ -0,0 +1,3 @@
+// Plan limits live in /shared, which has no browser or Deno dependencies; re-exported so
+// the functions keep importing from _shared.
+export * from '../../../shared/plans.ts';
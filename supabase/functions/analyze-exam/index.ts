@@ -0,0 +1,232 @@
+// Authenticated analysis proxy: the model keys only live here (supabase secrets),
+// never in the Vite bundle. Verifies the session, enforces the plan (file count and
+// monthly credits, reserved atomically before the model call), forwards the document
+// parts to the model and gives the credit back if the analysis fails. Chunked uploads
+// run under a batch this function issues (action start_batch).
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { GoogleGenAI } from 'npm:@google/genai@^1.33.0';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { ANALYSIS_BATCH_TTL_MINUTES, PLAN_LIMITS, PlanType } from '../_shared/plans.ts';
+import {
+  responseSchema,
+  buildSystemInstruction,
+  countDocuments,
+  documentContents,
+  EXTRACTION_USER_PROMPT,
+  ExtractionPart,
+} from '../_shared/extractionPrompt.ts';
+import { generateWithOpenAiCompatible, readOpenAiCompatibleConfig } from '../_shared/openAiCompatible.ts';
+
+const GEMINI_MODEL = Deno.env.get('GEMINI_MODEL') ?? 'gemini-2.5-flash';
+// gemini (default) | openai: an OpenAI-compatible endpoint (vLLM, Ollama) for on-prem deployments
+const EXTRACTION_BACKEND = Deno.env.get('EXTRACTION_BACKEND') ?? 'gemini';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// SHA-256 (hex) of a document, to count a batch's distinct files
+const digest = async (content: string): Promise<string> => {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(hash), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const resolvePlan = async (supabase: ReturnType<typeof createClient>, userId: string): Promise<PlanType> => {
+  const { data: subscription } = await supabase
+    .from('subscriptions')
+    .select('price_id, status')
+    .eq('user_id', userId)
+    .in('status', ['active', 'trialing'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return subscription?.price_id && subscription.price_id === Deno.env.get('STRIPE_PRO_PRICE_ID') ? 'pro' : 'free';
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const openAiConfig = EXTRACTION_BACKEND === 'openai' ? readOpenAiCompatibleConfig() : null;
+  const apiKey = Deno.env.get('GEMINI_API_KEY');
+  if (EXTRACTION_BACKEND === 'openai' ? !openAiConfig : !apiKey) {
+    return jsonResponse({ error: 'Chave de API não configurada.' }, 500);
+  }
+
+  // Session check
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) {
+    return jsonResponse({ error: 'User not authenticated' }, 401);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+  if (authError || !user) {
+    return jsonResponse({ error: 'User not authenticated' }, 401);
+  }
+
+  let body: {
+    action?: 'start_batch';
+    fileCount?: number; // start_batch: files in the whole upload
+    parts: ExtractionPart[];
+    customAbbreviations?: { examName: string; abbreviation: string }[];
+    preferences?: { showReferenceValues: boolean; groupDates: boolean };
+    batchId?: string; // Issued by start_batch, shared by the chunks of one upload (see batchAnalysis)
+  };
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ error: 'Invalid request body' }, 400);
+  }
+
+  // Plan enforcement
+  const plan = await resolvePlan(supabase, user.id);
+  const { monthlyAnalyses, maxFilesPerAnalysis } = PLAN_LIMITS[plan];
+  const fileLimitResponse = () => jsonResponse({
+    error: `Seu plano permite até ${maxFilesPerAnalysis} arquivos por análise.`,
+    code: 'file_limit_exceeded',
+  }, 403);
+  const quotaResponse = () => jsonResponse({
+    error: `Você utilizou as ${monthlyAnalyses} análises do seu plano este mês.`,
+    code: 'quota_exceeded',
+  }, 402);
+
+  // A chunked upload first asks for a batch: the plan's file limit applies to the whole upload
+  if (body.action === 'start_batch') {
+    const fileCount = Number(body.fileCount);
+    if (!Number.isInteger(fileCount) || fileCount < 1) {
+      return jsonResponse({ error: 'Invalid request body' }, 400);
+    }
+    if (maxFilesPerAnalysis !== null && fileCount > maxFilesPerAnalysis) return fileLimitResponse();
+
+    const { data: batch, error: batchError } = await supabase
+      .from('analysis_batches')
+      .insert({
+        user_id: user.id,
+        file_count: fileCount,
+        expires_at: new Date(Date.now() + ANALYSIS_BATCH_TTL_MINUTES * 60_000).toISOString(),
+      })
+      .select('id, expires_at')
+      .single();
+    if (batchError || !batch) {
+      return jsonResponse({ error: 'Não foi possível iniciar a análise.' }, 500);
+    }
+    return jsonResponse({ batchId: batch.id, expiresAt: batch.expires_at });
+  }
+
+  if (!Array.isArray(body.parts) || body.parts.length === 0) {
+    return jsonResponse({ error: 'Nenhum documento enviado.' }, 400);
+  }
+
+  const fileCount = countDocuments(body.parts);
+  if (maxFilesPerAnalysis !== null && fileCount > maxFilesPerAnalysis) return fileLimitResponse();
+
+  const batchId = typeof body.batchId === 'string' && UUID_PATTERN.test(body.batchId) ? body.batchId : null;
+  let settle: (succeeded: boolean) => Promise<void>;
+
+  if (batchId) {
+    // Chunk of a batch: admitted (and the batch charged once) in one locked call
+    const documents = await Promise.all(documentContents(body.parts).map(digest));
+    const { data: claim, error: claimError } = await supabase.rpc('claim_batch_chunk', {
+      p_user_id: user.id,
+      p_batch_id: batchId,
+      p_documents: documents,
+      p_monthly_limit: monthlyAnalyses,
+    });
+    if (claimError) {
+      return jsonResponse({ error: 'Não foi possível verificar seus créditos.' }, 500);
+    }
+    if (claim === 'batch_invalid') {
+      return jsonResponse({ error: 'Esta análise expirou. Envie os arquivos novamente.', code: 'batch_invalid' }, 409);
+    }
+    if (claim === 'file_limit_exceeded') return fileLimitResponse();
+    if (claim === 'quota_exceeded') return quotaResponse();
+
+    settle = async (succeeded) => {
+      const { error } = await supabase.rpc('finish_batch_chunk', { p_batch_id: batchId, p_succeeded: succeeded });
+      if (error) console.error('Batch chunk not closed:', error);
+    };
+  } else {
+    // Check and spend in one locked call (see consume_analysis_credit)
+    const { data: credit, error: creditError } = await supabase
+      .rpc('consume_analysis_credit', {
+        p_user_id: user.id,
+        p_monthly_limit: monthlyAnalyses,
+        p_file_count: fileCount,
+      })
+      .maybeSingle<{ usage_id: string; charged: boolean }>();
+
+    if (creditError) {
+      return jsonResponse({ error: 'Não foi possível verificar seus créditos.' }, 500);
+    }
+    if (!credit) return quotaResponse();
+
+    // Failed analyses do not consume a credit
+    settle = async (succeeded) => {
+      if (succeeded || !credit.charged) return;
+      const { error } = await supabase.from('analysis_usage').delete().eq('id', credit.usage_id);
+      if (error) console.error('Credit refund failed:', error);
+    };
+  }
+
+  const systemInstruction = buildSystemInstruction(
+    body.customAbbreviations ?? [],
+    body.preferences ?? { showReferenceValues: false, groupDates: false }
+  );
+
+  const answer = async (text: string) => {
+    await settle(true);
+    return new Response(text, {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  };
+
+  try {
+    if (openAiConfig) {
+      const text = await generateWithOpenAiCompatible(openAiConfig, systemInstruction, body.parts);
+      if (text) return await answer(text);
+      await settle(false);
+      return jsonResponse({ error: 'Falha ao gerar resposta.' }, 502);
+    }
+
+    const ai = new GoogleGenAI({ apiKey });
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: [{ parts: [...body.parts, { text: EXTRACTION_USER_PROMPT }] }],
+      config: {
+        systemInstruction,
+        responseMimeType: 'application/json',
+        responseSchema,
+        temperature: 0.1,
+      },
+    });
+
+    if (!response.text) {
+      // An empty answer is either a safety block (permanent for this document) or a hiccup
+      const finishReason = response.candidates?.[0]?.finishReason;
+      await settle(false);
+      if (response.promptFeedback?.blockReason || finishReason === 'SAFETY' || finishReason === 'PROHIBITED_CONTENT') {
+        return jsonResponse({ error: 'Conteúdo bloqueado pelo filtro de segurança.', code: 'safety_blocked' }, 422);
+      }
+      return jsonResponse({ error: 'Falha ao gerar resposta.' }, 502);
+    }
+
+    return await answer(response.text);
+  } catch (error) {
+    console.error('Model Analysis Error:', error);
+    await settle(false);
+    // Codes let the client tell "wait and retry" from "this file cannot be read"
+    const status = (error as { status?: number }).status;
+    if (status === 429) {
+      return jsonResponse({ error: 'Limite de requisições do modelo atingido.', code: 'rate_limited' }, 429);
+    }
+    if (status === 400) {
+      return jsonResponse({ error: 'O modelo não conseguiu ler o documento.', code: 'unreadable_document' }, 422);
+    }
+    return jsonResponse({ error: 'Não foi possível processar o documento. Tente novamente.' }, 502);
+  }
+});
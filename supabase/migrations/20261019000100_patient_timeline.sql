@@ -0,0 +1,43 @@
+-- Persisted patient records and their cross-visit lab timeline.
+-- Patients are identified by a pseudonym chosen by the doctor; no names are stored.
+
+create table if not exists public.patients (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  pseudonym text not null,
+  initials text not null,
+  age text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, pseudonym)
+);
+
+create table if not exists public.patient_lab_results (
+  id uuid primary key default gen_random_uuid(),
+  patient_id uuid not null references public.patients (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  exam_id text not null,
+  abbreviation text not null,
+  value text not null,
+  reference_range text,
+  abnormality text not null check (abnormality in ('HIGH', 'LOW', 'NORMAL')),
+  collected_on date not null,
+  created_at timestamptz not null default now(),
+  unique (patient_id, abbreviation, collected_on)
+);
+
+create index if not exists patient_lab_results_patient_idx
+  on public.patient_lab_results (patient_id, collected_on);
+
+alter table public.patients enable row level security;
+alter table public.patient_lab_results enable row level security;
+
+create policy "Users manage their own patients"
+  on public.patients for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users manage their own lab timeline"
+  on public.patient_lab_results for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,18 @@
+-- Usage ledger: one row per successful analysis. Inserted by the analyze-exam
+-- edge function (service role); users can only read their own rows.
+
+create table if not exists public.analysis_usage (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  file_count integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists analysis_usage_user_period_idx
+  on public.analysis_usage (user_id, created_at);
+
+alter table public.analysis_usage enable row level security;
+
+create policy "Users read their own usage"
+  on public.analysis_usage for select
+  using (auth.uid() = user_id);
@@ -0,0 +1,12 @@
+-- User-configurable panic values, stored next to the custom abbreviations.
+-- Null means "not customized yet": the app falls back to DEFAULT_CRITICAL_THRESHOLDS.
+alter table public.user_customizations
+  add column if not exists critical_thresholds jsonb;
+
+-- Saved patient results can now carry the CRITICAL tier
+alter table public.patient_lab_results
+  drop constraint if exists patient_lab_results_abnormality_check;
+
+alter table public.patient_lab_results
+  add constraint patient_lab_results_abnormality_check
+  check (abnormality in ('HIGH', 'LOW', 'NORMAL', 'CRITICAL_HIGH', 'CRITICAL_LOW'));
@@ -0,0 +1,8 @@
+-- Units travel with the values so saved timelines stay comparable across labs.
+alter table public.patient_lab_results
+  add column if not exists unit text;
+
+-- Preferred unit system applied before display/copy/export ('original' | 'conventional' | 'si')
+alter table public.user_customizations
+  add column if not exists unit_system text not null default 'conventional'
+  check (unit_system in ('original', 'conventional', 'si'));
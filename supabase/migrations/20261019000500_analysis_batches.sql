@@ -0,0 +1,7 @@
+-- Large uploads are sent in chunks that share a batch id; the batch is charged once
+-- (first successful chunk) and later chunks are let through the monthly check.
+alter table public.analysis_usage
+  add column if not exists batch_id uuid;
+
+create unique index if not exists analysis_usage_user_batch_idx
+  on public.analysis_usage (user_id, batch_id);
@@ -0,0 +1,4 @@
+-- Template of the copied summary (see services/outputTemplate).
+-- Null means "not customized yet": the app falls back to DEFAULT_OUTPUT_TEMPLATE.
+alter table public.user_customizations
+  add column if not exists output_template jsonb;
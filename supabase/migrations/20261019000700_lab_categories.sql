@@ -0,0 +1,4 @@
+-- User-defined grouping and ordering of the summary ([{ id, name, abbreviations }], in display order).
+-- Null means "not customized yet": the app falls back to DEFAULT_LAB_CATEGORIES.
+alter table public.user_customizations
+  add column if not exists lab_categories jsonb;
@@ -0,0 +1,71 @@
+-- Shared abbreviation dictionaries: a residency program (organization) keeps dictionaries its
+-- preceptors maintain; members inherit the ones marked `inherited` and can switch the others on
+-- as presets. Users also keep named presets of their own. Membership is managed by the program
+-- admin (dashboard/SQL); the app only reads it.
+
+create table if not exists public.organizations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.organization_members (
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null default 'member' check (role in ('preceptor', 'member')),
+  created_at timestamptz not null default now(),
+  primary key (organization_id, user_id)
+);
+
+create table if not exists public.abbreviation_dictionaries (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid references public.organizations (id) on delete cascade,
+  owner_id uuid references auth.users (id) on delete cascade,
+  name text not null,
+  entries jsonb not null default '[]'::jsonb, -- [{ id, examName, abbreviation }]
+  inherited boolean not null default false, -- Organization only: applied to every member
+  updated_at timestamptz not null default now(),
+  -- Either the program's or one user's, never both
+  check ((organization_id is null) <> (owner_id is null)),
+  check (not inherited or organization_id is not null)
+);
+
+create index if not exists abbreviation_dictionaries_organization_idx
+  on public.abbreviation_dictionaries (organization_id);
+
+-- Security definer so the policies below can check membership without recursing into its RLS
+create or replace function public.organization_role(org uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.organization_members
+  where organization_id = org and user_id = auth.uid();
+$$;
+
+alter table public.organizations enable row level security;
+alter table public.organization_members enable row level security;
+alter table public.abbreviation_dictionaries enable row level security;
+
+create policy "Members read their organizations"
+  on public.organizations for select
+  using (public.organization_role(id) is not null);
+
+create policy "Users read their own memberships"
+  on public.organization_members for select
+  using (auth.uid() = user_id);
+
+create policy "Users read their and their organizations' dictionaries"
+  on public.abbreviation_dictionaries for select
+  using (auth.uid() = owner_id or public.organization_role(organization_id) is not null);
+
+create policy "Owners and preceptors write dictionaries"
+  on public.abbreviation_dictionaries for all
+  using (auth.uid() = owner_id or public.organization_role(organization_id) = 'preceptor')
+  with check (auth.uid() = owner_id or public.organization_role(organization_id) = 'preceptor');
+
+-- Presets the user switched on (dictionary ids, including the built-in ones), in precedence order
+alter table public.user_customizations
+  add column if not exists active_dictionaries jsonb not null default '[]'::jsonb;
@@ -0,0 +1,4 @@
+-- Interoperability codes travel with saved results (derived from abbreviation and specimen, see labCodes)
+alter table public.patient_lab_results
+  add column if not exists loinc_code text,
+  add column if not exists tuss_code text;
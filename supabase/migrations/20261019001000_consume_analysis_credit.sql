@@ -0,0 +1,54 @@
+-- Credits are checked and spent in one call, under a per-user lock: concurrent chunks or
+-- tabs can no longer all read the same count and pass the check for the last credit.
+-- analyze-exam reserves the credit before calling the model and deletes the row if the
+-- analysis fails, so only successful analyses stay charged.
+
+create or replace function public.consume_analysis_credit(
+  p_user_id uuid,
+  p_monthly_limit integer, -- null = unlimited (still recorded)
+  p_file_count integer,
+  p_batch_id uuid default null
+)
+returns table (usage_id uuid, charged boolean)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_used integer;
+begin
+  perform pg_advisory_xact_lock(hashtextextended('analysis_usage:' || p_user_id::text, 0));
+
+  -- A batch is charged once; later chunks reuse its row
+  if p_batch_id is not null then
+    select id into usage_id
+      from analysis_usage
+      where user_id = p_user_id and batch_id = p_batch_id;
+    if found then
+      charged := false;
+      return next;
+      return;
+    end if;
+  end if;
+
+  if p_monthly_limit is not null then
+    select count(*) into v_used
+      from analysis_usage
+      where user_id = p_user_id
+        and created_at >= date_trunc('month', now() at time zone 'utc') at time zone 'utc';
+    -- No row returned: out of credits
+    if v_used >= p_monthly_limit then
+      return;
+    end if;
+  end if;
+
+  insert into analysis_usage (user_id, file_count, batch_id)
+    values (p_user_id, p_file_count, p_batch_id)
+    returning id into usage_id;
+  charged := true;
+  return next;
+end;
+$$;
+
+revoke execute on function public.consume_analysis_credit(uuid, integer, integer, uuid) from public, anon, authenticated;
+grant execute on function public.consume_analysis_credit(uuid, integer, integer, uuid) to service_role;
@@ -0,0 +1,109 @@
+-- Chunked uploads run under a batch the server issues (analyze-exam, action start_batch),
+-- instead of an id the client makes up. A batch is short-lived, belongs to one user and
+-- covers at most the file count declared (and checked against the plan) when it started:
+-- documents are counted by content digest, so retrying a failed file does not count twice.
+-- It is charged one credit, given back if none of its chunks succeeds.
+
+create table if not exists public.analysis_batches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  file_count integer not null,
+  documents text[] not null default '{}', -- SHA-256 of each document analysed so far
+  usage_id uuid references public.analysis_usage (id) on delete set null,
+  in_flight integer not null default 0,
+  succeeded boolean not null default false,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+create index if not exists analysis_batches_user_idx
+  on public.analysis_batches (user_id, created_at);
+
+-- Only the edge function (service role) touches batches
+alter table public.analysis_batches enable row level security;
+
+-- Admits one chunk: 'ok', 'batch_invalid' (unknown, someone else's or expired),
+-- 'file_limit_exceeded' or 'quota_exceeded'
+create or replace function public.claim_batch_chunk(
+  p_user_id uuid,
+  p_batch_id uuid,
+  p_documents text[],
+  p_monthly_limit integer
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_batch analysis_batches%rowtype;
+  v_documents text[];
+  v_usage_id uuid;
+begin
+  select * into v_batch
+    from analysis_batches
+    where id = p_batch_id and user_id = p_user_id and expires_at > now()
+    for update;
+  if not found then
+    return 'batch_invalid';
+  end if;
+
+  select coalesce(array_agg(distinct document), '{}') into v_documents
+    from unnest(v_batch.documents || p_documents) as document;
+  if cardinality(v_documents) > v_batch.file_count then
+    return 'file_limit_exceeded';
+  end if;
+
+  if v_batch.usage_id is null then
+    select usage_id into v_usage_id
+      from consume_analysis_credit(p_user_id, p_monthly_limit, v_batch.file_count, p_batch_id);
+    if v_usage_id is null then
+      return 'quota_exceeded';
+    end if;
+  end if;
+
+  update analysis_batches
+    set documents = v_documents,
+        usage_id = coalesce(v_batch.usage_id, v_usage_id),
+        in_flight = in_flight + 1
+    where id = p_batch_id;
+  return 'ok';
+end;
+$$;
+
+-- Closes a chunk; when the last running chunk fails and none succeeded, the credit goes back
+-- (a later retry under the same batch charges it again)
+create or replace function public.finish_batch_chunk(
+  p_batch_id uuid,
+  p_succeeded boolean
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_batch analysis_batches%rowtype;
+begin
+  select * into v_batch from analysis_batches where id = p_batch_id for update;
+  if not found then
+    return;
+  end if;
+
+  if not p_succeeded and not v_batch.succeeded and v_batch.in_flight <= 1 and v_batch.usage_id is not null then
+    delete from analysis_usage where id = v_batch.usage_id;
+    v_batch.usage_id := null;
+  end if;
+
+  update analysis_batches
+    set in_flight = greatest(in_flight - 1, 0),
+        succeeded = succeeded or p_succeeded,
+        usage_id = v_batch.usage_id
+    where id = p_batch_id;
+end;
+$$;
+
+revoke execute on function public.claim_batch_chunk(uuid, uuid, text[], integer) from public, anon, authenticated;
+revoke execute on function public.finish_batch_chunk(uuid, boolean) from public, anon, authenticated;
+grant execute on function public.claim_batch_chunk(uuid, uuid, text[], integer) to service_role;
+grant execute on function public.finish_batch_chunk(uuid, boolean) to service_role;
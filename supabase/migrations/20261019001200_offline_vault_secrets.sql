@@ -0,0 +1,49 @@
+-- Secret the offline vault key is derived from (see services/offlineVault). It lives here,
+-- not on the device: the browser holds it in memory for the signed-in session only, so a copy
+-- of the browser profile cannot open the stored captures. Signing out deletes it, which makes
+-- anything left on any device unreadable.
+
+create table if not exists public.offline_vault_secrets (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  secret text not null,
+  created_at timestamptz not null default now()
+);
+
+-- Only reached through the functions below
+alter table public.offline_vault_secrets enable row level security;
+
+-- The caller's secret, created on first use
+create or replace function public.get_offline_vault_secret()
+returns text
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_secret text;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated';
+  end if;
+
+  insert into offline_vault_secrets (user_id, secret)
+    values (auth.uid(), encode(gen_random_bytes(32), 'base64'))
+    on conflict (user_id) do nothing;
+  select secret into v_secret from offline_vault_secrets where user_id = auth.uid();
+  return v_secret;
+end;
+$$;
+
+create or replace function public.reset_offline_vault_secret()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from offline_vault_secrets where user_id = auth.uid();
+$$;
+
+revoke execute on function public.get_offline_vault_secret() from public, anon;
+revoke execute on function public.reset_offline_vault_secret() from public, anon;
+grant execute on function public.get_offline_vault_secret() to authenticated;
+grant execute on function public.reset_offline_vault_secret() to authenticated;
@@ -0,0 +1,15 @@
+-- A timeline row must hang from one of the caller's own patients, not only carry their
+-- user_id: otherwise a known patient id lets anyone write into someone else's timeline.
+
+drop policy if exists "Users manage their own lab timeline" on public.patient_lab_results;
+
+create policy "Users manage their own lab timeline"
+  on public.patient_lab_results for all
+  using (
+    auth.uid() = user_id
+    and exists (select 1 from public.patients p where p.id = patient_id and p.user_id = auth.uid())
+  )
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.patients p where p.id = patient_id and p.user_id = auth.uid())
+  );
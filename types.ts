@@ -1,9 +1,43 @@
 
+// Typed reading of LabResultItem.value (see labValues.parseLabValue)
+export type LabValue =
+  | { kind: 'numeric'; value: number }
+  | { kind: 'censored-below'; limit: number } // "<0,5": below the assay's detection limit
+  | { kind: 'censored-above'; limit: number } // "> 90": above the reportable range
+  | { kind: 'qualitative'; text: string; positive: boolean | null } // "Reagente", "Negativo", "traços"
+  | { kind: 'ratio'; numerator: number; denominator: number; value: number } // "3/1"
+  | { kind: 'titer'; dilution: number }; // "1:160"
+
+export interface ValidationIssue {
+  code: 'schema' | 'duplicate' | 'implausible' | 'unknown-abbreviation' | 'range-disagreement';
+  message: string;
+}
+
+// Where a value was read in the uploaded documents (see SourceViewer)
+export interface SourceLocation {
+  fileIndex: number; // Position in AnalyzedExam.sourceFiles
+  page: number; // 1-based; always 1 for images
+  box?: [number, number, number, number]; // [ymin, xmin, ymax, xmax], normalized 0-1000
+}
+
 export interface LabResultItem {
   abbreviation: string;
   value: string;
   referenceRange?: string; // New field for reference values
-  abnormality: 'HIGH' | 'LOW' | 'NORMAL';
+  unit?: string; // As printed by the lab (e.g. mg/dL, µmol/L)
+  parsedValue?: LabValue; // Filled after extraction; always derived from `value`
+  originalValue?: string; // Set when the value was converted to the preferred unit system
+  originalUnit?: string;
+  loinc?: string; // Derived from the abbreviation and specimen (see labCodes)
+  tuss?: string;
+  abnormality: 'HIGH' | 'LOW' | 'NORMAL' | 'CRITICAL_HIGH' | 'CRITICAL_LOW'; // CRITICAL_* come from the user's panic thresholds
+  abnormalitySource?: 'document' | 'curated' | 'model' | 'manual' | 'lis'; // Which range produced the flag (see referenceRanges); 'lis': sent by the lab system (HL7 OBX-8)
+  modelAbnormality?: 'HIGH' | 'LOW' | 'NORMAL'; // Model's original flag, only kept when the engine disagrees
+  confidence?: number; // 0-1, from resultValidation; low values go to the review queue
+  issues?: ValidationIssue[];
+  reviewed?: boolean; // Confirmed or edited by the doctor
+  source?: SourceLocation;
+  mergedFrom?: string; // Id of the exam this result came from when two cards were merged (see patientMerge)
 }
 
 export interface NonLabData {
@@ -16,17 +50,56 @@ export interface AnalyzedExam {
   id: string; // Added ID for list rendering
   patientInitials: string;
   patientAge: string;
+  patientSex?: 'M' | 'F'; // Used for sex-specific reference ranges
   collectionDate?: string; // Format dd/mm
   category: 'LAB' | 'NON_LAB'; // Distinction
   results: LabResultItem[];
   nonLabData?: NonLabData; // Data for non-lab exams
   rawSummary: string; // Fallback string
+  edits?: ExamEdit[]; // Audit trail of manual corrections (see examEdits)
+  source?: SourceLocation; // Where the exam (or report) starts
+  sourceFiles?: File[]; // Uploaded files of the analysis, kept in memory only for the viewer
+  mergedExams?: MergedExamRecord[]; // Exams absorbed into this one, so the merge can be undone
+  originalPatient?: PatientIdentity; // Identity before a merge renamed it
+  originalSummary?: string; // rawSummary before a merge joined other reports into it
 }
 
+export type PatientIdentity = Pick<AnalyzedExam, 'patientInitials' | 'patientAge' | 'patientSex'>;
+
+// What a split needs to rebuild an absorbed exam; its results stay on the card tagged `mergedFrom`
+export interface MergedExamRecord extends PatientIdentity {
+  id: string;
+  collectionDate?: string;
+  rawSummary: string;
+  edits?: ExamEdit[]; // Its own audit trail, as it was when absorbed
+  source?: SourceLocation;
+  fileOffset: number; // Its files start here in the merged exam's sourceFiles
+  fileCount: number;
+  droppedResults: LabResultItem[]; // Analytes the card already had on that date
+}
+
+export interface ExamEdit {
+  field: string; // Human-readable target, e.g. "Plq · valor" or "Conclusão"
+  original: string; // As extracted; '' when the entry was added by hand
+  edited: string; // Current value; '' when the entry was removed
+  editedAt: string; // ISO timestamp of the latest change
+}
+
+// Failure classes of an analysis (see services/analysisErrors); plan limits use QuotaErrorCode
+export type AnalysisErrorCode =
+  | 'rate_limited'
+  | 'unreadable_document'
+  | 'no_patient_detected'
+  | 'schema_violation'
+  | 'network_offline'
+  | 'safety_blocked'
+  | 'provider_unavailable'
+  | 'unknown';
+
 export interface AnalysisState {
   status: 'idle' | 'analyzing' | 'success' | 'error';
-  data: AnalyzedExam[] | null; // Changed from single object to Array
-  error?: string;
+  data: AnalyzedExam[] | null; // Changed from single object to Array; kept on error so a retry can add to it
+  error?: { code: AnalysisErrorCode; message: string };
 }
 
 export interface CustomAbbreviation {
@@ -35,6 +108,49 @@ export interface CustomAbbreviation {
   abbreviation: string;
 }
 
+export interface CriticalThreshold {
+  id: string;
+  abbreviation: string;
+  criticalBelow: number | null; // e.g. Na < 120
+  criticalAbove: number | null; // e.g. K > 6,5
+  criticalIfPositive?: boolean; // Qualitative results (e.g. Trop "Positivo"/"Reagente")
+}
+
+// 'original' keeps each lab's own units; the others convert known analytes (see unitConversion)
+export type UnitSystem = 'original' | 'conventional' | 'si';
+
+// A group of the summary ("HEMOGRAMA", "IMUNOSSUPRESSORES"...); list order is display order
+export interface LabCategory {
+  id: string;
+  name: string;
+  abbreviations: string[]; // In display order
+}
+
+// Clipboard/lean/PDF text of lab cards (see services/outputTemplate for the placeholders)
+export interface OutputTemplate {
+  header: string; // "{patient} - Lab ({date}):"
+  line: string; // One per system (or a single line when not grouped)
+  item: string;
+  itemSeparator: string; // "\n" allowed in the separators
+  lineSeparator: string;
+  abnormalHeader: string; // The "copiar alterações" text
+  abnormalItem: string;
+  groupByCategory: boolean;
+  ordering: 'category' | 'report' | 'abnormal_first';
+}
+
+export const DEFAULT_OUTPUT_TEMPLATE: OutputTemplate = {
+  header: '{patient} - Lab ({date}):',
+  line: '[{category}: ]{items}',
+  item: '{item} {value}[ (Ref: {reference})]',
+  itemSeparator: ' / ',
+  lineSeparator: '\\n',
+  abnormalHeader: '{patient} - Lab ({date}) - ALTERAÇÕES: ',
+  abnormalItem: '{item} {value}[ {arrow}][ ({critical})]',
+  groupByCategory: true,
+  ordering: 'category',
+};
+
 export interface AnalysisPreferences {
   showReferenceValues: boolean;
   groupDates: boolean;
@@ -65,3 +181,15 @@ export const COMMON_ABBREVIATIONS = {
   VITAMIN_B12: 'Vit-B12',
   VITAMIN_D: 'Vit-D',
 };
+
+// Panic values used until the user saves their own thresholds
+export const DEFAULT_CRITICAL_THRESHOLDS: CriticalThreshold[] = [
+  { id: 'default-k', abbreviation: COMMON_ABBREVIATIONS.POTASSIUM, criticalBelow: 2.5, criticalAbove: 6.5 },
+  { id: 'default-na', abbreviation: COMMON_ABBREVIATIONS.SODIUM, criticalBelow: 120, criticalAbove: 160 },
+  { id: 'default-hb', abbreviation: COMMON_ABBREVIATIONS.HEMOGLOBIN, criticalBelow: 7, criticalAbove: null },
+  { id: 'default-plq', abbreviation: COMMON_ABBREVIATIONS.PLATELETS, criticalBelow: 20000, criticalAbove: 1000000 },
+  { id: 'default-glic', abbreviation: COMMON_ABBREVIATIONS.GLUCOSE, criticalBelow: 40, criticalAbove: 500 },
+  { id: 'default-ca', abbreviation: 'Ca', criticalBelow: 6, criticalAbove: 13 },
+  { id: 'default-ph', abbreviation: 'pH', criticalBelow: 7.2, criticalAbove: 7.6 },
+  { id: 'default-trop', abbreviation: 'Trop', criticalBelow: null, criticalAbove: null, criticalIfPositive: true },
+];
@@ -3,7 +3,7 @@
 interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_ANON_KEY: string
-  readonly VITE_GEMINI_API_KEY: string
+  readonly VITE_EXTRACTION_PROVIDER?: 'server' | 'mock'
 }
 
 interface ImportMeta {
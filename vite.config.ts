@@ -8,6 +8,10 @@ export default defineConfig({
     host: '0.0.0.0',
   },
   plugins: [react()],
+  build: {
+    // Read by public/sw.js to precache the hashed bundles for offline use
+    manifest: 'asset-manifest.json',
+  },
   resolve: {
     alias: {
       '@': path.resolve(__dirname, '.'),